@@ -8,6 +8,7 @@ import {
   CAPABILITY_EVENT_KINDS,
   CAPABILITY_TAGS,
   type Capability,
+  type CapabilityAncestor,
   type CapabilityEvent,
   type CapabilityQualifier,
   type CapabilityType,
@@ -43,33 +44,7 @@ export function createCapabilityGrantEvent(
 
   // Add qualifiers
   if (options?.qualifiers) {
-    const q = options.qualifiers;
-    
-    if (q.kinds && q.kinds.length > 0) {
-      tags.push([CAPABILITY_TAGS.KINDS, ...q.kinds.map(String)]);
-    }
-    
-    if (q.requiredTags && q.requiredTags.length > 0) {
-      tags.push([
-        CAPABILITY_TAGS.REQUIRED_TAGS,
-        JSON.stringify(q.requiredTags),
-      ]);
-    }
-    
-    if (q.excludedTags && q.excludedTags.length > 0) {
-      tags.push([
-        CAPABILITY_TAGS.EXCLUDED_TAGS,
-        JSON.stringify(q.excludedTags),
-      ]);
-    }
-    
-    if (q.rateLimit) {
-      tags.push([
-        CAPABILITY_TAGS.RATE_LIMIT,
-        String(q.rateLimit.count),
-        String(q.rateLimit.periodSeconds),
-      ]);
-    }
+    tags.push(...createQualifierTags(options.qualifiers));
   }
 
   // Add expiration
@@ -126,6 +101,7 @@ export function createCapabilityDelegationEvent(
   options?: {
     qualifiers?: CapabilityQualifier;
     expiresAt?: Timestamp;
+    groupId?: string;
   }
 ): UnsignedEvent {
   const tags: string[][] = [
@@ -136,33 +112,7 @@ export function createCapabilityDelegationEvent(
 
   // Add qualifiers (must be subset of original)
   if (options?.qualifiers) {
-    const q = options.qualifiers;
-    
-    if (q.kinds && q.kinds.length > 0) {
-      tags.push([CAPABILITY_TAGS.KINDS, ...q.kinds.map(String)]);
-    }
-    
-    if (q.requiredTags && q.requiredTags.length > 0) {
-      tags.push([
-        CAPABILITY_TAGS.REQUIRED_TAGS,
-        JSON.stringify(q.requiredTags),
-      ]);
-    }
-    
-    if (q.excludedTags && q.excludedTags.length > 0) {
-      tags.push([
-        CAPABILITY_TAGS.EXCLUDED_TAGS,
-        JSON.stringify(q.excludedTags),
-      ]);
-    }
-    
-    if (q.rateLimit) {
-      tags.push([
-        CAPABILITY_TAGS.RATE_LIMIT,
-        String(q.rateLimit.count),
-        String(q.rateLimit.periodSeconds),
-      ]);
-    }
+    tags.push(...createQualifierTags(options.qualifiers));
   }
 
   // Add expiration
@@ -170,6 +120,11 @@ export function createCapabilityDelegationEvent(
     tags.push([CAPABILITY_TAGS.EXPIRATION, String(options.expiresAt)]);
   }
 
+  // Add group ID if provided
+  if (options?.groupId) {
+    tags.push([CAPABILITY_TAGS.GROUP, options.groupId]);
+  }
+
   return {
     kind: CAPABILITY_EVENT_KINDS.DELEGATE,
     pubkey: delegatorPubkey,
@@ -199,8 +154,7 @@ export function parseCapabilityGrantEvent(event: Event): CapabilityEvent | null
   }
 
   // Validate capability type
-  const validTypes: CapabilityType[] = ["read", "write", "publish", "delete", "delegate"];
-  if (!validTypes.includes(type)) {
+  if (!CAPABILITY_TYPES.includes(type)) {
     return null;
   }
 
@@ -218,6 +172,7 @@ export function parseCapabilityGrantEvent(event: Event): CapabilityEvent | null
     issuedAt: event.created_at,
     ...(expiresAt !== undefined && { expiresAt }),
     ...(Object.keys(qualifiers).length > 0 && { qualifiers }),
+    eventId: event.id,
   };
 
   return { event, capability };
@@ -259,7 +214,7 @@ export function parseDelegationEvent(
   const type = getTagValue(event.tags, CAPABILITY_TAGS.TYPE) as CapabilityType | undefined;
   const originalEventId = getTagValue(event.tags, CAPABILITY_TAGS.REFERENCE);
 
-  if (!holder || !type || !originalEventId) {
+  if (!holder || !type || !originalEventId || !CAPABILITY_TYPES.includes(type)) {
     return null;
   }
 
@@ -280,6 +235,22 @@ export function parseDelegationEvent(
     },
   ];
 
+  // Uses also count against the rate limits of every capability up the chain
+  const ancestors: CapabilityAncestor[] = [
+    ...(originalCapability.ancestors ?? []),
+    ...(originalCapability.eventId !== undefined
+      ? [
+          {
+            eventId: originalCapability.eventId,
+            holder: originalCapability.holder,
+            ...(originalCapability.qualifiers?.rateLimit && {
+              rateLimit: originalCapability.qualifiers.rateLimit,
+            }),
+          },
+        ]
+      : []),
+  ];
+
   const capability: Capability = {
     type,
     holder,
@@ -288,6 +259,8 @@ export function parseDelegationEvent(
     ...(expiresAt !== undefined && { expiresAt }),
     ...(Object.keys(qualifiers).length > 0 && { qualifiers }),
     delegationChain,
+    eventId: event.id,
+    ...(ancestors.length > 0 && { ancestors }),
   };
 
   return { event, capability };
@@ -297,6 +270,48 @@ export function parseDelegationEvent(
 // Helper Functions
 // ============================================================================
 
+/** All capability types */
+const CAPABILITY_TYPES: CapabilityType[] = ["read", "write", "publish", "delete", "delegate"];
+
+/**
+ * Create the qualifier tags of a grant or delegation
+ */
+function createQualifierTags(q: CapabilityQualifier): string[][] {
+  const tags: string[][] = [];
+
+  if (q.kinds && q.kinds.length > 0) {
+    tags.push([CAPABILITY_TAGS.KINDS, ...q.kinds.map(String)]);
+  }
+
+  if (q.requiredTags && q.requiredTags.length > 0) {
+    tags.push([
+      CAPABILITY_TAGS.REQUIRED_TAGS,
+      JSON.stringify(q.requiredTags),
+    ]);
+  }
+
+  if (q.excludedTags && q.excludedTags.length > 0) {
+    tags.push([
+      CAPABILITY_TAGS.EXCLUDED_TAGS,
+      JSON.stringify(q.excludedTags),
+    ]);
+  }
+
+  if (q.rateLimit) {
+    tags.push([
+      CAPABILITY_TAGS.RATE_LIMIT,
+      String(q.rateLimit.count),
+      String(q.rateLimit.periodSeconds),
+    ]);
+  }
+
+  if (q.delegatableTypes && q.delegatableTypes.length > 0) {
+    tags.push([CAPABILITY_TAGS.DELEGATABLE_TYPES, ...q.delegatableTypes]);
+  }
+
+  return tags;
+}
+
 /**
  * Get the first value for a tag
  */
@@ -355,6 +370,14 @@ function parseQualifiers(tags: string[][]): CapabilityQualifier {
     }
   }
 
+  // Parse delegatable types
+  const delegatableValues = getTagValues(tags, CAPABILITY_TAGS.DELEGATABLE_TYPES);
+  if (delegatableValues.length > 0) {
+    qualifiers.delegatableTypes = delegatableValues.filter((v): v is CapabilityType =>
+      CAPABILITY_TYPES.includes(v as CapabilityType)
+    );
+  }
+
   return qualifiers;
 }
 
@@ -21,6 +21,17 @@ export {
 export {
   validateCapabilityEvent,
   validateDelegatedCapability,
+  resolveDelegationChain,
   checkAuthorization,
   CapabilityStore,
 } from "./validation.js";
+
+// Publishing on behalf of a group
+export {
+  createPublishedEvent,
+  parsePublishReference,
+  checkPublishAuthorization,
+} from "./publish.js";
+
+// Rate limits
+export { RateLimiter, getRateLimitKey } from "./ratelimit.js";
@@ -0,0 +1,122 @@
+/**
+ * @nkg/cap - Publishing on behalf of a group
+ *
+ * Holders of a `publish` capability may publish content for the community
+ * under their own key. Such events carry an `on-behalf-of` tag naming the
+ * group pubkey and the capability event they rely on:
+ *
+ *   ["on-behalf-of", <group pubkey>, <capability event id>]
+ *
+ * Relays and clients accept the event as community content only if the
+ * author holds that capability and it covers the event's kind and tags.
+ */
+
+import { verifyEvent, type Event, type EventTemplate } from "nostr-tools";
+
+import { checkAuthorization } from "./validation.js";
+
+import type { RateLimiter } from "./ratelimit.js";
+
+import {
+  CAPABILITY_TAGS,
+  type AuthorizationResult,
+  type Capability,
+  type EventId,
+  type Pubkey,
+  type PublishReference,
+  type Timestamp,
+} from "./types.js";
+
+// ============================================================================
+// Event Creation and Parsing
+// ============================================================================
+
+/**
+ * Add an on-behalf-of reference to an event template
+ */
+export function createPublishedEvent<T extends EventTemplate>(
+  template: T,
+  groupPubkey: Pubkey,
+  capabilityEventId: EventId
+): T {
+  const tags = template.tags.filter((t) => t[0] !== CAPABILITY_TAGS.ON_BEHALF_OF);
+
+  return {
+    ...template,
+    tags: [...tags, [CAPABILITY_TAGS.ON_BEHALF_OF, groupPubkey, capabilityEventId]],
+  };
+}
+
+/**
+ * Parse the on-behalf-of reference of an event
+ */
+export function parsePublishReference(event: Event): PublishReference | null {
+  const tag = event.tags.find((t) => t[0] === CAPABILITY_TAGS.ON_BEHALF_OF);
+  if (!tag?.[1] || !tag[2]) {
+    return null;
+  }
+
+  return { groupPubkey: tag[1], capabilityEventId: tag[2] };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check that an event may be accepted as published on behalf of a group
+ *
+ * The capabilities must already be validated against the group, e.g. by
+ * a CapabilityStore or with validateCapabilityEvent. The referenced one
+ * must be a publish capability held by the author covering the event.
+ */
+export function checkPublishAuthorization(
+  event: Event,
+  capabilities: Capability[],
+  groupPubkey: Pubkey,
+  context: {
+    currentTime?: Timestamp;
+    rateLimiter?: RateLimiter;
+    consume?: boolean;
+    verifySignature?: (event: Event) => boolean;
+  } = {}
+): AuthorizationResult {
+  const verify = context.verifySignature ?? verifyEvent;
+  if (!verify(event)) {
+    return { authorized: false, error: "Invalid event signature" };
+  }
+
+  const reference = parsePublishReference(event);
+  if (!reference) {
+    return { authorized: false, error: "Missing on-behalf-of reference" };
+  }
+
+  if (reference.groupPubkey !== groupPubkey) {
+    return { authorized: false, error: "Published on behalf of another group" };
+  }
+
+  const capability = capabilities.find(
+    (c) => c.eventId === reference.capabilityEventId && c.issuer === groupPubkey
+  );
+  if (!capability) {
+    return { authorized: false, error: "Referenced capability not found" };
+  }
+
+  if (capability.holder !== event.pubkey) {
+    return { authorized: false, error: "Referenced capability not held by author" };
+  }
+
+  const result = checkAuthorization([capability], event.pubkey, "publish", {
+    eventKind: event.kind,
+    eventTags: event.tags,
+    ...(context.currentTime !== undefined && { currentTime: context.currentTime }),
+    ...(context.rateLimiter && { rateLimiter: context.rateLimiter }),
+    ...(context.consume !== undefined && { consume: context.consume }),
+  });
+
+  if (!result.authorized && !result.rateLimited) {
+    return { authorized: false, error: "Referenced capability does not cover this event" };
+  }
+
+  return result;
+}
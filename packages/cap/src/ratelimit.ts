@@ -0,0 +1,127 @@
+/**
+ * @nkg/cap - Rate limit accounting
+ *
+ * Enforces the `rate-limit` qualifier with a sliding window: the holder
+ * may use a capability `count` times in any `periodSeconds` window. Uses
+ * are counted per capability (event ID and holder), so two grants with
+ * the same limit are counted separately. A use of a delegation also
+ * counts against the limit of every capability up its chain, each kept
+ * in its own history and windowed by its own period. Usage lives in a
+ * RateLimitStore, which can be persistent so that limits survive a
+ * relay restart.
+ */
+
+import type {
+  Capability,
+  CapabilityQualifier,
+  RateLimitResult,
+  RateLimitStore,
+  Timestamp,
+} from "./types.js";
+
+type RateLimit = NonNullable<CapabilityQualifier["rateLimit"]>;
+
+// ============================================================================
+// Rate Limiter
+// ============================================================================
+
+/**
+ * Sliding window rate limiter for capabilities
+ */
+export class RateLimiter {
+  private store: RateLimitStore;
+
+  constructor(store: RateLimitStore = new Map<string, Timestamp[]>()) {
+    this.store = store;
+  }
+
+  /**
+   * Check whether a capability may be used, without recording a use
+   *
+   * The capability's own limit and the limits of its ancestors must all
+   * allow the use; the strictest one decides the result.
+   */
+  check(
+    capability: Capability,
+    currentTime: Timestamp = Math.floor(Date.now() / 1000)
+  ): RateLimitResult {
+    let result: RateLimitResult = { allowed: true, remaining: Infinity };
+
+    for (const { key, limit } of getRateLimits(capability)) {
+      const uses = this.getUses(key, limit.periodSeconds, currentTime);
+
+      if (uses.length < limit.count) {
+        if (result.allowed) {
+          const remaining = Math.min(result.remaining, limit.count - uses.length);
+          result = { allowed: true, remaining };
+        }
+        continue;
+      }
+
+      // The oldest use in the window has to fall out of it first
+      const oldest = uses[uses.length - limit.count]!;
+      const retryAfter = Math.max(1, oldest + limit.periodSeconds - currentTime);
+      result = {
+        allowed: false,
+        remaining: 0,
+        retryAfter: Math.max(retryAfter, result.retryAfter ?? 0),
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a use of a capability if its rate limits allow it
+   */
+  consume(
+    capability: Capability,
+    currentTime: Timestamp = Math.floor(Date.now() / 1000)
+  ): RateLimitResult {
+    const result = this.check(capability, currentTime);
+    if (!result.allowed) {
+      return result;
+    }
+
+    for (const { key, limit } of getRateLimits(capability)) {
+      this.store.set(key, [...this.getUses(key, limit.periodSeconds, currentTime), currentTime]);
+    }
+
+    return { allowed: true, remaining: result.remaining - 1 };
+  }
+
+  /**
+   * Get the uses recorded under a key inside the window of its capability
+   */
+  private getUses(key: string, periodSeconds: number, currentTime: Timestamp): Timestamp[] {
+    const uses = this.store.get(key) ?? [];
+    return uses.filter((t) => t > currentTime - periodSeconds);
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the key usage of a capability is counted under: its event ID and holder
+ */
+export function getRateLimitKey(capability: Capability): string {
+  return capability.eventId !== undefined
+    ? `${capability.eventId}:${capability.holder}`
+    : `${capability.issuer}:${capability.type}:${capability.issuedAt}:${capability.holder}`;
+}
+
+/**
+ * Get the rate limits a use of a capability counts against, with their keys
+ */
+function getRateLimits(capability: Capability): { key: string; limit: RateLimit }[] {
+  const limits = (capability.ancestors ?? []).flatMap((ancestor) =>
+    ancestor.rateLimit
+      ? [{ key: `${ancestor.eventId}:${ancestor.holder}`, limit: ancestor.rateLimit }]
+      : []
+  );
+  const own = capability.qualifiers?.rateLimit;
+
+  return own ? [...limits, { key: getRateLimitKey(capability), limit: own }] : limits;
+}
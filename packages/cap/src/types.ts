@@ -45,6 +45,8 @@ export interface CapabilityQualifier {
     count: number;
     periodSeconds: number;
   };
+  /** Capability types a `delegate` capability may hand out (all if omitted) */
+  delegatableTypes?: CapabilityType[];
 }
 
 /** A capability granted to a pubkey */
@@ -63,6 +65,20 @@ export interface Capability {
   expiresAt?: Timestamp;
   /** If this is a delegated capability, the chain of delegation */
   delegationChain?: DelegationLink[];
+  /** The grant or delegation event this capability was parsed from */
+  eventId?: EventId;
+  /** The grant and delegations a delegated capability descends from, grant first */
+  ancestors?: CapabilityAncestor[];
+}
+
+/** A capability another one was delegated from, as far as rate limits need it */
+export interface CapabilityAncestor {
+  /** The grant or delegation event ID */
+  eventId: EventId;
+  /** The pubkey that held it */
+  holder: Pubkey;
+  /** Its rate limit, which uses of every delegation below it count against */
+  rateLimit?: CapabilityQualifier["rateLimit"];
 }
 
 /** A link in a delegation chain */
@@ -103,12 +119,16 @@ export const CAPABILITY_TAGS = {
   EXCLUDED_TAGS: "excluded-tags",
   /** Rate limit qualifier tag */
   RATE_LIMIT: "rate-limit",
+  /** Delegatable capability types qualifier tag */
+  DELEGATABLE_TYPES: "delegatable-types",
   /** Expiration tag */
   EXPIRATION: "expiration",
   /** Reference to original capability (for revocation/delegation) */
   REFERENCE: "e",
   /** Group identifier tag */
   GROUP: "h",
+  /** Group pubkey and capability event ID a published event relies on */
+  ON_BEHALF_OF: "on-behalf-of",
 } as const;
 
 /** Parsed capability from a nostr event */
@@ -131,6 +151,14 @@ export interface RevocationEvent {
   revokedAt: Timestamp;
 }
 
+/** Reference from an event published on behalf of a group */
+export interface PublishReference {
+  /** The group the event is published for */
+  groupPubkey: Pubkey;
+  /** The publish capability the author relies on */
+  capabilityEventId: EventId;
+}
+
 // ============================================================================
 // Validation Types
 // ============================================================================
@@ -153,6 +181,57 @@ export interface ValidationContext {
   revokedEventIds: Set<EventId>;
   /** Function to verify event signatures */
   verifySignature?: (event: Event) => boolean;
+  /** Maximum number of delegations between a grant and its final holder */
+  maxDelegationDepth?: number;
+}
+
+/** Default maximum number of delegations in a capability chain */
+export const DEFAULT_MAX_DELEGATION_DEPTH = 4;
+
+/** Looks up a capability event by ID, from a store or a relay */
+export type CapabilityEventFetcher = (
+  eventId: EventId
+) => Event | undefined | Promise<Event | undefined>;
+
+/** Result of an authorization check */
+export interface AuthorizationResult {
+  /** Whether the action is authorized */
+  authorized: boolean;
+  /** The capability that authorized it */
+  capability?: Capability;
+  /** Error message if not authorized */
+  error?: string;
+  /** Whether a matching capability was only refused for its rate limit */
+  rateLimited?: boolean;
+  /** Seconds until the rate limited capability can be used again */
+  retryAfter?: number;
+}
+
+// ============================================================================
+// Rate Limit Types
+// ============================================================================
+
+/**
+ * Persistent storage for rate limit usage, keyed by capability event ID
+ * and holder. A Map works as an in-memory store.
+ */
+export interface RateLimitStore {
+  /** Get the recorded use times */
+  get(key: string): Timestamp[] | undefined;
+  /** Replace the recorded use times */
+  set(key: string, timestamps: Timestamp[]): unknown;
+  /** Write pending changes to persistent storage, if the store batches them */
+  flush?(): unknown;
+}
+
+/** Result of a rate limit check */
+export interface RateLimitResult {
+  /** Whether the capability may be used now */
+  allowed: boolean;
+  /** Uses left in the current window */
+  remaining: number;
+  /** Seconds until the next use is allowed, when not allowed */
+  retryAfter?: number;
 }
 
 // ============================================================================
@@ -14,10 +14,16 @@ import {
   eventHasExcludedTags,
 } from "./capability.js";
 
+import type { RateLimiter } from "./ratelimit.js";
+
 import {
   CAPABILITY_EVENT_KINDS,
+  CAPABILITY_TAGS,
+  DEFAULT_MAX_DELEGATION_DEPTH,
+  type AuthorizationResult,
   type Capability,
   type CapabilityEvent,
+  type CapabilityEventFetcher,
   type CapabilityFilter,
   type CapabilityType,
   type EventId,
@@ -102,11 +108,22 @@ export function validateDelegatedCapability(
     };
   }
 
-  // Check that original capability allows delegation
-  if (originalResult.capability.type !== "delegate") {
+  return validateDelegationHop(delegationEvent, originalResult.capability, context);
+}
+
+/**
+ * Validate a delegation event against the capability it delegates from
+ */
+function validateDelegationHop(
+  delegationEvent: Event,
+  parent: Capability,
+  context: ValidationContext
+): ValidationResult {
+  // Check that the parent capability allows delegation
+  if (parent.type !== "delegate") {
     return {
       valid: false,
-      error: "Original capability does not allow delegation",
+      error: "Parent capability does not allow delegation",
     };
   }
 
@@ -121,8 +138,8 @@ export function validateDelegatedCapability(
     }
   }
 
-  // Check that delegator is the holder of original capability
-  if (delegationEvent.pubkey !== originalResult.capability.holder) {
+  // Check that delegator is the holder of the parent capability
+  if (delegationEvent.pubkey !== parent.holder) {
     return {
       valid: false,
       error: "Delegation not signed by capability holder",
@@ -135,10 +152,7 @@ export function validateDelegatedCapability(
   }
 
   // Parse the delegation
-  const delegatedCap = parseDelegationEvent(
-    delegationEvent,
-    originalResult.capability
-  );
+  const delegatedCap = parseDelegationEvent(delegationEvent, parent);
 
   if (!delegatedCap) {
     return { valid: false, error: "Failed to parse delegation event" };
@@ -149,11 +163,8 @@ export function validateDelegatedCapability(
     return { valid: false, error: "Delegated capability has expired" };
   }
 
-  // Validate that delegated qualifiers are a subset of original
-  const subsetResult = validateQualifiersSubset(
-    originalResult.capability,
-    delegatedCap.capability
-  );
+  // Validate that delegated qualifiers are a subset of the parent's
+  const subsetResult = validateQualifiersSubset(parent, delegatedCap.capability);
 
   if (!subsetResult.valid) {
     return subsetResult;
@@ -163,7 +174,11 @@ export function validateDelegatedCapability(
 }
 
 /**
- * Validate that delegated qualifiers are a subset of original
+ * Validate that a delegated capability is no broader than the original
+ *
+ * A delegate may only narrow what it was given: fewer kinds, more
+ * required and excluded tags, a stricter rate limit, an earlier expiry,
+ * and only the types the original lets it hand out.
  */
 function validateQualifiersSubset(
   original: Capability,
@@ -172,6 +187,33 @@ function validateQualifiersSubset(
   const origQ = original.qualifiers;
   const delQ = delegated.qualifiers;
 
+  // The delegated type must be one the original may hand out
+  if (origQ?.delegatableTypes && !origQ.delegatableTypes.includes(delegated.type)) {
+    return {
+      valid: false,
+      error: `Delegated type ${delegated.type} not allowed by original capability`,
+    };
+  }
+
+  // A delegated delegate capability may only hand out a subset of types
+  if (delegated.type === "delegate" && origQ?.delegatableTypes) {
+    if (!delQ?.delegatableTypes) {
+      return {
+        valid: false,
+        error: "Delegated capability must specify delegatable types subset",
+      };
+    }
+
+    for (const type of delQ.delegatableTypes) {
+      if (!origQ.delegatableTypes.includes(type)) {
+        return {
+          valid: false,
+          error: `Delegatable type ${type} not allowed by original capability`,
+        };
+      }
+    }
+  }
+
   // If original has kind restrictions, delegated must be subset
   if (origQ?.kinds && delQ?.kinds) {
     for (const kind of delQ.kinds) {
@@ -190,6 +232,45 @@ function validateQualifiersSubset(
     };
   }
 
+  // Delegated capability must keep every required and excluded tag
+  for (const [name, value] of origQ?.requiredTags ?? []) {
+    if (!delQ?.requiredTags?.some(([n, v]) => n === name && v === value)) {
+      return {
+        valid: false,
+        error: `Delegated capability must keep required tag ${name}=${value}`,
+      };
+    }
+  }
+
+  for (const [name, value] of origQ?.excludedTags ?? []) {
+    if (!delQ?.excludedTags?.some(([n, v]) => n === name && v === value)) {
+      return {
+        valid: false,
+        error: `Delegated capability must keep excluded tag ${name}=${value}`,
+      };
+    }
+  }
+
+  // Delegated rate limit must be at least as strict as the original
+  if (origQ?.rateLimit) {
+    if (!delQ?.rateLimit) {
+      return {
+        valid: false,
+        error: "Delegated capability must have a rate limit",
+      };
+    }
+
+    if (
+      delQ.rateLimit.count > origQ.rateLimit.count ||
+      delQ.rateLimit.periodSeconds < origQ.rateLimit.periodSeconds
+    ) {
+      return {
+        valid: false,
+        error: "Delegated rate limit exceeds original",
+      };
+    }
+  }
+
   // Delegated expiration must be <= original expiration
   if (original.expiresAt && delegated.expiresAt) {
     if (delegated.expiresAt > original.expiresAt) {
@@ -208,12 +289,96 @@ function validateQualifiersSubset(
   return { valid: true };
 }
 
+// ============================================================================
+// Delegation Chains
+// ============================================================================
+
+/**
+ * Resolve and validate a delegation chain ending in the given event
+ *
+ * Follows the `e` reference of each delegation up to the group's grant,
+ * fetching parents with `fetchEvent`, then validates every hop from the
+ * grant down: signatures, that each delegator holds the capability it
+ * delegates, narrowing, expiry and revocation. Chains longer than
+ * `context.maxDelegationDepth` delegations are rejected before any
+ * further parents are fetched.
+ */
+export async function resolveDelegationChain(
+  leafEvent: Event,
+  expectedGroupPubkey: Pubkey,
+  fetchEvent: CapabilityEventFetcher,
+  context: ValidationContext
+): Promise<ValidationResult> {
+  const maxDepth = context.maxDelegationDepth ?? DEFAULT_MAX_DELEGATION_DEPTH;
+
+  // Walk up to the grant, leaf first
+  const chain: Event[] = [leafEvent];
+  let current = leafEvent;
+
+  while (current.kind === CAPABILITY_EVENT_KINDS.DELEGATE) {
+    if (chain.length > maxDepth) {
+      return {
+        valid: false,
+        error: `Delegation chain exceeds maximum depth of ${maxDepth}`,
+      };
+    }
+
+    const parentId = current.tags.find((t) => t[0] === CAPABILITY_TAGS.REFERENCE)?.[1];
+    if (!parentId) {
+      return { valid: false, error: "Delegation does not reference a parent capability" };
+    }
+    if (chain.some((e) => e.id === parentId)) {
+      return { valid: false, error: "Delegation chain contains a cycle" };
+    }
+
+    const parent = await fetchEvent(parentId);
+    if (!parent || parent.id !== parentId) {
+      return { valid: false, error: `Parent capability not found: ${parentId}` };
+    }
+
+    chain.push(parent);
+    current = parent;
+  }
+
+  // Validate from the grant down to the leaf
+  const [grant, ...delegations] = chain.reverse();
+
+  const grantResult = validateCapabilityEvent(grant!, expectedGroupPubkey, context);
+  if (!grantResult.valid || !grantResult.capability) {
+    return {
+      valid: false,
+      error: `Original capability invalid: ${grantResult.error}`,
+    };
+  }
+
+  let capability = grantResult.capability;
+
+  for (const [i, delegation] of delegations.entries()) {
+    const hopResult = validateDelegationHop(delegation, capability, context);
+    if (!hopResult.valid || !hopResult.capability) {
+      return {
+        valid: false,
+        error: `Delegation ${i + 1} of ${delegations.length} invalid: ${hopResult.error}`,
+      };
+    }
+
+    capability = hopResult.capability;
+  }
+
+  return { valid: true, capability };
+}
+
 // ============================================================================
 // Authorization Checks
 // ============================================================================
 
 /**
  * Check if a pubkey is authorized to perform an action
+ *
+ * With a rate limiter, capabilities whose rate limit is used up are
+ * skipped, and a use of the authorizing capability is recorded. Pass
+ * `consume: false` to record it later with `rateLimiter.consume`, once
+ * the action has actually been accepted.
  */
 export function checkAuthorization(
   capabilities: Capability[],
@@ -223,9 +388,12 @@ export function checkAuthorization(
     eventKind?: number;
     eventTags?: string[][];
     currentTime?: Timestamp;
+    rateLimiter?: RateLimiter;
+    consume?: boolean;
   } = {}
-): { authorized: boolean; capability?: Capability; error?: string } {
+): AuthorizationResult {
   const currentTime = context.currentTime ?? Math.floor(Date.now() / 1000);
+  let retryAfter: number | undefined;
 
   // Find a matching capability
   for (const cap of capabilities) {
@@ -258,10 +426,26 @@ export function checkAuthorization(
       }
     }
 
+    // Check rate limit
+    if (context.rateLimiter) {
+      const rateLimit =
+        context.consume === false
+          ? context.rateLimiter.check(cap, currentTime)
+          : context.rateLimiter.consume(cap, currentTime);
+      if (!rateLimit.allowed) {
+        retryAfter = Math.min(retryAfter ?? Infinity, rateLimit.retryAfter!);
+        continue;
+      }
+    }
+
     // Found a valid capability
     return { authorized: true, capability: cap };
   }
 
+  if (retryAfter !== undefined) {
+    return { authorized: false, error: "Rate limit exceeded", rateLimited: true, retryAfter };
+  }
+
   return { authorized: false, error: "No valid capability found" };
 }
 
@@ -271,12 +455,16 @@ export function checkAuthorization(
 
 /**
  * Simple in-memory capability store for managing capabilities
+ *
+ * Holds grants and the delegations made from them. Revoking a capability
+ * also drops every delegation descending from it.
  */
 export class CapabilityStore {
   private capabilities: Map<EventId, CapabilityEvent> = new Map();
   private revokedIds: Set<EventId> = new Set();
   private byHolder: Map<Pubkey, Set<EventId>> = new Map();
   private byIssuer: Map<Pubkey, Set<EventId>> = new Map();
+  private byParent: Map<EventId, Set<EventId>> = new Map();
 
   /**
    * Add a capability event to the store
@@ -293,25 +481,56 @@ export class CapabilityStore {
       return result;
     }
 
-    const capEvent: CapabilityEvent = {
-      event,
-      capability: result.capability,
-    };
+    this.index({ event, capability: result.capability });
 
-    // Store by event ID
-    this.capabilities.set(event.id, capEvent);
+    return result;
+  }
 
-    // Index by holder
-    if (!this.byHolder.has(result.capability.holder)) {
-      this.byHolder.set(result.capability.holder, new Set());
+  /**
+   * Add a delegation event to the store
+   *
+   * The parent capability must already be stored, so a delegation is
+   * only accepted once the chain above it has been.
+   */
+  addDelegation(event: Event, groupPubkey: Pubkey): ValidationResult {
+    if (event.kind !== CAPABILITY_EVENT_KINDS.DELEGATE) {
+      return { valid: false, error: "Invalid event kind" };
     }
-    this.byHolder.get(result.capability.holder)!.add(event.id);
 
-    // Index by issuer
-    if (!this.byIssuer.has(result.capability.issuer)) {
-      this.byIssuer.set(result.capability.issuer, new Set());
+    const parentId = event.tags.find((t) => t[0] === CAPABILITY_TAGS.REFERENCE)?.[1];
+    if (!parentId) {
+      return { valid: false, error: "Delegation does not reference a parent capability" };
+    }
+
+    const parent = this.capabilities.get(parentId);
+    if (!parent || parent.capability.issuer !== groupPubkey) {
+      return { valid: false, error: `Parent capability not found: ${parentId}` };
     }
-    this.byIssuer.get(result.capability.issuer)!.add(event.id);
+
+    const depth = (parent.capability.delegationChain?.length ?? 0) + 1;
+    if (depth > DEFAULT_MAX_DELEGATION_DEPTH) {
+      return {
+        valid: false,
+        error: `Delegation chain exceeds maximum depth of ${DEFAULT_MAX_DELEGATION_DEPTH}`,
+      };
+    }
+
+    const result = validateDelegationHop(event, parent.capability, {
+      currentTime: Math.floor(Date.now() / 1000),
+      revokedEventIds: this.revokedIds,
+    });
+
+    if (!result.valid || !result.capability) {
+      return result;
+    }
+
+    this.index({ event, capability: result.capability });
+
+    // Index by parent, to cascade revocations
+    if (!this.byParent.has(parentId)) {
+      this.byParent.set(parentId, new Set());
+    }
+    this.byParent.get(parentId)!.add(event.id);
 
     return result;
   }
@@ -334,26 +553,37 @@ export class CapabilityStore {
       return false;
     }
 
-    this.revokedIds.add(revocation.revokedEventId);
+    // Revoke the capability and every delegation made from it
+    const pending = [revocation.revokedEventId];
+    while (pending.length > 0) {
+      const eventId = pending.pop()!;
+      this.revokedIds.add(eventId);
+      pending.push(...(this.byParent.get(eventId) ?? []));
+      this.byParent.delete(eventId);
+
+      // Remove from capability store
+      const capEvent = this.capabilities.get(eventId);
+      if (capEvent) {
+        this.capabilities.delete(eventId);
 
-    // Remove from capability store
-    const capEvent = this.capabilities.get(revocation.revokedEventId);
-    if (capEvent) {
-      this.capabilities.delete(revocation.revokedEventId);
-      
-      // Remove from indexes
-      const holderSet = this.byHolder.get(capEvent.capability.holder);
-      holderSet?.delete(revocation.revokedEventId);
-      
-      const issuerSet = this.byIssuer.get(capEvent.capability.issuer);
-      issuerSet?.delete(revocation.revokedEventId);
+        // Remove from indexes
+        this.byHolder.get(capEvent.capability.holder)?.delete(eventId);
+        this.byIssuer.get(capEvent.capability.issuer)?.delete(eventId);
+      }
     }
 
     return true;
   }
 
   /**
-   * Get all capabilities for a holder
+   * Get a stored capability event by ID, e.g. to resolve delegation chains
+   */
+  getEvent(eventId: EventId): Event | undefined {
+    return this.capabilities.get(eventId)?.event;
+  }
+
+  /**
+   * Get all capabilities for a holder, including delegated ones
    */
   getCapabilitiesForHolder(holder: Pubkey): Capability[] {
     const eventIds = this.byHolder.get(holder);
@@ -405,8 +635,9 @@ export class CapabilityStore {
     context?: {
       eventKind?: number;
       eventTags?: string[][];
+      rateLimiter?: RateLimiter;
     }
-  ): { authorized: boolean; capability?: Capability; error?: string } {
+  ): AuthorizationResult {
     const capabilities = this.getCapabilitiesForHolder(pubkey);
     return checkAuthorization(capabilities, pubkey, action, context);
   }
@@ -433,5 +664,28 @@ export class CapabilityStore {
     this.revokedIds.clear();
     this.byHolder.clear();
     this.byIssuer.clear();
+    this.byParent.clear();
+  }
+
+  /**
+   * Store a validated capability and index it by holder and issuer
+   */
+  private index(capEvent: CapabilityEvent): void {
+    const { event, capability } = capEvent;
+
+    // Store by event ID
+    this.capabilities.set(event.id, capEvent);
+
+    // Index by holder
+    if (!this.byHolder.has(capability.holder)) {
+      this.byHolder.set(capability.holder, new Set());
+    }
+    this.byHolder.get(capability.holder)!.add(event.id);
+
+    // Index by issuer
+    if (!this.byIssuer.has(capability.issuer)) {
+      this.byIssuer.set(capability.issuer, new Set());
+    }
+    this.byIssuer.get(capability.issuer)!.add(event.id);
   }
 }
@@ -4,14 +4,20 @@ import { bytesToHex } from "@noble/hashes/utils";
 import {
   createCapabilityGrantEvent,
   createCapabilityRevocationEvent,
+  createCapabilityDelegationEvent,
   parseCapabilityGrantEvent,
   parseRevocationEvent,
+  parseDelegationEvent,
   validateCapabilityEvent,
+  validateDelegatedCapability,
+  resolveDelegationChain,
   checkAuthorization,
   isCapabilityExpired,
   CapabilityStore,
   CAPABILITY_EVENT_KINDS,
   type Capability,
+  type CapabilityQualifier,
+  type CapabilityType,
   type ValidationContext,
 } from "../src/index.js";
 
@@ -346,5 +352,312 @@ describe("Capability System", () => {
       const result3 = store.checkAuthorization(userPubkey, "delete");
       expect(result3.authorized).toBe(false);
     });
+
+    it("should store delegations and cascade revocations to them", () => {
+      const [aliceKey, bobKey, carolKey] = Array.from({ length: 3 }, () => generateSecretKey());
+      const [alice, bob, carol] = [aliceKey, bobKey, carolKey].map((k) => getPublicKey(k!));
+
+      const grantEvent = finalizeEvent(
+        createCapabilityGrantEvent(alice!, "delegate", groupPubkey, {
+          qualifiers: { kinds: [9, 10] },
+        }),
+        groupSecretKey
+      );
+      const delegate = (parentId: string, from: Uint8Array, to: string, type: CapabilityType) =>
+        finalizeEvent(
+          createCapabilityDelegationEvent(parentId, to, getPublicKey(from), type, {
+            qualifiers: { kinds: [9] },
+          }),
+          from
+        );
+
+      const toBob = delegate(grantEvent.id, aliceKey!, bob!, "delegate");
+      const toCarol = delegate(toBob.id, bobKey!, carol!, "write");
+
+      // Delegations are only accepted once their parent is stored
+      expect(store.addDelegation(toBob, groupPubkey).error).toBe(
+        `Parent capability not found: ${grantEvent.id}`
+      );
+      store.addCapability(grantEvent, groupPubkey);
+      expect(store.addDelegation(toBob, groupPubkey).valid).toBe(true);
+      expect(store.addDelegation(toCarol, groupPubkey).valid).toBe(true);
+
+      // Bob cannot delegate from a capability he does not hold
+      const forged = delegate(grantEvent.id, bobKey!, carol!, "write");
+      expect(store.addDelegation(forged, groupPubkey).error).toBe(
+        "Delegation not signed by capability holder"
+      );
+
+      expect(store.getCapabilitiesForHolder(carol!)).toMatchObject([
+        { type: "write", holder: carol, issuer: groupPubkey, eventId: toCarol.id },
+      ]);
+      expect(store.checkAuthorization(carol!, "write", { eventKind: 9 }).authorized).toBe(true);
+      expect(store.getCapabilitiesForIssuer(groupPubkey)).toHaveLength(3);
+
+      // Revoking the grant revokes everything delegated from it
+      store.addRevocation(
+        finalizeEvent(createCapabilityRevocationEvent(grantEvent.id, groupPubkey), groupSecretKey),
+        groupPubkey
+      );
+      expect(store.isRevoked(toCarol.id)).toBe(true);
+      expect(store.getCapabilitiesForHolder(bob!)).toEqual([]);
+      expect(store.getCapabilitiesForHolder(carol!)).toEqual([]);
+      expect(store.addDelegation(toCarol, groupPubkey).valid).toBe(false);
+    });
+  });
+
+  describe("resolveDelegationChain", () => {
+    const context = (): ValidationContext => ({
+      currentTime: Math.floor(Date.now() / 1000),
+      revokedEventIds: new Set(),
+    });
+
+    /**
+     * Grant a delegate capability to the first key, then have each key
+     * delegate to the next. Returns the events, grant first.
+     */
+    function buildChain(
+      keys: Uint8Array[],
+      hops: { type: CapabilityType; qualifiers?: CapabilityQualifier }[]
+    ) {
+      const events = [
+        finalizeEvent(
+          createCapabilityGrantEvent(getPublicKey(keys[0]!), "delegate", groupPubkey, {
+            qualifiers: { kinds: [9, 10, 11] },
+          }),
+          groupSecretKey
+        ),
+      ];
+
+      hops.forEach(({ type, qualifiers }, i) => {
+        const delegation = createCapabilityDelegationEvent(
+          events[i]!.id,
+          getPublicKey(keys[i + 1]!),
+          getPublicKey(keys[i]!),
+          type,
+          qualifiers ? { qualifiers } : undefined
+        );
+        events.push(finalizeEvent(delegation, keys[i]!));
+      });
+
+      const byId = new Map(events.map((e) => [e.id, e]));
+      return { events, fetchEvent: async (id: string) => byId.get(id) };
+    }
+
+    it("should validate every hop of a multi-hop chain", async () => {
+      const keys = Array.from({ length: 4 }, () => generateSecretKey());
+      const { events, fetchEvent } = buildChain(keys, [
+        { type: "delegate", qualifiers: { kinds: [9, 10] } },
+        { type: "delegate", qualifiers: { kinds: [9, 10] } },
+        { type: "write", qualifiers: { kinds: [9] } },
+      ]);
+
+      const result = await resolveDelegationChain(events[3]!, groupPubkey, fetchEvent, context());
+
+      expect(result.valid).toBe(true);
+      expect(result.capability).toMatchObject({
+        type: "write",
+        holder: getPublicKey(keys[3]!),
+        issuer: groupPubkey,
+        qualifiers: { kinds: [9] },
+      });
+      expect(result.capability!.delegationChain!.map((l) => l.eventId)).toEqual(
+        events.slice(1).map((e) => e.id)
+      );
+      expect(result.capability!.ancestors!.map((a) => a.eventId)).toEqual(
+        events.slice(0, 3).map((e) => e.id)
+      );
+
+      // The grant can also come from a capability store
+      const store = new CapabilityStore();
+      store.addCapability(events[0]!, groupPubkey);
+      const fromStore = await resolveDelegationChain(
+        events[1]!,
+        groupPubkey,
+        (id) => store.getEvent(id),
+        context()
+      );
+      expect(fromStore.valid).toBe(true);
+    });
+
+    it("should reject a chain with an invalid hop", async () => {
+      const keys = Array.from({ length: 4 }, () => generateSecretKey());
+
+      // The second delegate widens the kinds it was given
+      const widened = buildChain(keys, [
+        { type: "delegate", qualifiers: { kinds: [9] } },
+        { type: "write", qualifiers: { kinds: [9, 10] } },
+      ]);
+      expect(
+        await resolveDelegationChain(widened.events[2]!, groupPubkey, widened.fetchEvent, context())
+      ).toEqual({
+        valid: false,
+        error: "Delegation 2 of 2 invalid: Delegated kind 10 not in original capability",
+      });
+
+      // A holder of a write capability cannot delegate it
+      const notDelegate = buildChain(keys, [
+        { type: "write", qualifiers: { kinds: [9] } },
+        { type: "write", qualifiers: { kinds: [9] } },
+      ]);
+      expect(
+        (await resolveDelegationChain(
+          notDelegate.events[2]!,
+          groupPubkey,
+          notDelegate.fetchEvent,
+          context()
+        )).error
+      ).toBe("Delegation 2 of 2 invalid: Parent capability does not allow delegation");
+
+      // Revoking a link in the middle invalidates everything below it
+      const chain = buildChain(keys, [
+        { type: "delegate", qualifiers: { kinds: [9] } },
+        { type: "delegate", qualifiers: { kinds: [9] } },
+        { type: "write", qualifiers: { kinds: [9] } },
+      ]);
+      const revoked = { ...context(), revokedEventIds: new Set([chain.events[2]!.id]) };
+      expect(
+        (await resolveDelegationChain(chain.events[3]!, groupPubkey, chain.fetchEvent, revoked))
+          .error
+      ).toBe("Delegation 2 of 3 invalid: Delegation has been revoked");
+
+      // A missing parent cannot be resolved
+      expect(
+        (await resolveDelegationChain(chain.events[3]!, groupPubkey, async () => undefined, context()))
+          .error
+      ).toBe(`Parent capability not found: ${chain.events[2]!.id}`);
+    });
+
+    it("should enforce the maximum chain depth", async () => {
+      const keys = Array.from({ length: 4 }, () => generateSecretKey());
+      const hops = Array.from({ length: 3 }, () => ({
+        type: "delegate" as const,
+        qualifiers: { kinds: [9] },
+      }));
+      const { events, fetchEvent } = buildChain(keys, hops);
+
+      const fetched: string[] = [];
+      const tracked = (id: string) => {
+        fetched.push(id);
+        return fetchEvent(id);
+      };
+
+      const result = await resolveDelegationChain(events[3]!, groupPubkey, tracked, {
+        ...context(),
+        maxDelegationDepth: 2,
+      });
+
+      expect(result).toEqual({
+        valid: false,
+        error: "Delegation chain exceeds maximum depth of 2",
+      });
+      expect(fetched).toHaveLength(2);
+
+      expect(
+        (await resolveDelegationChain(events[3]!, groupPubkey, fetchEvent, {
+          ...context(),
+          maxDelegationDepth: 3,
+        })).valid
+      ).toBe(true);
+    });
+  });
+
+  describe("Delegation attenuation", () => {
+    const delegateKey = generateSecretKey();
+    const delegatePubkey = getPublicKey(delegateKey);
+
+    const context = (): ValidationContext => ({
+      currentTime: Math.floor(Date.now() / 1000),
+      revokedEventIds: new Set(),
+    });
+
+    const grant = () =>
+      finalizeEvent(
+        createCapabilityGrantEvent(delegatePubkey, "delegate", groupPubkey, {
+          qualifiers: {
+            kinds: [9, 10],
+            requiredTags: [["t", "general"]],
+            excludedTags: [["t", "nsfw"]],
+            rateLimit: { count: 10, periodSeconds: 60 },
+            delegatableTypes: ["read", "write", "delegate"],
+          },
+        }),
+        groupSecretKey
+      );
+
+    const delegate = (original: string, type: CapabilityType, qualifiers: CapabilityQualifier) =>
+      finalizeEvent(
+        createCapabilityDelegationEvent(original, userPubkey, delegatePubkey, type, { qualifiers }),
+        delegateKey
+      );
+
+    const narrowed: CapabilityQualifier = {
+      kinds: [9],
+      requiredTags: [["t", "general"], ["t", "intro"]],
+      excludedTags: [["t", "nsfw"], ["t", "spam"]],
+      rateLimit: { count: 5, periodSeconds: 60 },
+    };
+
+    it("should round-trip the types a delegate may hand out", () => {
+      const original = grant();
+      expect(original.tags).toContainEqual(["delegatable-types", "read", "write", "delegate"]);
+
+      const parsed = parseCapabilityGrantEvent(original)!;
+      expect(parsed.capability.qualifiers!.delegatableTypes).toEqual(["read", "write", "delegate"]);
+
+      const delegation = delegate(original.id, "delegate", { ...narrowed, delegatableTypes: ["read"] });
+      expect(parseDelegationEvent(delegation, parsed.capability)!.capability.qualifiers).toEqual({
+        ...narrowed,
+        delegatableTypes: ["read"],
+      });
+    });
+
+    it("should only accept delegations that narrow every qualifier", () => {
+      const original = grant();
+      const validate = (type: CapabilityType, qualifiers: CapabilityQualifier) =>
+        validateDelegatedCapability(delegate(original.id, type, qualifiers), original, groupPubkey, context());
+
+      expect(validate("write", narrowed).valid).toBe(true);
+      expect(validate("delegate", { ...narrowed, delegatableTypes: ["write"] }).valid).toBe(true);
+
+      const cases: [CapabilityType, CapabilityQualifier, string][] = [
+        ["delete", narrowed, "Delegated type delete not allowed by original capability"],
+        ["delegate", narrowed, "Delegated capability must specify delegatable types subset"],
+        [
+          "delegate",
+          { ...narrowed, delegatableTypes: ["write", "delete"] },
+          "Delegatable type delete not allowed by original capability",
+        ],
+        [
+          "write",
+          { ...narrowed, requiredTags: [["t", "intro"]] },
+          "Delegated capability must keep required tag t=general",
+        ],
+        [
+          "write",
+          { ...narrowed, excludedTags: [] },
+          "Delegated capability must keep excluded tag t=nsfw",
+        ],
+        [
+          "write",
+          { kinds: [9], requiredTags: narrowed.requiredTags!, excludedTags: narrowed.excludedTags! },
+          "Delegated capability must have a rate limit",
+        ],
+        [
+          "write",
+          { ...narrowed, rateLimit: { count: 20, periodSeconds: 60 } },
+          "Delegated rate limit exceeds original",
+        ],
+        [
+          "write",
+          { ...narrowed, rateLimit: { count: 10, periodSeconds: 30 } },
+          "Delegated rate limit exceeds original",
+        ],
+      ];
+
+      for (const [type, qualifiers, error] of cases) {
+        expect(validate(type, qualifiers)).toEqual({ valid: false, error });
+      }
+    });
   });
 });
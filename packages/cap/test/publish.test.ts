@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
+import {
+  createCapabilityGrantEvent,
+  createPublishedEvent,
+  checkPublishAuthorization,
+  parsePublishReference,
+  validateCapabilityEvent,
+  type Capability,
+} from "../src/index.js";
+
+const groupKey = generateSecretKey();
+const groupPubkey = getPublicKey(groupKey);
+const authorKey = generateSecretKey();
+const author = getPublicKey(authorKey);
+
+function grantPublish(holder: string, kinds?: number[]): Capability {
+  const event = finalizeEvent(
+    createCapabilityGrantEvent(holder, "publish", groupPubkey, kinds && { qualifiers: { kinds } }),
+    groupKey
+  );
+  const result = validateCapabilityEvent(event, groupPubkey, {
+    currentTime: Math.floor(Date.now() / 1000),
+    revokedEventIds: new Set(),
+  });
+
+  return result.capability!;
+}
+
+function publish(capability: Capability, kind = 1, publishFor = groupPubkey) {
+  return finalizeEvent(
+    createPublishedEvent(
+      { kind, created_at: Math.floor(Date.now() / 1000), tags: [], content: "announcement" },
+      publishFor,
+      capability.eventId!
+    ),
+    authorKey
+  );
+}
+
+describe("Publishing on behalf of a group", () => {
+  it("should accept events covered by the author's publish capability", () => {
+    const capability = grantPublish(author, [1]);
+    const event = publish(capability);
+
+    expect(parsePublishReference(event)).toEqual({
+      groupPubkey,
+      capabilityEventId: capability.eventId,
+    });
+    expect(checkPublishAuthorization(event, [capability], groupPubkey)).toEqual({
+      authorized: true,
+      capability,
+    });
+  });
+
+  it("should reject events the referenced capability does not cover", () => {
+    const capability = grantPublish(author, [1]);
+    const check = (event: ReturnType<typeof publish>, capabilities = [capability]) =>
+      checkPublishAuthorization(event, capabilities, groupPubkey).error;
+
+    expect(check(publish(capability, 30023))).toBe("Referenced capability does not cover this event");
+    expect(check(publish(capability, 1, author))).toBe("Published on behalf of another group");
+    expect(check(publish(capability), [])).toBe("Referenced capability not found");
+
+    // A capability held by someone else cannot be borrowed
+    const othersCapability = grantPublish(getPublicKey(generateSecretKey()));
+    expect(check(publish(othersCapability), [othersCapability])).toBe(
+      "Referenced capability not held by author"
+    );
+
+    const untagged = finalizeEvent(
+      { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+      authorKey
+    );
+    expect(check(untagged)).toBe("Missing on-behalf-of reference");
+  });
+});
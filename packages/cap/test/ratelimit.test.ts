@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+import { RateLimiter, checkAuthorization, type Capability } from "../src/index.js";
+
+const holder = getPublicKey(generateSecretKey());
+const issuer = getPublicKey(generateSecretKey());
+
+function writeCapability(eventId: string, count: number, periodSeconds: number): Capability {
+  return {
+    type: "write",
+    holder,
+    issuer,
+    issuedAt: 1000,
+    qualifiers: { rateLimit: { count, periodSeconds } },
+    eventId,
+  };
+}
+
+function delegate(
+  granted: Capability,
+  eventId: string,
+  rateLimit: { count: number; periodSeconds: number }
+): Capability {
+  return {
+    ...granted,
+    holder: getPublicKey(generateSecretKey()),
+    qualifiers: { rateLimit },
+    eventId,
+    ancestors: [
+      { eventId: granted.eventId!, holder: granted.holder, rateLimit: granted.qualifiers!.rateLimit! },
+    ],
+  };
+}
+
+describe("RateLimiter", () => {
+  it("should allow count uses in any sliding window", () => {
+    const limiter = new RateLimiter();
+    const capability = writeCapability("aa".repeat(32), 3, 60);
+
+    expect(limiter.consume(capability, 1000)).toEqual({ allowed: true, remaining: 2 });
+    expect(limiter.consume(capability, 1020).allowed).toBe(true);
+    expect(limiter.consume(capability, 1040).allowed).toBe(true);
+    expect(limiter.consume(capability, 1050)).toEqual({ allowed: false, remaining: 0, retryAfter: 10 });
+
+    // The first use leaves the window, the rejected one was not counted
+    expect(limiter.check(capability, 1060)).toEqual({ allowed: true, remaining: 1 });
+    expect(limiter.consume(capability, 1060).allowed).toBe(true);
+    expect(limiter.consume(capability, 1061)).toEqual({ allowed: false, remaining: 0, retryAfter: 19 });
+  });
+
+  it("should count each capability separately and fall back to another one", () => {
+    const store = new Map<string, number[]>();
+    const limiter = new RateLimiter(store);
+    const strict = writeCapability("aa".repeat(32), 1, 60);
+    const relaxed = writeCapability("bb".repeat(32), 2, 60);
+
+    const authorize = () =>
+      checkAuthorization([strict, relaxed], holder, "write", { currentTime: 1000, rateLimiter: limiter });
+
+    expect(authorize().capability).toBe(strict);
+    expect(authorize().capability).toBe(relaxed);
+    expect(authorize().capability).toBe(relaxed);
+    expect(authorize()).toEqual({
+      authorized: false,
+      error: "Rate limit exceeded",
+      rateLimited: true,
+      retryAfter: 60,
+    });
+
+    // Usage lives in the store, so a new limiter picks it up
+    expect(store.size).toBe(2);
+    expect(new RateLimiter(store).check(strict, 1030).allowed).toBe(false);
+  });
+
+  it("should count delegations against their grant", () => {
+    const limiter = new RateLimiter();
+    const granted = writeCapability("aa".repeat(32), 2, 60);
+    const delegated = delegate(granted, "cc".repeat(32), { count: 2, periodSeconds: 60 });
+
+    expect(limiter.consume(granted, 1000).allowed).toBe(true);
+    expect(limiter.consume(delegated, 1000).allowed).toBe(true);
+    expect(limiter.check(granted, 1000).allowed).toBe(false);
+    expect(limiter.check(delegated, 1000).allowed).toBe(false);
+  });
+
+  it("should window each capability in a chain by its own period", () => {
+    const limiter = new RateLimiter();
+    const granted = writeCapability("aa".repeat(32), 10, 60);
+    const hourly = { count: 2, periodSeconds: 3600 };
+    const first = delegate(granted, "cc".repeat(32), hourly);
+    const second = delegate(granted, "dd".repeat(32), hourly);
+
+    expect(limiter.consume(first, 1000).allowed).toBe(true);
+    expect(limiter.consume(first, 1010).allowed).toBe(true);
+
+    // Uses of the grant do not prune the delegation's hour of history
+    expect(limiter.consume(granted, 1200).allowed).toBe(true);
+    expect(limiter.consume(first, 1300)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfter: 3300,
+    });
+
+    // Delegations of the same grant have separate budgets
+    expect(limiter.consume(second, 1300)).toEqual({ allowed: true, remaining: 1 });
+  });
+
+  it("should only check the rate limit when asked not to consume", () => {
+    const limiter = new RateLimiter();
+    const capability = writeCapability("aa".repeat(32), 1, 60);
+    const authorize = () =>
+      checkAuthorization([capability], holder, "write", {
+        currentTime: 1000,
+        rateLimiter: limiter,
+        consume: false,
+      });
+
+    expect(authorize().authorized).toBe(true);
+    expect(authorize().authorized).toBe(true);
+
+    limiter.consume(authorize().capability!, 1000);
+    expect(authorize().rateLimited).toBe(true);
+  });
+});
@@ -6,7 +6,8 @@
 
 import m from "mithril";
 import { store } from "../state.js";
-import { initiateDKG, startRound1, cleanupSession } from "../dkg.js";
+import { initiateDKG, startRound1, cleanupSession, getSession } from "../dkg.js";
+import { saveKeyPackage, downloadKeyShare } from "../vault.js";
 
 interface CreateGroupState {
   groupName: string;
@@ -14,6 +15,8 @@ interface CreateGroupState {
   participantsInput: string;
   creating: boolean;
   error: string | null;
+  passphrase: string;
+  shareSaved: boolean;
 }
 
 // Use closure-based state to avoid vnode.state assignment issues
@@ -25,6 +28,8 @@ function createState(): CreateGroupState {
     participantsInput: appState.pubkey || "",
     creating: false,
     error: null,
+    passphrase: "",
+    shareSaved: false,
   };
 }
 
@@ -109,6 +114,24 @@ export function CreateGroupView(): m.Component<{}, CreateGroupState> {
                 ]),
               ]),
             ]),
+            m("div.save-share-section", [
+              m("p", "Save your key share. Without it you cannot sign for the group after a reload."),
+              m("div.form-group", [
+                m("label", "Passphrase"),
+                m("input[type=password]", {
+                  value: state.passphrase,
+                  disabled: state.shareSaved,
+                  oninput: (e: Event) => {
+                    state.passphrase = (e.target as HTMLInputElement).value;
+                  },
+                }),
+              ]),
+              m("button.secondary", {
+                disabled: !state.passphrase || state.shareSaved,
+                onclick: () => saveKeyShare(state, dkgSession.sessionId),
+              }, state.shareSaved ? "Key share saved" : "Save & Export Key Share"),
+              state.error && m("div.error", state.error),
+            ]),
             m("button.primary", {
               onclick: () => {
                 cleanupSession(dkgSession.sessionId);
@@ -292,6 +315,22 @@ function startGroupCreation(state: CreateGroupState, secretKey: string, myPubkey
   }
 }
 
+function saveKeyShare(state: CreateGroupState, sessionId: string): void {
+  const session = getSession(sessionId);
+  if (!session?.keyPackage) {
+    state.error = "Key share not found for this session";
+    return;
+  }
+
+  try {
+    const ncryptshare = saveKeyPackage(session.keyPackage, session.participants, state.passphrase);
+    downloadKeyShare(ncryptshare, session.keyPackage);
+    state.shareSaved = true;
+  } catch (error) {
+    state.error = `Failed to save key share: ${error}`;
+  }
+}
+
 function getStepClass(step: string, currentStatus: string): string {
   const steps = ["waiting", "round1", "round2", "complete"];
   const stepIndex = steps.indexOf(step);
@@ -8,10 +8,14 @@ import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
 import { store } from "../state.js";
 import { initRelay } from "../relay.js";
 import { initDKGSubscription } from "../dkg.js";
+import { getStoredKeyShares, importKeyShareWithPassphrase, unlockStoredKeyShares } from "../vault.js";
 
 interface LoginState {
   secretKeyInput: string;
   relayUrlInput: string;
+  keyShareInput: string;
+  passphraseInput: string;
+  showImport: boolean;
   error: string | null;
   connecting: boolean;
 }
@@ -20,10 +24,15 @@ export function LoginView(): m.Component {
   const state: LoginState = {
     secretKeyInput: "",
     relayUrlInput: "wss://bucket.coracle.social/",
+    keyShareInput: "",
+    passphraseInput: "",
+    showImport: false,
     error: null,
     connecting: false,
   };
 
+  const storedShareCount = Object.keys(getStoredKeyShares()).length;
+
   return {
     view() {
 
@@ -56,6 +65,51 @@ export function LoginView(): m.Component {
           }),
         ]),
 
+        m("div.form-group", [
+          m("a[href=#]", {
+            onclick: (e: Event) => {
+              e.preventDefault();
+              state.showImport = !state.showImport;
+            },
+          }, state.showImport ? "Hide key share import" : "Import key share"),
+        ]),
+
+        state.showImport && m("div.form-group", [
+          m("label", "Key share (ncryptshare string or exported file)"),
+          m("textarea", {
+            value: state.keyShareInput,
+            rows: 3,
+            disabled: state.connecting,
+            oninput: (e: Event) => {
+              state.keyShareInput = (e.target as HTMLTextAreaElement).value;
+            },
+            placeholder: "ncryptshare1...",
+          }),
+          m("input[type=file][accept=.json,.txt]", {
+            disabled: state.connecting,
+            onchange: async (e: Event) => {
+              const file = (e.target as HTMLInputElement).files?.[0];
+              if (file) {
+                state.keyShareInput = await file.text();
+                m.redraw();
+              }
+            },
+          }),
+        ]),
+
+        (state.showImport || storedShareCount > 0) && m("div.form-group", [
+          m("label", storedShareCount > 0
+            ? `Key share passphrase (unlocks ${storedShareCount} stored share${storedShareCount === 1 ? "" : "s"})`
+            : "Key share passphrase"),
+          m("input[type=password]", {
+            value: state.passphraseInput,
+            disabled: state.connecting,
+            oninput: (e: Event) => {
+              state.passphraseInput = (e.target as HTMLInputElement).value;
+            },
+          }),
+        ]),
+
         state.error && m("div.error", state.error),
 
         m("div.buttons", [
@@ -82,6 +136,20 @@ export function LoginView(): m.Component {
                   // Try to derive pubkey to validate
                   getPublicKey(hexToBytes(secretKey));
 
+                  // Import and unlock key shares before connecting
+                  if (state.keyShareInput.trim()) {
+                    try {
+                      importKeyShareWithPassphrase(state.keyShareInput, state.passphraseInput);
+                    } catch (err) {
+                      state.error = `Failed to import key share: ${err instanceof Error ? err.message : err}`;
+                      return;
+                    }
+                  }
+
+                  if (state.passphraseInput) {
+                    unlockStoredKeyShares(state.passphraseInput);
+                  }
+
                   // Initialize and connect to relay
                   state.connecting = true;
                   m.redraw();
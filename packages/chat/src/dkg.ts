@@ -2,24 +2,39 @@
  * @nkg/chat - DKG coordination via nostr events
  * 
  * Manages distributed key generation sessions for creating groups.
- * Participants communicate via ephemeral nostr events.
+ * Participants communicate via ephemeral nostr events. Sessions are
+ * persisted to localStorage, encrypted with the user's secret key, so a
+ * reload resumes the ceremony by replaying the protocol events stored
+ * on the relay.
  */
 
 import {
   createDKGSession,
   generateSessionId,
-  generateRound1Package,
+  resumeRound1Package,
   processRound1Package,
   generateRound2Packages,
   processRound2Package,
+  processComplaint,
+  generateJustification,
+  processJustification,
+  resolveComplaints,
   finalizeDKG,
+  serializeKeyPackage,
+  serializeDKGSession,
+  restoreDKGSession,
+  createDKGTranscript,
+  createTranscriptAttestationEvent,
   DKG_EVENT_KINDS,
   PROTOCOL_TAGS,
   type DKGSession,
+  type DKGComplaint,
   type DKGConfig,
+  type DKGJustification,
   type DKGRound1Package,
   type DKGRound2Package,
   type KeyPackage,
+  type SerializedDKGSession,
 } from "@nkg/signer";
 import { finalizeEvent, type Event } from "nostr-tools";
 import { hexToBytes } from "@noble/hashes/utils";
@@ -41,8 +56,29 @@ export interface DKGSessionState {
   status: "waiting" | "round1" | "round2" | "complete" | "failed";
   error: string | null;
   keyPackage: KeyPackage | null;
+  /** Deadline timer for accused participants to justify their shares */
+  complaintTimer: ReturnType<typeof setTimeout> | null;
+  /** When the session was started (unix seconds), to replay its events */
+  startedAt: number;
 }
 
+/** DKG session as persisted in localStorage */
+interface StoredDKGSession {
+  groupName: string;
+  status: DKGSessionState["status"];
+  error: string | null;
+  startedAt: number;
+  session: SerializedDKGSession;
+}
+
+/** How long accused participants have to publish a justification */
+const COMPLAINT_TIMEOUT_MS = 30000;
+
+const STORAGE_KEY = "nkg:dkg-sessions";
+
+/** Sessions are encrypted with the nostr secret key, which needs no key stretching */
+const STORAGE_LOG_N = 10;
+
 // Active DKG sessions
 const activeSessions: Map<string, DKGSessionState> = new Map();
 let unsubscribe: (() => void) | null = null;
@@ -88,9 +124,12 @@ export function initiateDKG(
     status: "waiting",
     error: null,
     keyPackage: null,
+    complaintTimer: null,
+    startedAt: Math.floor(Date.now() / 1000),
   };
 
   activeSessions.set(sessionId, state);
+  persistSession(state);
 
   // Broadcast session initiation
   broadcastSessionInit(state, mySecretKey);
@@ -140,9 +179,12 @@ export function joinDKG(
     status: "waiting",
     error: null,
     keyPackage: null,
+    complaintTimer: null,
+    startedAt: Math.floor(Date.now() / 1000),
   };
 
   activeSessions.set(sessionId, state);
+  persistSession(state);
   subscribeToSessionEvents();
 
   return state;
@@ -150,6 +192,9 @@ export function joinDKG(
 
 /**
  * Start Round 1 for a session
+ *
+ * A session resumed after a reload re-broadcasts the package it already
+ * published instead of generating a conflicting one.
  */
 export function startRound1(sessionId: string, mySecretKey: string): void {
   const state = activeSessions.get(sessionId);
@@ -159,12 +204,13 @@ export function startRound1(sessionId: string, mySecretKey: string): void {
   }
 
   try {
-    const { package: round1Pkg, session: updatedSession } = generateRound1Package(state.session);
+    const { package: round1Pkg, session: updatedSession } = resumeRound1Package(state.session);
     state.session = updatedSession;
     state.status = "round1";
 
     // Broadcast Round 1 package
     broadcastRound1Package(state, round1Pkg, mySecretKey);
+    persistSession(state);
     
     m.redraw();
   } catch (error) {
@@ -189,10 +235,120 @@ export function getAllSessions(): DKGSessionState[] {
 }
 
 /**
- * Clean up a session
+ * Clean up a session, removing it from storage
  */
 export function cleanupSession(sessionId: string): void {
+  const state = activeSessions.get(sessionId);
+  if (state?.complaintTimer) {
+    clearTimeout(state.complaintTimer);
+  }
   activeSessions.delete(sessionId);
+
+  const stored = getStoredSessions();
+  delete stored[sessionId];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+function getStoredSessions(): Record<string, StoredDKGSession> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save a session after every state change, so it can be resumed
+ */
+function persistSession(state: DKGSessionState): void {
+  if (!state.session) return;
+
+  try {
+    const stored = getStoredSessions();
+    stored[state.sessionId] = {
+      groupName: state.groupName,
+      status: state.status,
+      error: state.error,
+      startedAt: state.startedAt,
+      session: serializeDKGSession(state.session, state.session.config.mySecretKey, STORAGE_LOG_N),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.warn("[DKG] Could not persist session:", error);
+  }
+}
+
+/**
+ * Restore stored sessions that belong to this secret key
+ *
+ * Events missed while the page was closed are replayed from the relay
+ * once the subscription is opened.
+ */
+function resumeStoredSessions(secretKey: string): void {
+  for (const [sessionId, stored] of Object.entries(getStoredSessions())) {
+    if (activeSessions.has(sessionId)) continue;
+
+    let session: DKGSession;
+    try {
+      session = restoreDKGSession(stored.session, secretKey);
+    } catch {
+      // Stored by another account on this device
+      continue;
+    }
+
+    const state: DKGSessionState = {
+      sessionId,
+      groupName: stored.groupName,
+      threshold: session.config.threshold,
+      participants: session.config.participants,
+      myIndex: session.config.myIndex,
+      session,
+      status: stored.status,
+      error: stored.error,
+      keyPackage: session.keyPackage ?? null,
+      complaintTimer: null,
+      startedAt: stored.startedAt,
+    };
+
+    activeSessions.set(sessionId, state);
+    console.log(`[DKG] Resuming session ${sessionId} (${state.status})`);
+
+    store.dispatch({
+      type: "SET_DKG_SESSION",
+      payload: {
+        sessionId,
+        status: state.status,
+        groupName: state.groupName,
+        ...(state.error && { error: state.error }),
+        ...(state.keyPackage && { groupPubkey: state.keyPackage.groupPubkey }),
+      },
+    });
+
+    if (state.keyPackage) {
+      // Completed, but the share may not have been saved yet
+      store.dispatch({
+        type: "ADD_KEY_SHARE",
+        payload: serializeKeyPackage(state.keyPackage, state.participants),
+      });
+      store.dispatch({
+        type: "ADD_GROUP",
+        payload: { id: state.keyPackage.groupPubkey, name: state.groupName },
+      });
+    } else if (session.state === "initialized") {
+      // Generates the package, or re-broadcasts it if it was sent before the reload
+      startRound1(sessionId, secretKey);
+    } else if (session.state === "round1_complete") {
+      sendRound2Packages(state, secretKey);
+      persistSession(state);
+    } else if (state.status !== "failed") {
+      // Restart the complaint deadline if one was running
+      updateRound2Progress(state, secretKey);
+    }
+  }
 }
 
 // ============================================================================
@@ -238,6 +394,7 @@ function broadcastRound1Package(
     content: JSON.stringify({
       idx: pkg.idx,
       vssCommitments: pkg.vssCommitments,
+      proofOfKnowledge: pkg.proofOfKnowledge,
     }),
   }, hexToBytes(secretKey));
 
@@ -272,6 +429,48 @@ function broadcastRound2Package(
   relay.publish(event).catch(console.error);
 }
 
+function broadcastComplaint(
+  state: DKGSessionState,
+  complaint: DKGComplaint,
+  secretKey: string
+): void {
+  const relay = getRelay();
+  if (!relay) return;
+
+  const event = finalizeEvent({
+    kind: DKG_EVENT_KINDS.COMPLAINT,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, state.sessionId],
+      [PROTOCOL_TAGS.INDEX, complaint.complainerIdx.toString()],
+    ],
+    content: JSON.stringify(complaint),
+  }, hexToBytes(secretKey));
+
+  relay.publish(event).catch(console.error);
+}
+
+function broadcastJustification(
+  state: DKGSessionState,
+  justification: DKGJustification,
+  secretKey: string
+): void {
+  const relay = getRelay();
+  if (!relay) return;
+
+  const event = finalizeEvent({
+    kind: DKG_EVENT_KINDS.JUSTIFICATION,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, state.sessionId],
+      [PROTOCOL_TAGS.INDEX, justification.fromIdx.toString()],
+    ],
+    content: JSON.stringify(justification),
+  }, hexToBytes(secretKey));
+
+  relay.publish(event).catch(console.error);
+}
+
 function broadcastCompletion(
   state: DKGSessionState,
   groupPubkey: string,
@@ -293,6 +492,15 @@ function broadcastCompletion(
   relay.publish(event).catch(console.error);
 }
 
+function broadcastTranscriptAttestation(session: DKGSession, secretKey: string): void {
+  const relay = getRelay();
+  if (!relay) return;
+
+  const event = createTranscriptAttestationEvent(createDKGTranscript(session), secretKey);
+
+  relay.publish(event).catch(console.error);
+}
+
 // ============================================================================
 // Event Subscription & Processing
 // ============================================================================
@@ -303,15 +511,19 @@ function subscribeToSessionEvents(): void {
   const relay = getRelay();
   if (!relay) return;
 
-  // Subscribe to DKG events from the last 5 minutes to catch recent session initiations
-  const fiveMinutesAgo = Math.floor(Date.now() / 1000) - 300;
+  // Subscribe to DKG events from the last 5 minutes to catch recent session
+  // initiations, or since the oldest resumed session to replay its events
+  const since = Math.min(
+    Math.floor(Date.now() / 1000) - 300,
+    ...Array.from(activeSessions.values(), (s) => s.startedAt)
+  );
 
   unsubscribe = relay.subscribe(
     "dkg-events",
     [
       { 
-        kinds: [DKG_EVENT_KINDS.SESSION_INIT, DKG_EVENT_KINDS.ROUND1_PACKAGE, DKG_EVENT_KINDS.ROUND2_PACKAGE, DKG_EVENT_KINDS.COMPLETION],
-        since: fiveMinutesAgo,
+        kinds: Object.values(DKG_EVENT_KINDS),
+        since,
       },
     ],
     handleDKGEvent
@@ -320,8 +532,15 @@ function subscribeToSessionEvents(): void {
 
 /**
  * Initialize DKG event subscription (call this on login)
+ *
+ * Resumes any stored sessions of the logged in user first.
  */
 export function initDKGSubscription(): void {
+  const { secretKey } = store.getState();
+  if (secretKey) {
+    resumeStoredSessions(secretKey);
+  }
+
   subscribeToSessionEvents();
 }
 
@@ -341,6 +560,9 @@ function handleDKGEvent(event: Event): void {
   const appState = store.getState();
   if (!appState.secretKey) return;
 
+  // Replayed events for finished sessions
+  if (state.status === "complete" || state.status === "failed") return;
+
   switch (event.kind) {
     case DKG_EVENT_KINDS.ROUND1_PACKAGE:
       handleRound1Package(state, event, appState.secretKey);
@@ -348,10 +570,18 @@ function handleDKGEvent(event: Event): void {
     case DKG_EVENT_KINDS.ROUND2_PACKAGE:
       handleRound2Package(state, event, appState.secretKey);
       break;
+    case DKG_EVENT_KINDS.COMPLAINT:
+      handleComplaint(state, event, appState.secretKey);
+      break;
+    case DKG_EVENT_KINDS.JUSTIFICATION:
+      handleJustification(state, event, appState.secretKey);
+      break;
     case DKG_EVENT_KINDS.COMPLETION:
       handleCompletion(state, event);
       break;
   }
+
+  persistSession(state);
 }
 
 function handleSessionInit(event: Event): void {
@@ -394,33 +624,42 @@ function handleRound1Package(state: DKGSessionState, event: Event, secretKey: st
   try {
     const pkg: DKGRound1Package = JSON.parse(event.content);
     
-    // Don't process our own package
+    // Don't process our own package, or one replayed after a reload
     if (pkg.idx === state.myIndex) return;
+    if (state.session.round1Packages.has(pkg.idx)) return;
+    if (!isFromParticipant(state, event, pkg.idx)) return;
 
     state.session = processRound1Package(state.session, pkg);
 
     // Check if we have all Round 1 packages
     if (state.session.state === "round1_complete") {
-      // Generate and broadcast Round 2 packages
-      const { packages, session: updatedSession } = generateRound2Packages(state.session);
-      state.session = updatedSession;
-      state.status = "round2";
-
-      // Send each Round 2 package to the appropriate recipient
-      for (const pkg of packages) {
-        const recipientPubkey = state.participants[pkg.toIdx - 1];
-        if (recipientPubkey) {
-          broadcastRound2Package(state, pkg, recipientPubkey, secretKey);
-        }
-      }
-
-      m.redraw();
+      sendRound2Packages(state, secretKey);
     }
   } catch (error) {
     console.error("[DKG] Failed to process Round 1 package:", error);
   }
 }
 
+/**
+ * Generate Round 2 packages and send each to its recipient
+ */
+function sendRound2Packages(state: DKGSessionState, secretKey: string): void {
+  if (!state.session) return;
+
+  const { packages, session: updatedSession } = generateRound2Packages(state.session);
+  state.session = updatedSession;
+  state.status = "round2";
+
+  for (const pkg of packages) {
+    const recipientPubkey = state.participants[pkg.toIdx - 1];
+    if (recipientPubkey) {
+      broadcastRound2Package(state, pkg, recipientPubkey, secretKey);
+    }
+  }
+
+  m.redraw();
+}
+
 function handleRound2Package(state: DKGSessionState, event: Event, secretKey: string): void {
   if (!state.session) return;
 
@@ -432,45 +671,167 @@ function handleRound2Package(state: DKGSessionState, event: Event, secretKey: st
   try {
     const pkg: DKGRound2Package = JSON.parse(event.content);
     
-    // Don't process our own package
+    // Don't process our own package, or one replayed after a reload
     if (pkg.fromIdx === state.myIndex) return;
+    if (state.session.round2Packages.has(pkg.fromIdx)) return;
+    if (!isFromParticipant(state, event, pkg.fromIdx)) return;
 
     state.session = processRound2Package(state.session, pkg);
 
-    // Check if we have all Round 2 packages
-    if (state.session.state === "round2_complete") {
-      // Finalize DKG
-      const { keyPackage, session: finalSession } = finalizeDKG(state.session);
-      state.session = finalSession;
-      state.keyPackage = keyPackage;
-      state.status = "complete";
+    // An invalid share turns into a complaint against its sender
+    const complaint = state.session.complaints.find(
+      (c) => c.complainerIdx === state.myIndex && c.accusedIdx === pkg.fromIdx
+    );
+    if (complaint) {
+      console.warn(`[DKG] Invalid share from participant ${pkg.fromIdx}, publishing complaint`);
+      broadcastComplaint(state, complaint, secretKey);
+    }
+
+    updateRound2Progress(state, secretKey);
+  } catch (error) {
+    console.error("[DKG] Failed to process Round 2 package:", error);
+  }
+}
+
+function handleComplaint(state: DKGSessionState, event: Event, secretKey: string): void {
+  if (!state.session) return;
+
+  try {
+    const complaint: DKGComplaint = JSON.parse(event.content);
+    if (complaint.complainerIdx === state.myIndex) return;
+    if (!isFromParticipant(state, event, complaint.complainerIdx)) return;
+
+    state.session = processComplaint(state.session, complaint);
+
+    // Answer complaints against us by revealing the share we sent
+    if (complaint.accusedIdx === state.myIndex) {
+      broadcastJustification(state, generateJustification(state.session, complaint), secretKey);
+    }
+
+    updateRound2Progress(state, secretKey);
+  } catch (error) {
+    console.error("[DKG] Failed to process complaint:", error);
+  }
+}
+
+function handleJustification(state: DKGSessionState, event: Event, secretKey: string): void {
+  if (!state.session) return;
+
+  try {
+    const justification: DKGJustification = JSON.parse(event.content);
+    if (justification.fromIdx === state.myIndex) return;
+    if (!isFromParticipant(state, event, justification.fromIdx)) return;
+
+    state.session = processJustification(state.session, justification);
+    updateRound2Progress(state, secretKey);
+  } catch (error) {
+    console.error("[DKG] Failed to process justification:", error);
+  }
+}
 
-      // Broadcast completion
-      broadcastCompletion(state, keyPackage.groupPubkey, secretKey);
+/**
+ * Finalize, wait for complaints to be resolved, or fail, depending on the
+ * session state after a Round 2 or complaint message
+ */
+function updateRound2Progress(state: DKGSessionState, secretKey: string): void {
+  if (!state.session) return;
 
-      // Notify UI
+  switch (state.session.state) {
+    case "complaints":
+      if (!state.complaintTimer) {
+        state.complaintTimer = setTimeout(() => {
+          state.complaintTimer = null;
+          if (!state.session || state.session.state !== "complaints") return;
+
+          state.session = resolveComplaints(state.session);
+          updateRound2Progress(state, secretKey);
+          persistSession(state);
+        }, COMPLAINT_TIMEOUT_MS);
+      }
+      break;
+    case "round2_complete":
+      completeDKG(state, secretKey);
+      break;
+    case "failed":
+      state.error = `Too many participants disqualified: ${state.session.disqualified.join(", ")}`;
+      state.status = "failed";
       store.dispatch({
         type: "SET_DKG_SESSION",
-        payload: { sessionId: state.sessionId, status: "complete", groupPubkey: keyPackage.groupPubkey },
+        payload: { sessionId: state.sessionId, status: "failed", error: state.error },
       });
+      m.redraw();
+      break;
+  }
 
-      // Add the new group
-      store.dispatch({
-        type: "ADD_GROUP",
-        payload: {
-          id: keyPackage.groupPubkey,
-          name: state.groupName,
-        },
-      });
+  if (state.session.state !== "complaints" && state.complaintTimer) {
+    clearTimeout(state.complaintTimer);
+    state.complaintTimer = null;
+  }
+}
 
-      m.redraw();
-    }
+/**
+ * Finalize the key package, or fail the session if we were disqualified
+ */
+function completeDKG(state: DKGSessionState, secretKey: string): void {
+  if (!state.session) return;
+
+  let finalized: ReturnType<typeof finalizeDKG>;
+  try {
+    finalized = finalizeDKG(state.session);
   } catch (error) {
-    console.error("[DKG] Failed to process Round 2 package:", error);
-    state.error = `Round 2 failed: ${error}`;
+    state.error = error instanceof Error ? error.message : String(error);
     state.status = "failed";
+    persistSession(state);
+    store.dispatch({
+      type: "SET_DKG_SESSION",
+      payload: { sessionId: state.sessionId, status: "failed", error: state.error },
+    });
     m.redraw();
+    return;
   }
+
+  const { keyPackage, session: finalSession } = finalized;
+  state.session = finalSession;
+  state.keyPackage = keyPackage;
+  state.status = "complete";
+
+  if (finalSession.disqualified.length > 0) {
+    console.warn(`[DKG] Completed with disqualified participants: ${finalSession.disqualified.join(", ")}`);
+  }
+
+  // Broadcast completion and sign the ceremony transcript for the audit log
+  broadcastCompletion(state, keyPackage.groupPubkey, secretKey);
+  broadcastTranscriptAttestation(finalSession, secretKey);
+
+  // Notify UI
+  store.dispatch({
+    type: "SET_DKG_SESSION",
+    payload: { sessionId: state.sessionId, status: "complete", groupPubkey: keyPackage.groupPubkey },
+  });
+
+  // Keep the share available until the user saves it with a passphrase
+  store.dispatch({
+    type: "ADD_KEY_SHARE",
+    payload: serializeKeyPackage(keyPackage, state.participants),
+  });
+
+  // Add the new group
+  store.dispatch({
+    type: "ADD_GROUP",
+    payload: {
+      id: keyPackage.groupPubkey,
+      name: state.groupName,
+    },
+  });
+
+  m.redraw();
+}
+
+/**
+ * Check that an event was authored by the participant holding the claimed index
+ */
+function isFromParticipant(state: DKGSessionState, event: Event, idx: number): boolean {
+  return state.participants[idx - 1] === event.pubkey;
 }
 
 function handleCompletion(state: DKGSessionState, event: Event): void {
@@ -484,10 +845,18 @@ function handleCompletion(state: DKGSessionState, event: Event): void {
 // Cleanup
 // ============================================================================
 
+/**
+ * Drop all sessions from memory, keeping them in storage to resume later
+ */
 export function cleanupAllSessions(): void {
   if (unsubscribe) {
     unsubscribe();
     unsubscribe = null;
   }
+  for (const state of activeSessions.values()) {
+    if (state.complaintTimer) {
+      clearTimeout(state.complaintTimer);
+    }
+  }
   activeSessions.clear();
 }
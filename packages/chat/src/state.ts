@@ -20,6 +20,7 @@ export const initialState: AppState = {
   currentGroup: null,
   messages: [],
   dkgSession: null,
+  keyShares: [],
   loading: false,
   error: null,
 };
@@ -90,6 +91,18 @@ export function reducer(state: AppState, action: Action): AppState {
     case "SET_DKG_SESSION":
       return { ...state, dkgSession: action.payload };
 
+    case "ADD_KEY_SHARE": {
+      // Replace any existing share for the same group
+      const groupPubkey = action.payload.data.groupPubkey;
+      return {
+        ...state,
+        keyShares: [
+          ...state.keyShares.filter((s) => s.data.groupPubkey !== groupPubkey),
+          action.payload,
+        ],
+      };
+    }
+
     case "SET_LOADING":
       return { ...state, loading: action.payload };
 
@@ -3,6 +3,7 @@
  */
 
 import type { Event } from "nostr-tools";
+import type { SerializedKeyPackage } from "@nkg/signer";
 
 // ============================================================================
 // State Types
@@ -28,6 +29,8 @@ export interface AppState {
   messages: ChatMessage[];
   /** Active DKG session info */
   dkgSession: DKGSessionInfo | null;
+  /** Unlocked key shares held by this user */
+  keyShares: SerializedKeyPackage[];
   /** Loading state */
   loading: boolean;
   /** Error message */
@@ -77,6 +80,7 @@ export type Action =
   | { type: "SET_MESSAGES"; payload: ChatMessage[] }
   | { type: "ADD_MESSAGE"; payload: ChatMessage }
   | { type: "SET_DKG_SESSION"; payload: DKGSessionInfo | null }
+  | { type: "ADD_KEY_SHARE"; payload: SerializedKeyPackage }
   | { type: "SET_LOADING"; payload: boolean }
   | { type: "SET_ERROR"; payload: string | null }
   | { type: "LOGOUT" };
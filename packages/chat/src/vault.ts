@@ -0,0 +1,112 @@
+/**
+ * @nkg/chat - Key share persistence
+ *
+ * Keeps key shares encrypted with the user's passphrase in localStorage,
+ * so they survive page reloads, and handles key share export/import.
+ */
+
+import {
+  serializeKeyPackage,
+  encryptKeyShare,
+  decryptKeyShare,
+  exportKeyShareFile,
+  importKeyShare,
+  type KeyPackage,
+  type SerializedKeyPackage,
+} from "@nkg/signer";
+import { store } from "./state.js";
+
+const STORAGE_KEY = "nkg:keyshares";
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Get all stored ncryptshare strings, keyed by group pubkey
+ */
+export function getStoredKeyShares(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function storeKeyShare(groupPubkey: string, ncryptshare: string): void {
+  const stored = getStoredKeyShares();
+  stored[groupPubkey] = ncryptshare;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+/**
+ * Encrypt a key package, store it, and make it available in the app
+ */
+export function saveKeyPackage(
+  keyPackage: KeyPackage,
+  participants: string[],
+  passphrase: string
+): string {
+  const serialized = serializeKeyPackage(keyPackage, participants);
+  const ncryptshare = encryptKeyShare(serialized, passphrase);
+
+  storeKeyShare(keyPackage.groupPubkey, ncryptshare);
+  store.dispatch({ type: "ADD_KEY_SHARE", payload: serialized });
+
+  return ncryptshare;
+}
+
+/**
+ * Import a key share from an export file or ncryptshare string
+ */
+export function importKeyShareWithPassphrase(
+  input: string,
+  passphrase: string
+): SerializedKeyPackage {
+  const ncryptshare = importKeyShare(input);
+  const serialized = decryptKeyShare(ncryptshare, passphrase);
+
+  storeKeyShare(serialized.data.groupPubkey, ncryptshare);
+  store.dispatch({ type: "ADD_KEY_SHARE", payload: serialized });
+
+  return serialized;
+}
+
+/**
+ * Unlock all stored key shares that open with the passphrase
+ */
+export function unlockStoredKeyShares(passphrase: string): number {
+  let unlocked = 0;
+
+  for (const ncryptshare of Object.values(getStoredKeyShares())) {
+    try {
+      const serialized = decryptKeyShare(ncryptshare, passphrase);
+      store.dispatch({ type: "ADD_KEY_SHARE", payload: serialized });
+      unlocked++;
+    } catch (error) {
+      console.warn("[Vault] Could not unlock stored key share:", error);
+    }
+  }
+
+  return unlocked;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Download a key share as an export file
+ */
+export function downloadKeyShare(ncryptshare: string, keyPackage: KeyPackage): void {
+  const file = exportKeyShareFile(ncryptshare, keyPackage);
+  const blob = new Blob([file], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `nkg-share-${keyPackage.groupPubkey.slice(2, 10)}-${keyPackage.share.idx}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
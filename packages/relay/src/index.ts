@@ -20,7 +20,13 @@ export {
   parseGroupMembersEvent,
   parseModerationEvent,
   canPerformModerationAction,
+  capabilityAllowsModeration,
+  getAdminsFromCapabilities,
+  MODERATION_CAPABILITIES,
 } from "./nip29.js";
 
 // Relay server
 export { Relay } from "./relay.js";
+
+// Rate limit persistence
+export { FileRateLimitStore } from "./ratelimit.js";
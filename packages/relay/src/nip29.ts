@@ -3,9 +3,11 @@
  */
 
 import { verifyEvent, finalizeEvent, type Event, type UnsignedEvent } from "nostr-tools";
+import type { Capability, CapabilityType } from "@nkg/cap";
 
 import {
   NIP29_KINDS,
+  type AdminPermission,
   type GroupId,
   type GroupMetadata,
   type GroupAdmin,
@@ -294,6 +296,7 @@ export function parseGroupAdminsEvent(event: Event): GroupAdmin[] | null {
             "remove-permission",
             "edit-group-status",
             "delete-group",
+            "create-invite",
           ].includes(p)
         ),
       });
@@ -355,6 +358,65 @@ export function parseModerationEvent(event: Event): ModerationAction | null {
   };
 }
 
+/**
+ * Capability required for each moderation kind, and the admin permission
+ * it shows up as. The capability must list the kind in its `kinds`
+ * qualifier, so that plain write or delete capabilities of members do not
+ * grant moderation.
+ */
+export const MODERATION_CAPABILITIES: Record<
+  number,
+  { type: CapabilityType; permission: AdminPermission }
+> = {
+  [NIP29_KINDS.MOD_ADD_USER]: { type: "write", permission: "add-user" },
+  [NIP29_KINDS.MOD_REMOVE_USER]: { type: "delete", permission: "remove-user" },
+  [NIP29_KINDS.MOD_EDIT_METADATA]: { type: "write", permission: "edit-metadata" },
+  [NIP29_KINDS.MOD_DELETE_EVENT]: { type: "delete", permission: "delete-event" },
+  [NIP29_KINDS.MOD_DELETE_GROUP]: { type: "delete", permission: "delete-group" },
+  [NIP29_KINDS.MOD_CREATE_INVITE]: { type: "write", permission: "create-invite" },
+};
+
+/**
+ * Check if a capability grants a moderation action
+ */
+export function capabilityAllowsModeration(capability: Capability, actionKind: number): boolean {
+  const required = MODERATION_CAPABILITIES[actionKind];
+
+  return (
+    required !== undefined &&
+    capability.type === required.type &&
+    (capability.qualifiers?.kinds?.includes(actionKind) ?? false)
+  );
+}
+
+/**
+ * Derive group admins from the capabilities issued by the group key
+ */
+export function getAdminsFromCapabilities(capabilities: Capability[]): GroupAdmin[] {
+  const admins = new Map<Pubkey, GroupAdmin>();
+
+  for (const capability of capabilities) {
+    for (const kind of capability.qualifiers?.kinds ?? []) {
+      if (!capabilityAllowsModeration(capability, kind)) {
+        continue;
+      }
+
+      const admin = admins.get(capability.holder) ?? {
+        pubkey: capability.holder,
+        label: "moderator",
+        permissions: [],
+      };
+      const permission = MODERATION_CAPABILITIES[kind]!.permission;
+      if (!admin.permissions.includes(permission)) {
+        admin.permissions.push(permission);
+      }
+      admins.set(capability.holder, admin);
+    }
+  }
+
+  return Array.from(admins.values());
+}
+
 /**
  * Check if a pubkey is admin for a specific action
  */
@@ -368,19 +430,10 @@ export function canPerformModerationAction(
     return false;
   }
 
-  // Map event kind to required permission
-  const permissionMap: Record<number, string> = {
-    [NIP29_KINDS.MOD_ADD_USER]: "add-user",
-    [NIP29_KINDS.MOD_REMOVE_USER]: "remove-user",
-    [NIP29_KINDS.MOD_EDIT_METADATA]: "edit-metadata",
-    [NIP29_KINDS.MOD_DELETE_EVENT]: "delete-event",
-    [NIP29_KINDS.MOD_DELETE_GROUP]: "delete-group",
-  };
-
-  const requiredPermission = permissionMap[actionKind];
-  if (!requiredPermission) {
+  const required = MODERATION_CAPABILITIES[actionKind];
+  if (!required) {
     return false;
   }
 
-  return admin.permissions.includes(requiredPermission as any);
+  return admin.permissions.includes(required.permission);
 }
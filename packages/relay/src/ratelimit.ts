@@ -0,0 +1,103 @@
+/**
+ * @nkg/relay - Persistent rate limit storage
+ *
+ * Keeps capability rate limit usage in a JSON file, so members cannot
+ * reset their limits by waiting for the relay to restart. Writes are
+ * batched, and uses older than the longest rate limit period are pruned.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import type { RateLimitStore } from "@nkg/cap";
+
+import type { FileRateLimitStoreOptions, Timestamp } from "./types.js";
+
+/**
+ * Rate limit store backed by a JSON file
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private path: string;
+  private maxPeriodSeconds: number;
+  private flushDelayMs: number;
+  private usage: Map<string, Timestamp[]>;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(path: string, options: FileRateLimitStoreOptions = {}) {
+    this.path = path;
+    this.maxPeriodSeconds = options.maxPeriodSeconds ?? 86400;
+    this.flushDelayMs = options.flushDelayMs ?? 1000;
+    this.usage = existsSync(path) ? loadUsage(path) : new Map();
+    this.prune();
+  }
+
+  get(key: string): Timestamp[] | undefined {
+    return this.usage.get(key);
+  }
+
+  set(key: string, timestamps: Timestamp[]): void {
+    this.usage.set(key, timestamps);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushDelayMs);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * Write pending changes now
+   */
+  flush(): void {
+    if (!this.flushTimer) return;
+
+    clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+
+    this.prune();
+    this.save();
+  }
+
+  /**
+   * Drop uses older than the longest rate limit period, and keys left empty
+   */
+  private prune(): void {
+    const cutoff = Math.floor(Date.now() / 1000) - this.maxPeriodSeconds;
+
+    for (const [key, timestamps] of this.usage) {
+      const recent = timestamps.filter((t) => t > cutoff);
+      if (recent.length === 0) {
+        this.usage.delete(key);
+      } else if (recent.length !== timestamps.length) {
+        this.usage.set(key, recent);
+      }
+    }
+  }
+
+  /**
+   * Write the usage to a temporary file and move it into place
+   */
+  private save(): void {
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(Object.fromEntries(this.usage)));
+    renameSync(tmp, this.path);
+  }
+}
+
+/**
+ * Read the usage file, starting empty if it is corrupt
+ */
+function loadUsage(path: string): Map<string, Timestamp[]> {
+  try {
+    const data: unknown = JSON.parse(readFileSync(path, "utf8"));
+    if (data === null || typeof data !== "object" || Array.isArray(data)) {
+      return new Map();
+    }
+
+    return new Map(
+      Object.entries(data).filter(
+        (entry): entry is [string, Timestamp[]] =>
+          Array.isArray(entry[1]) && entry[1].every((t) => typeof t === "number")
+      )
+    );
+  } catch {
+    return new Map();
+  }
+}
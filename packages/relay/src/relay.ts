@@ -6,7 +6,11 @@ import { WebSocketServer, WebSocket } from "ws";
 import { verifyEvent, type Event } from "nostr-tools";
 import {
   CapabilityStore,
+  RateLimiter,
   checkAuthorization,
+  checkPublishAuthorization,
+  parsePublishReference,
+  type AuthorizationResult,
   type Capability,
   type CapabilityType,
 } from "@nkg/cap";
@@ -19,6 +23,9 @@ import {
   getGroupId,
   parseGroupEvent,
   canPerformModerationAction,
+  capabilityAllowsModeration,
+  getAdminsFromCapabilities,
+  MODERATION_CAPABILITIES,
   createGroupMetadataEvent,
   createGroupAdminsEvent,
   createGroupMembersEvent,
@@ -255,9 +262,12 @@ export class Relay {
   private clients: Set<ClientState> = new Set();
   private eventStore: EventStore = new EventStore();
   private capabilityStore: CapabilityStore = new CapabilityStore();
+  private rateLimiter: RateLimiter;
   private groups: Map<GroupId, GroupMetadata> = new Map();
+  /** Admins passed to createGroup, kept for compatibility */
   private admins: Map<GroupId, GroupAdmin[]> = new Map();
   private members: Map<GroupId, Set<Pubkey>> = new Map();
+  private listening: Promise<void> | null = null;
 
   constructor(config: RelayConfig) {
     this.config = {
@@ -266,6 +276,7 @@ export class Relay {
       latePublicationWindow: 3600, // 1 hour default
       ...config,
     };
+    this.rateLimiter = new RateLimiter(config.rateLimitStore);
   }
 
   /**
@@ -278,14 +289,13 @@ export class Relay {
       const client: ClientState = {
         ws,
         subscriptions: new Map(),
+        authChallenge: generateChallenge(),
       };
       this.clients.add(client);
 
-      // Send AUTH challenge if required
+      // Send AUTH challenge if required, otherwise when a private group needs it
       if (this.config.requireAuth) {
-        const challenge = generateChallenge();
-        client.authChallenge = challenge;
-        this.send(client, ["AUTH", challenge]);
+        this.send(client, ["AUTH", client.authChallenge!]);
       }
 
       ws.on("message", (data) => {
@@ -306,19 +316,46 @@ export class Relay {
       });
     });
 
-    console.log(`Relay started on port ${this.config.port}`);
+    const wss = this.wss;
+    this.listening = new Promise((resolve, reject) => {
+      wss.once("listening", () => {
+        console.log(`Relay started on port ${this.getPort()}`);
+        resolve();
+      });
+      wss.once("error", reject);
+    });
+    // A failure to listen is reported to ready() callers
+    this.listening.catch(() => undefined);
+  }
+
+  /**
+   * Resolve once the started relay accepts connections
+   */
+  ready(): Promise<void> {
+    return this.listening ?? Promise.reject(new Error("Relay not started"));
+  }
+
+  /**
+   * Get the port the relay listens on (the assigned one when started on port 0)
+   */
+  getPort(): number {
+    const address = this.wss?.address();
+    return address && typeof address === "object" ? address.port : this.config.port;
   }
 
   /**
    * Stop the relay server
    */
   stop(): void {
+    this.config.rateLimitStore?.flush?.();
+
     if (this.wss) {
       for (const client of this.clients) {
         client.ws.close();
       }
       this.wss.close();
       this.wss = null;
+      this.listening = null;
     }
   }
 
@@ -381,6 +418,25 @@ export class Relay {
       return;
     }
 
+    // Handle content published on behalf of a group
+    if (parsePublishReference(event)) {
+      this.handlePublishedEvent(client, event);
+      return;
+    }
+
+    // Forward protocol events of the group's admins
+    if (this.config.protocolKinds?.includes(event.kind)) {
+      if (!this.isProtocolAuthor(event.pubkey)) {
+        this.send(client, ["OK", event.id, false, "restricted: not admin"]);
+        return;
+      }
+
+      this.eventStore.add(event);
+      this.send(client, ["OK", event.id, true, ""]);
+      this.broadcastEvent(event);
+      return;
+    }
+
     // Reject other events (this is a NIP-29 only relay)
     this.send(client, ["OK", event.id, false, "blocked: only NIP-29 events accepted"]);
   }
@@ -418,10 +474,14 @@ export class Relay {
     }
 
     // Check authorization
-    if (!this.checkEventAuthorization(client, event, groupId, group)) {
+    const authorization = this.checkEventAuthorization(client, event, groupId, group);
+    if (!authorization) {
       return; // Authorization check sends its own OK response
     }
 
+    // The event is accepted from here on, so it counts against the rate limit
+    this.recordUse(authorization.capability);
+
     // Handle moderation events
     if (isModerationEvent(event.kind)) {
       this.handleModerationEvent(client, event, groupId);
@@ -454,60 +514,123 @@ export class Relay {
 
   /**
    * Check event authorization
+   *
+   * Returns null once the rejection has been sent. Rate limits are only
+   * checked here: the caller records the use of the authorizing
+   * capability when it accepts the event.
    */
   private checkEventAuthorization(
     client: ClientState,
     event: Event,
     groupId: GroupId,
     group: GroupMetadata | undefined
-  ): boolean {
+  ): AuthorizationResult | null {
     // Skip auth for join requests (anyone can request)
     if (event.kind === NIP29_KINDS.JOIN_REQUEST) {
-      return true;
+      return { authorized: true };
+    }
+
+    // Moderation is only granted by capabilities, membership does not count
+    if (isModerationEvent(event.kind)) {
+      return this.checkModerationAuthorization(client, event, group);
     }
 
     // Check if user is a member
     const isMember = this.members.get(groupId)?.has(event.pubkey) ?? false;
 
-    // Check capability-based authorization
-    const capabilities = this.capabilityStore.getCapabilitiesForHolder(event.pubkey);
-    
+    // Check capability-based authorization, with capabilities issued by this group
+    const capabilities = group ? this.getGroupCapabilities(event.pubkey, group) : [];
+
     // Determine required capability type
     let requiredCapability: CapabilityType | null = null;
     if (event.kind === NIP29_KINDS.CHAT_MESSAGE || event.kind === NIP29_KINDS.CHAT_REPLY ||
         event.kind === NIP29_KINDS.TEXT_NOTE || event.kind === NIP29_KINDS.TEXT_REPLY) {
       requiredCapability = "write";
-    } else if (isModerationEvent(event.kind)) {
-      requiredCapability = "delete";
     }
 
     if (requiredCapability) {
       const authResult = checkAuthorization(capabilities, event.pubkey, requiredCapability, {
         eventKind: event.kind,
         eventTags: event.tags,
+        rateLimiter: this.rateLimiter,
+        consume: false,
       });
 
+      // Rate limits apply to members too
+      if (authResult.rateLimited) {
+        this.send(client, [
+          "OK",
+          event.id,
+          false,
+          `rate-limited: try again in ${authResult.retryAfter}s`,
+        ]);
+        return null;
+      }
+
       if (!authResult.authorized && !isMember) {
         this.send(client, ["OK", event.id, false, "restricted: not authorized"]);
-        return false;
+        return null;
       }
+
+      return authResult.authorized ? authResult : { authorized: true };
     }
 
-    return true;
+    return { authorized: true };
   }
 
   /**
-   * Handle moderation event
+   * Check authorization of a moderation event
+   *
+   * The group key may moderate directly, as may admins listed when the
+   * group was created (deprecated). Anyone else needs a capability from
+   * the group key covering the moderation kind.
    */
-  private handleModerationEvent(client: ClientState, event: Event, groupId: GroupId): void {
-    const groupAdmins = this.admins.get(groupId) ?? [];
-    
-    // Check if sender is admin with appropriate permission
-    if (!canPerformModerationAction(groupAdmins, event.pubkey, event.kind)) {
+  private checkModerationAuthorization(
+    client: ClientState,
+    event: Event,
+    group: GroupMetadata | undefined
+  ): AuthorizationResult | null {
+    const required = MODERATION_CAPABILITIES[event.kind];
+    if (!group || !required) {
       this.send(client, ["OK", event.id, false, "restricted: not admin"]);
-      return;
+      return null;
     }
 
+    // The group key, and admins listed when the group was created, moderate directly
+    if (
+      event.pubkey === group.pubkey ||
+      canPerformModerationAction(this.admins.get(group.id) ?? [], event.pubkey, event.kind)
+    ) {
+      return { authorized: true };
+    }
+
+    const capabilities = this.getGroupCapabilities(event.pubkey, group).filter((c) =>
+      capabilityAllowsModeration(c, event.kind)
+    );
+    const authResult = checkAuthorization(capabilities, event.pubkey, required.type, {
+      eventKind: event.kind,
+      eventTags: event.tags,
+      rateLimiter: this.rateLimiter,
+      consume: false,
+    });
+
+    if (authResult.rateLimited) {
+      this.send(client, ["OK", event.id, false, `rate-limited: try again in ${authResult.retryAfter}s`]);
+      return null;
+    }
+
+    if (!authResult.authorized) {
+      this.send(client, ["OK", event.id, false, "restricted: not admin"]);
+      return null;
+    }
+
+    return authResult;
+  }
+
+  /**
+   * Handle moderation event
+   */
+  private handleModerationEvent(client: ClientState, event: Event, groupId: GroupId): void {
     // Process the moderation action
     switch (event.kind) {
       case NIP29_KINDS.MOD_ADD_USER: {
@@ -593,15 +716,19 @@ export class Relay {
       return;
     }
 
-    // Capability events must come from group pubkey
-    if (event.pubkey !== group.pubkey) {
+    // Grants and revocations must come from group pubkey, delegations
+    // are signed by the holder of the parent capability
+    if (event.kind !== 29002 && event.pubkey !== group.pubkey) {
       this.send(client, ["OK", event.id, false, "restricted: not group key"]);
       return;
     }
 
     // Add to capability store
-    if (event.kind === 29000) {
-      const result = this.capabilityStore.addCapability(event, group.pubkey);
+    if (event.kind === 29000 || event.kind === 29002) {
+      const result =
+        event.kind === 29000
+          ? this.capabilityStore.addCapability(event, group.pubkey)
+          : this.capabilityStore.addDelegation(event, group.pubkey);
       if (!result.valid) {
         this.send(client, ["OK", event.id, false, `invalid: ${result.error}`]);
         return;
@@ -615,6 +742,39 @@ export class Relay {
     this.broadcastEvent(event, groupId);
   }
 
+  /**
+   * Handle an event published on behalf of a group by a publish capability holder
+   */
+  private handlePublishedEvent(client: ClientState, event: Event): void {
+    const group = this.getEventGroup(event);
+    if (!group) {
+      this.send(client, ["OK", event.id, false, "invalid: group not found"]);
+      return;
+    }
+
+    const authResult = checkPublishAuthorization(
+      event,
+      this.getGroupCapabilities(event.pubkey, group),
+      group.pubkey,
+      { rateLimiter: this.rateLimiter, consume: false }
+    );
+
+    if (authResult.rateLimited) {
+      this.send(client, ["OK", event.id, false, `rate-limited: try again in ${authResult.retryAfter}s`]);
+      return;
+    }
+
+    if (!authResult.authorized) {
+      this.send(client, ["OK", event.id, false, `restricted: ${authResult.error}`]);
+      return;
+    }
+
+    this.recordUse(authResult.capability);
+    this.eventStore.add(event);
+    this.send(client, ["OK", event.id, true, ""]);
+    this.broadcastEvent(event, group.id);
+  }
+
   /**
    * Handle REQ message
    */
@@ -625,17 +785,35 @@ export class Relay {
       return;
     }
 
-    // Check AUTH for private groups
-    // TODO: Implement private group access control
+    // Check AUTH for private groups requested by h tag
+    const privateGroups = filters
+      .flatMap((f) => f["#h"] ?? [])
+      .map((groupId) => this.groups.get(groupId))
+      .filter((group): group is GroupMetadata => group?.visibility === "private");
+
+    if (privateGroups.length > 0 && !client.authedPubkey) {
+      this.send(client, ["AUTH", client.authChallenge!]);
+      this.send(client, ["CLOSED", subId, "auth-required: private group requires authentication"]);
+      return;
+    }
+
+    for (const group of privateGroups) {
+      if (!this.hasReadAccess(client.authedPubkey!, group)) {
+        this.send(client, ["CLOSED", subId, "restricted: not allowed to read this group"]);
+        return;
+      }
+    }
 
     // Store subscription
     client.subscriptions.set(subId, filters);
 
-    // Query existing events
+    // Query existing events, leaving out those the client cannot read
     for (const filter of filters) {
       const events = this.eventStore.query(filter);
       for (const event of events) {
-        this.send(client, ["EVENT", subId, event]);
+        if (this.canRead(client, event)) {
+          this.send(client, ["EVENT", subId, event]);
+        }
       }
     }
 
@@ -676,6 +854,104 @@ export class Relay {
     this.send(client, ["OK", event.id, true, ""]);
   }
 
+  /**
+   * Check whether a client may read an event
+   *
+   * Events of private groups, including those published on their behalf,
+   * are only served to authenticated members, admins, and holders of a
+   * read capability from the group that covers the event's kind and tags.
+   */
+  private canRead(client: ClientState, event: Event): boolean {
+    const group = this.getEventGroup(event);
+    if (!group || group.visibility !== "private") {
+      return true;
+    }
+
+    const pubkey = client.authedPubkey;
+    if (!pubkey) {
+      return false;
+    }
+
+    if (this.isGroupInsider(pubkey, group)) {
+      return true;
+    }
+
+    return checkAuthorization(this.getGroupCapabilities(pubkey, group), pubkey, "read", {
+      eventKind: event.kind,
+      eventTags: event.tags,
+    }).authorized;
+  }
+
+  /**
+   * Get the group an event belongs to: the one named by its h tag, or
+   * the one it was published on behalf of
+   */
+  private getEventGroup(event: Event): GroupMetadata | undefined {
+    const groupId = getGroupId(event);
+    if (groupId) {
+      return this.groups.get(groupId);
+    }
+
+    const reference = parsePublishReference(event);
+    return reference
+      ? Array.from(this.groups.values()).find((g) => g.pubkey === reference.groupPubkey)
+      : undefined;
+  }
+
+  /**
+   * Check whether a pubkey may read at least part of a group
+   */
+  private hasReadAccess(pubkey: Pubkey, group: GroupMetadata): boolean {
+    return (
+      this.isGroupInsider(pubkey, group) ||
+      checkAuthorization(this.getGroupCapabilities(pubkey, group), pubkey, "read").authorized
+    );
+  }
+
+  /**
+   * Check whether a pubkey is the group key, an admin or a member
+   */
+  private isGroupInsider(pubkey: Pubkey, group: GroupMetadata): boolean {
+    return (
+      pubkey === group.pubkey ||
+      this.getGroupAdmins(group.id).some((a) => a.pubkey === pubkey) ||
+      this.isMember(group.id, pubkey)
+    );
+  }
+
+  /**
+   * Check whether a pubkey may publish protocol events: a configured
+   * protocol author, or the key or an admin of a hosted group
+   */
+  private isProtocolAuthor(pubkey: Pubkey): boolean {
+    if (this.config.protocolAuthors?.includes(pubkey)) {
+      return true;
+    }
+
+    return Array.from(this.groups.values()).some(
+      (group) =>
+        pubkey === group.pubkey || this.getGroupAdmins(group.id).some((a) => a.pubkey === pubkey)
+    );
+  }
+
+  /**
+   * Get a holder's capabilities issued by a group's key
+   */
+  private getGroupCapabilities(pubkey: Pubkey, group: GroupMetadata): Capability[] {
+    return this.capabilityStore
+      .getCapabilitiesForHolder(pubkey)
+      .filter((c) => c.issuer === group.pubkey);
+  }
+
+  /**
+   * Record a use of the capability an accepted event was authorized by
+   */
+  private recordUse(capability: Capability | undefined): void {
+    if (capability) {
+      this.rateLimiter.consume(capability);
+    }
+  }
+
   /**
    * Send message to client
    */
@@ -688,8 +964,10 @@ export class Relay {
   /**
    * Broadcast event to subscribed clients
    */
-  private broadcastEvent(event: Event, groupId: GroupId): void {
+  private broadcastEvent(event: Event, groupId?: GroupId): void {
     for (const client of this.clients) {
+      if (!this.canRead(client, event)) continue;
+
       for (const [subId, filters] of client.subscriptions) {
         for (const filter of filters) {
           const events = this.eventStore.query(filter);
@@ -708,6 +986,9 @@ export class Relay {
 
   /**
    * Create a new group
+   *
+   * @param admins Deprecated: grant moderation capabilities from the group
+   *   key instead. Listed admins may still moderate with their permissions.
    */
   createGroup(metadata: GroupMetadata, admins: GroupAdmin[] = []): void {
     this.groups.set(metadata.id, metadata);
@@ -723,10 +1004,33 @@ export class Relay {
   }
 
   /**
-   * Get group admins
+   * Get group admins, derived from the moderation capabilities of the group key
+   * (and the deprecated admin list passed to createGroup)
    */
   getGroupAdmins(groupId: GroupId): GroupAdmin[] {
-    return this.admins.get(groupId) ?? [];
+    const group = this.groups.get(groupId);
+    if (!group) {
+      return [];
+    }
+
+    const listed = this.admins.get(groupId) ?? [];
+    const admins = new Map(listed.map((a) => [a.pubkey, { ...a, permissions: [...a.permissions] }]));
+    const fromCapabilities = getAdminsFromCapabilities(
+      this.capabilityStore.getCapabilitiesForIssuer(group.pubkey)
+    );
+
+    for (const admin of fromCapabilities) {
+      const existing = admins.get(admin.pubkey);
+      if (!existing) {
+        admins.set(admin.pubkey, admin);
+        continue;
+      }
+      for (const permission of admin.permissions) {
+        if (!existing.permissions.includes(permission)) existing.permissions.push(permission);
+      }
+    }
+
+    return Array.from(admins.values());
   }
 
   /**
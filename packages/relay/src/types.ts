@@ -3,6 +3,7 @@
  */
 
 import type { Event } from "nostr-tools";
+import type { RateLimitStore } from "@nkg/cap";
 
 // ============================================================================
 // Core Types
@@ -108,7 +109,8 @@ export type AdminPermission =
   | "add-permission"
   | "remove-permission"
   | "edit-group-status"
-  | "delete-group";
+  | "delete-group"
+  | "create-invite";
 
 /** Group member */
 export interface GroupMember {
@@ -176,6 +178,27 @@ export interface RelayConfig {
   requireAuth?: boolean;
   /** Late publication window (seconds) */
   latePublicationWindow?: number;
+  /**
+   * Non NIP-29 kinds stored and forwarded as-is, such as the @nkg/signer
+   * DKG and signing protocol kinds the group's admins coordinate with.
+   * Only accepted from admins of a hosted group and `protocolAuthors`.
+   */
+  protocolKinds?: number[];
+  /** Pubkeys allowed to publish protocol kinds before their group exists (during DKG) */
+  protocolAuthors?: Pubkey[];
+  /**
+   * Where capability rate limit usage is kept (in memory if omitted).
+   * Use a persistent store so limits survive a restart.
+   */
+  rateLimitStore?: RateLimitStore;
+}
+
+/** Options for a file-backed rate limit store */
+export interface FileRateLimitStoreOptions {
+  /** Longest rate limit period in use (seconds); older uses are dropped */
+  maxPeriodSeconds?: number;
+  /** How long to batch changes before writing the file (ms) */
+  flushDelayMs?: number;
 }
 
 // ============================================================================
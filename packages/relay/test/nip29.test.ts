@@ -9,9 +9,11 @@ import {
   validateNip29Event,
   parseGroupMetadataEvent,
   canPerformModerationAction,
+  getAdminsFromCapabilities,
   NIP29_KINDS,
   type GroupAdmin,
 } from "../src/index.js";
+import type { Capability, CapabilityType } from "@nkg/cap";
 
 describe("NIP-29 Event Handling", () => {
   let userSecretKey: Uint8Array;
@@ -246,4 +248,34 @@ describe("NIP-29 Event Handling", () => {
       ).toBe(false);
     });
   });
+
+  describe("getAdminsFromCapabilities", () => {
+    const capability = (holder: string, type: CapabilityType, kinds?: number[]): Capability => ({
+      type,
+      holder,
+      issuer: "group",
+      issuedAt: 1000,
+      ...(kinds && { qualifiers: { kinds } }),
+    });
+
+    it("should derive admin permissions from moderation capabilities", () => {
+      const capabilities = [
+        capability("mod1", "delete", [NIP29_KINDS.MOD_DELETE_EVENT, NIP29_KINDS.MOD_REMOVE_USER]),
+        capability("mod1", "write", [NIP29_KINDS.MOD_ADD_USER, NIP29_KINDS.CHAT_MESSAGE]),
+        capability("mod2", "write", [NIP29_KINDS.MOD_DELETE_EVENT]),
+        capability("member", "delete"),
+      ];
+
+      const admins = getAdminsFromCapabilities(capabilities);
+      expect(admins).toEqual([
+        {
+          pubkey: "mod1",
+          label: "moderator",
+          permissions: ["delete-event", "remove-user", "add-user"],
+        },
+      ]);
+      expect(canPerformModerationAction(admins, "mod1", NIP29_KINDS.MOD_ADD_USER)).toBe(true);
+      expect(canPerformModerationAction(admins, "mod1", NIP29_KINDS.MOD_DELETE_GROUP)).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,559 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WebSocket } from "ws";
+import { finalizeEvent, generateSecretKey, getPublicKey, type Event } from "nostr-tools";
+import {
+  createCapabilityDelegationEvent,
+  createCapabilityGrantEvent,
+  createCapabilityRevocationEvent,
+  createPublishedEvent,
+  type CapabilityQualifier,
+  type CapabilityType,
+} from "@nkg/cap";
+import {
+  FileRateLimitStore,
+  Relay,
+  type GroupAdmin,
+  type GroupVisibility,
+  type RelayConfig,
+  type RelayMessage,
+} from "../src/index.js";
+
+const GROUP_ID = "test-group";
+
+/**
+ * A WebSocket client collecting the relay's messages
+ */
+async function connect(relay: Relay) {
+  const ws = new WebSocket(`ws://localhost:${relay.getPort()}`);
+  const messages: RelayMessage[] = [];
+  const waiters: { match: (m: RelayMessage) => boolean; resolve: (m: RelayMessage) => void }[] = [];
+
+  ws.on("message", (data) => {
+    const message = JSON.parse(data.toString()) as RelayMessage;
+    messages.push(message);
+    for (const waiter of waiters.filter((w) => w.match(message))) {
+      waiters.splice(waiters.indexOf(waiter), 1);
+      waiter.resolve(message);
+    }
+  });
+  await new Promise((resolve, reject) => {
+    ws.once("open", resolve);
+    ws.once("error", reject);
+  });
+
+  const next = (match: (m: RelayMessage) => boolean): Promise<RelayMessage> => {
+    const received = messages.find(match);
+    if (received) return Promise.resolve(received);
+    return new Promise((resolve) => waiters.push({ match, resolve }));
+  };
+
+  /** Publish an event and wait for its OK message */
+  const publish = async (event: Event): Promise<[boolean, string]> => {
+    ws.send(JSON.stringify(["EVENT", event]));
+    const ok = await next((m) => m[0] === "OK" && m[1] === event.id);
+    return [ok[2] as boolean, ok[3] as string];
+  };
+
+  /** Answer the relay's AUTH challenge and wait for its OK message */
+  const auth = async (secretKey: Uint8Array): Promise<[boolean, string]> => {
+    const challenge = await next((m) => m[0] === "AUTH");
+    const event = finalizeEvent(
+      {
+        kind: 22242,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [["challenge", challenge[1] as string]],
+        content: "",
+      },
+      secretKey
+    );
+    ws.send(JSON.stringify(["AUTH", event]));
+    const ok = await next((m) => m[0] === "OK" && m[1] === event.id);
+    return [ok[2] as boolean, ok[3] as string];
+  };
+
+  /** Subscribe and collect stored events until EOSE, or the CLOSED reason */
+  const subscribe = async (subId: string, filter: object): Promise<Event[] | string> => {
+    ws.send(JSON.stringify(["REQ", subId, filter]));
+    const done = await next((m) => (m[0] === "EOSE" || m[0] === "CLOSED") && m[1] === subId);
+    if (done[0] === "CLOSED") return done[2] as string;
+
+    return messages
+      .filter((m) => m[0] === "EVENT" && m[1] === subId)
+      .map((m) => m[2] as Event);
+  };
+
+  return { ws, messages, next, publish, auth, subscribe, close: () => ws.close() };
+}
+
+/**
+ * Start a relay with one group whose key is held by the test
+ */
+async function setupRelay(
+  config: Partial<RelayConfig> = {},
+  groupKey = generateSecretKey(),
+  visibility: GroupVisibility = "public"
+) {
+  const relay = new Relay({ port: 0, ...config });
+  relay.start();
+  await relay.ready();
+  relay.createGroup({
+    id: GROUP_ID,
+    name: "Test group",
+    visibility,
+    access: "closed",
+    pubkey: getPublicKey(groupKey),
+  });
+
+  return { relay, groupKey };
+}
+
+function grant(
+  groupKey: Uint8Array,
+  holder: string,
+  type: CapabilityType,
+  qualifiers?: CapabilityQualifier
+): Event {
+  return finalizeEvent(
+    createCapabilityGrantEvent(holder, type, getPublicKey(groupKey), {
+      ...(qualifiers && { qualifiers }),
+      groupId: GROUP_ID,
+    }),
+    groupKey
+  );
+}
+
+function chatMessage(secretKey: Uint8Array, content: string, kind = 9): Event {
+  return finalizeEvent(
+    {
+      kind,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [["h", GROUP_ID]],
+      content,
+    },
+    secretKey
+  );
+}
+
+describe("Relay", () => {
+  const cleanup: (() => void)[] = [];
+
+  afterEach(() => {
+    cleanup.splice(0).forEach((fn) => fn());
+  });
+
+  describe("Rate limits", () => {
+    it("should reject events over a write capability's rate limit", async () => {
+      const { relay, groupKey } = await setupRelay();
+      const client = await connect(relay);
+      cleanup.push(() => client.close(), () => relay.stop());
+
+      const memberKey = generateSecretKey();
+      const member = getPublicKey(memberKey);
+      const rateLimit = { count: 3, periodSeconds: 60 };
+
+      expect(await client.publish(grant(groupKey, member, "write", { rateLimit }))).toEqual([true, ""]);
+      relay.addMember(GROUP_ID, member);
+
+      for (let i = 0; i < 3; i++) {
+        expect(await client.publish(chatMessage(memberKey, `message ${i}`))).toEqual([true, ""]);
+      }
+
+      // Being a member does not lift the capability's limit
+      const [accepted, reason] = await client.publish(chatMessage(memberKey, "one too many"));
+      expect(accepted).toBe(false);
+      expect(reason).toMatch(/^rate-limited: try again in \d+s$/);
+
+      // Other holders have their own budget
+      const otherKey = generateSecretKey();
+      await client.publish(grant(groupKey, getPublicKey(otherKey), "write", { rateLimit }));
+      expect(await client.publish(chatMessage(otherKey, "hello"))).toEqual([true, ""]);
+    });
+
+    it("should keep rate limit usage across restarts with a persistent store", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "nkg-relay-"));
+      const path = join(dir, "rate-limits.json");
+      cleanup.push(() => rmSync(dir, { recursive: true, force: true }));
+
+      const memberKey = generateSecretKey();
+      const rateLimit = { count: 2, periodSeconds: 60 };
+
+      const { relay, groupKey } = await setupRelay({ rateLimitStore: new FileRateLimitStore(path) });
+      const capability = grant(groupKey, getPublicKey(memberKey), "write", { rateLimit });
+
+      const client = await connect(relay);
+      await client.publish(capability);
+      expect((await client.publish(chatMessage(memberKey, "first")))[0]).toBe(true);
+      expect((await client.publish(chatMessage(memberKey, "second")))[0]).toBe(true);
+      client.close();
+      relay.stop();
+
+      // The restarted relay is handed the same capability and finds its usage
+      const restarted = await setupRelay({ rateLimitStore: new FileRateLimitStore(path) }, groupKey);
+      const restartedClient = await connect(restarted.relay);
+      cleanup.push(() => restartedClient.close(), () => restarted.relay.stop());
+
+      expect((await restartedClient.publish(capability))[0]).toBe(true);
+      const [accepted, reason] = await restartedClient.publish(chatMessage(memberKey, "third"));
+      expect(accepted).toBe(false);
+      expect(reason).toMatch(/^rate-limited:/);
+    });
+
+    it("should count delegated uses against the grant they descend from", async () => {
+      const { relay, groupKey } = await setupRelay();
+      const client = await connect(relay);
+      cleanup.push(() => client.close(), () => relay.stop());
+
+      const rateLimit = { count: 2, periodSeconds: 60 };
+      const aliceKey = generateSecretKey();
+      const aliceGrant = grant(groupKey, getPublicKey(aliceKey), "delegate", { kinds: [9], rateLimit });
+      await client.publish(aliceGrant);
+
+      const delegateeKeys = [generateSecretKey(), generateSecretKey()];
+      for (const key of delegateeKeys) {
+        const delegation = createCapabilityDelegationEvent(
+          aliceGrant.id,
+          getPublicKey(key),
+          getPublicKey(aliceKey),
+          "write",
+          { qualifiers: { kinds: [9], rateLimit }, groupId: GROUP_ID }
+        );
+        expect(await client.publish(finalizeEvent(delegation, aliceKey))).toEqual([true, ""]);
+      }
+
+      // Delegating twice does not double the grant's budget
+      expect(await client.publish(chatMessage(delegateeKeys[0]!, "first"))).toEqual([true, ""]);
+      expect(await client.publish(chatMessage(delegateeKeys[1]!, "second"))).toEqual([true, ""]);
+      const [accepted, reason] = await client.publish(chatMessage(delegateeKeys[1]!, "third"));
+      expect(accepted).toBe(false);
+      expect(reason).toMatch(/^rate-limited:/);
+    });
+
+    it("should only authorize writes with capabilities from the event's group", async () => {
+      const { relay } = await setupRelay();
+      const client = await connect(relay);
+      cleanup.push(() => client.close(), () => relay.stop());
+
+      const otherKey = generateSecretKey();
+      relay.createGroup({
+        id: "other-group",
+        name: "Other group",
+        visibility: "public",
+        access: "closed",
+        pubkey: getPublicKey(otherKey),
+      });
+
+      const memberKey = generateSecretKey();
+      const otherGrant = createCapabilityGrantEvent(
+        getPublicKey(memberKey),
+        "write",
+        getPublicKey(otherKey),
+        { groupId: "other-group" }
+      );
+      expect(await client.publish(finalizeEvent(otherGrant, otherKey))).toEqual([true, ""]);
+
+      expect(await client.publish(chatMessage(memberKey, "wrong group"))).toEqual([
+        false,
+        "restricted: not authorized",
+      ]);
+    });
+
+    it("should batch writes, prune old uses and survive a corrupt file", () => {
+      const dir = mkdtempSync(join(tmpdir(), "nkg-relay-"));
+      const path = join(dir, "rate-limits.json");
+      cleanup.push(() => rmSync(dir, { recursive: true, force: true }));
+
+      writeFileSync(path, "{not json");
+      const store = new FileRateLimitStore(path, { maxPeriodSeconds: 60 });
+      expect(store.get("grant:holder")).toBeUndefined();
+
+      const now = Math.floor(Date.now() / 1000);
+      store.set("old:holder", [now - 120]);
+      store.set("grant:holder", [now - 90, now - 10, now]);
+      expect(readFileSync(path, "utf8")).toBe("{not json");
+
+      store.flush();
+      expect(JSON.parse(readFileSync(path, "utf8"))).toEqual({ "grant:holder": [now - 10, now] });
+      expect(new FileRateLimitStore(path).get("grant:holder")).toEqual([now - 10, now]);
+    });
+  });
+
+  describe("Private groups", () => {
+    it("should require AUTH and membership to subscribe", async () => {
+      const { relay } = await setupRelay({}, generateSecretKey(), "private");
+      const memberKey = generateSecretKey();
+      relay.addMember(GROUP_ID, getPublicKey(memberKey));
+
+      const member = await connect(relay);
+      const outsider = await connect(relay);
+      cleanup.push(() => member.close(), () => outsider.close(), () => relay.stop());
+
+      expect(await member.publish(chatMessage(memberKey, "secret"))).toEqual([true, ""]);
+
+      expect(await outsider.subscribe("before-auth", { "#h": [GROUP_ID] })).toMatch(/^auth-required:/);
+      expect(await outsider.auth(generateSecretKey())).toEqual([true, ""]);
+      expect(await outsider.subscribe("after-auth", { "#h": [GROUP_ID] })).toMatch(/^restricted:/);
+
+      // Filters without an h tag are answered, but without the group's events
+      expect(await outsider.subscribe("all", { kinds: [9] })).toEqual([]);
+
+      expect(await member.subscribe("before-auth", { "#h": [GROUP_ID] })).toMatch(/^auth-required:/);
+      expect(await member.auth(memberKey)).toEqual([true, ""]);
+      const events = await member.subscribe("member", { "#h": [GROUP_ID] });
+      expect((events as Event[]).map((e) => e.content)).toEqual(["secret"]);
+    });
+
+    it("should only serve events covered by a read capability", async () => {
+      const { relay, groupKey } = await setupRelay({}, generateSecretKey(), "private");
+      const memberKey = generateSecretKey();
+      relay.addMember(GROUP_ID, getPublicKey(memberKey));
+
+      const readerKey = generateSecretKey();
+      const member = await connect(relay);
+      const reader = await connect(relay);
+      cleanup.push(() => member.close(), () => reader.close(), () => relay.stop());
+
+      await member.publish(grant(groupKey, getPublicKey(readerKey), "read", { kinds: [9] }));
+      await member.publish(chatMessage(memberKey, "chat"));
+      await member.publish(chatMessage(memberKey, "thread", 11));
+
+      await reader.subscribe("before-auth", { "#h": [GROUP_ID] });
+      await reader.auth(readerKey);
+      const events = await reader.subscribe("reader", { kinds: [9, 11], "#h": [GROUP_ID] });
+      expect((events as Event[]).map((e) => e.content)).toEqual(["chat"]);
+
+      // Live events are filtered the same way
+      await member.publish(chatMessage(memberKey, "live thread", 11));
+      await member.publish(chatMessage(memberKey, "live chat"));
+      await reader.next((m) => m[0] === "EVENT" && (m[2] as Event).content === "live chat");
+
+      const live = reader.messages.filter((m) => m[0] === "EVENT").map((m) => (m[2] as Event).content);
+      expect(live).toEqual(["chat", "live chat"]);
+    });
+
+    it("should not leak events published on behalf of the group", async () => {
+      const { relay, groupKey } = await setupRelay({}, generateSecretKey(), "private");
+      const memberKey = generateSecretKey();
+      const outsiderKey = generateSecretKey();
+      relay.addMember(GROUP_ID, getPublicKey(memberKey));
+
+      const member = await connect(relay);
+      const outsider = await connect(relay);
+      cleanup.push(() => member.close(), () => outsider.close(), () => relay.stop());
+
+      for (const [client, key] of [[member, memberKey], [outsider, outsiderKey]] as const) {
+        await client.subscribe("before-auth", { "#h": [GROUP_ID] });
+        await client.auth(key);
+        await client.subscribe("live", { kinds: [1] });
+      }
+
+      const capability = grant(groupKey, getPublicKey(memberKey), "publish", { kinds: [1] });
+      await member.publish(capability);
+      const note = finalizeEvent(
+        createPublishedEvent(
+          { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: "members only" },
+          getPublicKey(groupKey),
+          capability.id
+        ),
+        memberKey
+      );
+      expect(await member.publish(note)).toEqual([true, ""]);
+      await member.next((m) => m[0] === "EVENT" && m[1] === "live");
+
+      expect(await outsider.subscribe("stored", { kinds: [1] })).toEqual([]);
+      expect(outsider.messages.filter((m) => m[0] === "EVENT")).toEqual([]);
+      const stored = await member.subscribe("stored", { kinds: [1] });
+      expect((stored as Event[]).map((e) => e.id)).toEqual([note.id]);
+    });
+  });
+
+  describe("Publishing on behalf of the group", () => {
+    it("should accept events covered by the author's publish capability", async () => {
+      const { relay, groupKey } = await setupRelay();
+      const client = await connect(relay);
+      const subscriber = await connect(relay);
+      cleanup.push(() => client.close(), () => subscriber.close(), () => relay.stop());
+
+      const authorKey = generateSecretKey();
+      const capability = grant(groupKey, getPublicKey(authorKey), "publish", { kinds: [1] });
+      await client.publish(capability);
+      await subscriber.subscribe("notes", { kinds: [1] });
+
+      const note = (kind: number, secretKey = authorKey) =>
+        finalizeEvent(
+          createPublishedEvent(
+            { kind, created_at: Math.floor(Date.now() / 1000), tags: [], content: "news" },
+            getPublicKey(groupKey),
+            capability.id
+          ),
+          secretKey
+        );
+
+      const accepted = note(1);
+      expect(await client.publish(accepted)).toEqual([true, ""]);
+      const received = await subscriber.next((m) => m[0] === "EVENT" && m[1] === "notes");
+      expect((received[2] as Event).id).toBe(accepted.id);
+
+      expect(await client.publish(note(30023))).toEqual([
+        false,
+        "restricted: Referenced capability does not cover this event",
+      ]);
+      expect(await client.publish(note(1, generateSecretKey()))).toEqual([
+        false,
+        "restricted: Referenced capability not found",
+      ]);
+    });
+  });
+
+  describe("Moderation", () => {
+    const moderation = (secretKey: Uint8Array, kind: number, tags: string[][], content = "") =>
+      finalizeEvent(
+        { kind, created_at: Math.floor(Date.now() / 1000), tags: [["h", GROUP_ID], ...tags], content },
+        secretKey
+      );
+
+    it("should authorize moderation through capabilities from the group key", async () => {
+      const { relay, groupKey } = await setupRelay();
+      const client = await connect(relay);
+      cleanup.push(() => client.close(), () => relay.stop());
+
+      const memberKey = generateSecretKey();
+      const moderatorKey = generateSecretKey();
+      const moderator = getPublicKey(moderatorKey);
+      relay.addMember(GROUP_ID, getPublicKey(memberKey));
+
+      const message = chatMessage(memberKey, "spam");
+      await client.publish(message);
+      const deletion = (reason: string) => moderation(moderatorKey, 9005, [["e", message.id]], reason);
+
+      // A delete capability without the moderation kind does not make an admin
+      await client.publish(grant(groupKey, moderator, "delete"));
+      expect(await client.publish(deletion("first try"))).toEqual([false, "restricted: not admin"]);
+      expect(relay.getGroupAdmins(GROUP_ID)).toEqual([]);
+
+      await client.publish(grant(groupKey, moderator, "delete", { kinds: [9005] }));
+      expect(relay.getGroupAdmins(GROUP_ID)).toEqual([
+        { pubkey: moderator, label: "moderator", permissions: ["delete-event"] },
+      ]);
+      expect(await client.publish(deletion("spam"))).toEqual([true, ""]);
+      expect(await client.subscribe("messages", { kinds: [9] })).toEqual([]);
+
+      // The moderator may not add users, and neither may members
+      const added = getPublicKey(generateSecretKey());
+      expect(await client.publish(moderation(moderatorKey, 9000, [["p", added]]))).toEqual([
+        false,
+        "restricted: not admin",
+      ]);
+      expect(await client.publish(moderation(memberKey, 9000, [["p", added]]))).toEqual([
+        false,
+        "restricted: not admin",
+      ]);
+
+      // The group key moderates directly
+      expect(await client.publish(moderation(groupKey, 9000, [["p", added]]))).toEqual([true, ""]);
+      expect(relay.isMember(GROUP_ID, added)).toBe(true);
+    });
+
+    it("should still honor admins passed to createGroup", async () => {
+      const relay = new Relay({ port: 0 });
+      relay.start();
+      await relay.ready();
+      const client = await connect(relay);
+      cleanup.push(() => client.close(), () => relay.stop());
+
+      const adminKey = generateSecretKey();
+      const admin: GroupAdmin = { pubkey: getPublicKey(adminKey), label: "admin", permissions: ["add-user"] };
+      relay.createGroup(
+        {
+          id: GROUP_ID,
+          name: "Test group",
+          visibility: "public",
+          access: "closed",
+          pubkey: getPublicKey(generateSecretKey()),
+        },
+        [admin]
+      );
+      expect(relay.getGroupAdmins(GROUP_ID)).toEqual([admin]);
+
+      const added = getPublicKey(generateSecretKey());
+      expect(await client.publish(moderation(adminKey, 9000, [["p", added]]))).toEqual([true, ""]);
+      expect(relay.isMember(GROUP_ID, added)).toBe(true);
+      expect(await client.publish(moderation(adminKey, 9001, [["p", added]]))).toEqual([
+        false,
+        "restricted: not admin",
+      ]);
+    });
+  });
+
+  describe("Delegation", () => {
+    it("should accept delegations and drop them when an ancestor is revoked", async () => {
+      const { relay, groupKey } = await setupRelay();
+      const client = await connect(relay);
+      cleanup.push(() => client.close(), () => relay.stop());
+
+      const aliceKey = generateSecretKey();
+      const bobKey = generateSecretKey();
+      const bob = getPublicKey(bobKey);
+      const delegation = (parentId: string, secretKey: Uint8Array) =>
+        finalizeEvent(
+          createCapabilityDelegationEvent(parentId, bob, getPublicKey(secretKey), "write", {
+            qualifiers: { kinds: [9] },
+            groupId: GROUP_ID,
+          }),
+          secretKey
+        );
+
+      const aliceGrant = grant(groupKey, getPublicKey(aliceKey), "delegate", { kinds: [9, 11] });
+      await client.publish(aliceGrant);
+
+      // Only the holder of the parent capability may delegate from it
+      expect(await client.publish(delegation(aliceGrant.id, bobKey))).toEqual([
+        false,
+        "invalid: Delegation not signed by capability holder",
+      ]);
+      expect(await client.publish(delegation(aliceGrant.id, aliceKey))).toEqual([true, ""]);
+      expect(await client.publish(chatMessage(bobKey, "delegated"))).toEqual([true, ""]);
+
+      // Revoking Alice's grant also revokes what she delegated
+      const revocation = createCapabilityRevocationEvent(aliceGrant.id, getPublicKey(groupKey));
+      revocation.tags.push(["h", GROUP_ID]);
+      expect(await client.publish(finalizeEvent(revocation, groupKey))).toEqual([true, ""]);
+      expect(await client.publish(chatMessage(bobKey, "revoked"))).toEqual([
+        false,
+        "restricted: not authorized",
+      ]);
+    });
+  });
+
+  describe("Protocol events", () => {
+    it("should only forward protocol kinds from admins", async () => {
+      const authorKey = generateSecretKey();
+      const { relay, groupKey } = await setupRelay({
+        protocolKinds: [28011],
+        protocolAuthors: [getPublicKey(authorKey)],
+      });
+      const client = await connect(relay);
+      cleanup.push(() => client.close(), () => relay.stop());
+
+      const moderatorKey = generateSecretKey();
+      await client.publish(grant(groupKey, getPublicKey(moderatorKey), "delete", { kinds: [9005] }));
+
+      const protocolEvent = (secretKey: Uint8Array) =>
+        finalizeEvent(
+          { kind: 28011, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+          secretKey
+        );
+
+      expect(await client.publish(protocolEvent(authorKey))).toEqual([true, ""]);
+      expect(await client.publish(protocolEvent(groupKey))).toEqual([true, ""]);
+      expect(await client.publish(protocolEvent(moderatorKey))).toEqual([true, ""]);
+      expect(await client.publish(protocolEvent(generateSecretKey()))).toEqual([
+        false,
+        "restricted: not admin",
+      ]);
+      expect(await client.subscribe("protocol", { kinds: [28011] })).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { verifyEvent } from "nostr-tools";
+import { getGroupNostrPubkey, SIGNING_EVENT_KINDS } from "@nkg/signer";
+import { createRng, waitFor, Simulation, type SimulationConfig } from "./simulation.js";
+
+const note = (content: string) => ({
+  kind: 1,
+  created_at: Math.floor(Date.now() / 1000),
+  tags: [],
+  content,
+});
+
+/**
+ * Run a test against a simulation, stopping it afterwards
+ */
+async function simulate(config: SimulationConfig, run: (sim: Simulation) => Promise<void>) {
+  const sim = await Simulation.start(config);
+  try {
+    await run(sim);
+  } finally {
+    sim.stop();
+  }
+}
+
+describe("Simulation", () => {
+  it("should replay admin keys and faults from the same seed", async () => {
+    expect(Array.from({ length: 3 }, createRng(7).next)).toEqual(
+      Array.from({ length: 3 }, createRng(7).next)
+    );
+
+    const config = { seed: 7, threshold: 2, admins: 3, faults: { 2: { delayMs: [5, 50] as [number, number] } } };
+    const runs: unknown[] = [];
+
+    for (let i = 0; i < 2; i++) {
+      await simulate(config, async (sim) => {
+        await sim.runDKG();
+        runs.push({ participants: sim.participants, faults: sim.injected });
+      });
+    }
+
+    expect(runs[0]).toEqual(runs[1]);
+  });
+
+  it("should run DKG, refresh and signing over the relay with delayed messages", async () => {
+    const config = {
+      seed: 1,
+      threshold: 3,
+      admins: 5,
+      faults: {
+        2: { delayMs: [10, 80] as [number, number] },
+        4: { delayMs: [0, 40] as [number, number] },
+      },
+    };
+
+    await simulate(config, async (sim) => {
+      const { groupPubkey, keyPackages, disqualified } = await sim.runDKG();
+      expect(keyPackages.size).toBe(5);
+      expect(disqualified).toEqual([]);
+
+      sim.startCoordinators();
+      const refreshed = await sim.admin(3).refresher!.refresh();
+      expect(refreshed.groupPubkey).toBe(groupPubkey);
+
+      // Every admin applies the refresh once it sees all confirmations
+      await waitFor(() =>
+        sim.admins.every((a) => a.keyPackage!.share.seckey !== keyPackages.get(a.idx)!.share.seckey)
+      );
+
+      // Sign with the refreshed shares
+      sim.startCoordinators();
+      const signed = await sim.admin(1).signer!.sign(note("hello from the simulation"), [1, 2, 4]);
+      expect(signed.pubkey).toBe(getGroupNostrPubkey(groupPubkey));
+      expect(verifyEvent(signed)).toBe(true);
+      expect(sim.injected.filter((f) => f.action === "delayed").length).toBeGreaterThan(0);
+    });
+  });
+
+  it("should disqualify an admin who sends corrupt DKG shares", async () => {
+    const config: SimulationConfig = {
+      seed: 2,
+      threshold: 2,
+      admins: 4,
+      malicious: { 3: "corrupt-shares" },
+    };
+
+    await simulate(config, async (sim) => {
+      const { keyPackages, disqualified } = await sim.runDKG();
+      expect(disqualified).toEqual([3]);
+      expect(Array.from(keyPackages.keys())).toEqual([1, 2, 4]);
+
+      sim.startCoordinators();
+      const signed = await sim.admin(4).signer!.sign(note("without admin 3"), [2, 4]);
+      expect(verifyEvent(signed)).toBe(true);
+    });
+  });
+
+  it("should sign around an offline admin and one withholding partial signatures", async () => {
+    const config: SimulationConfig = {
+      seed: 3,
+      threshold: 2,
+      admins: 4,
+      malicious: { 2: "withhold-partials" },
+      timeoutMs: 1000,
+    };
+
+    await simulate(config, async (sim) => {
+      await sim.runDKG();
+      sim.startCoordinators();
+
+      // Admin 3 goes offline and admin 4 is slow to answer
+      sim.setFaults(3, { dropRate: 1 });
+      sim.setFaults(4, { delayMs: [200, 300] });
+
+      const { event, stalled } = await sim.admin(1).signer!.signRobust(note("robust"));
+      expect(verifyEvent(event)).toBe(true);
+      expect(stalled).toEqual([2]);
+      expect(sim.injected).toContainEqual({
+        idx: 2,
+        kind: SIGNING_EVENT_KINDS.PARTIAL_SIGNATURE,
+        action: "dropped",
+      });
+      expect(sim.injected).toContainEqual({
+        idx: 3,
+        kind: SIGNING_EVENT_KINDS.NONCE_COMMITMENT,
+        action: "dropped",
+      });
+    });
+  });
+});
@@ -0,0 +1,797 @@
+/**
+ * @nkg/relay - Deterministic simulation of a group's admins
+ *
+ * Starts the relay in-process on a free port and connects one WebSocket
+ * per virtual admin. The admins run DKG, share refresh and signing with
+ * the real @nkg/signer protocol events. Faults are injected on each
+ * admin's outgoing messages: delays, drops, and admins that misbehave.
+ * Admin keys, session IDs, delays and drops are drawn from a seeded
+ * generator (one stream per admin), so a failing run can be replayed.
+ */
+
+import { WebSocket } from "ws";
+import { finalizeEvent, getPublicKey, nip44, type Event, type Filter } from "nostr-tools";
+import {
+  createDKGSession,
+  generateRound1Package,
+  processRound1Package,
+  generateRound2Packages,
+  processRound2Package,
+  processComplaint,
+  generateJustification,
+  processJustification,
+  resolveComplaints,
+  finalizeDKG,
+  RefreshCoordinator,
+  SigningCoordinator,
+  DKG_EVENT_KINDS,
+  REFRESH_EVENT_KINDS,
+  SIGNING_EVENT_KINDS,
+  TRANSCRIPT_EVENT_KINDS,
+  PROTOCOL_TAGS,
+  type DKGComplaint,
+  type DKGJustification,
+  type DKGRound1Package,
+  type DKGRound2Package,
+  type DKGSession,
+  type KeyPackage,
+  type ProtocolTransport,
+} from "@nkg/signer";
+
+import { Relay } from "../src/index.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Seeded pseudo-random number generator */
+export interface Rng {
+  /** Next number in [0, 1) */
+  next(): number;
+  /** Next integer in [min, max] */
+  int(min: number, max: number): number;
+  /** Next random bytes */
+  bytes(length: number): Uint8Array;
+}
+
+/** Faults injected on an admin's outgoing messages */
+export interface AdminFaults {
+  /** Range to delay each message by (ms) */
+  delayMs?: [number, number];
+  /** Probability of dropping a message */
+  dropRate?: number;
+  /** Only drop messages of these kinds (all kinds if omitted) */
+  dropKinds?: number[];
+}
+
+/**
+ * Ways a malicious admin deviates from the protocols
+ *
+ * - corrupt-shares: sends random DKG shares and never justifies them
+ * - withhold-partials: commits signing nonces but never sends a partial signature
+ */
+export type Misbehavior = "corrupt-shares" | "withhold-partials";
+
+/** Simulation configuration */
+export interface SimulationConfig {
+  /** Seed for admin keys, session IDs and injected faults */
+  seed: number;
+  /** Minimum number of admins needed to sign */
+  threshold: number;
+  /** Number of admins */
+  admins: number;
+  /** Faults by admin index */
+  faults?: Record<number, AdminFaults>;
+  /** Misbehaving admins by index */
+  malicious?: Record<number, Misbehavior>;
+  /** How long admins wait for accused participants to justify their shares (ms) */
+  complaintTimeoutMs?: number;
+  /** How long coordinators wait for a session to complete (ms) */
+  timeoutMs?: number;
+}
+
+/** A fault injected by the simulation */
+export interface FaultRecord {
+  /** Index of the sending admin */
+  idx: number;
+  /** Kind of the affected message */
+  kind: number;
+  /** What happened to the message */
+  action: "dropped" | "delayed";
+  /** Delay applied (ms) */
+  delayMs?: number;
+}
+
+/** Outcome of a simulated DKG ceremony */
+export interface DKGOutcome {
+  /** Group public key agreed on by the honest admins */
+  groupPubkey: string;
+  /** Key packages of the honest admins, by index */
+  keyPackages: Map<number, KeyPackage>;
+  /** Participants disqualified during the ceremony */
+  disqualified: number[];
+}
+
+// ============================================================================
+// Seeded Randomness
+// ============================================================================
+
+/**
+ * Create a seeded generator (mulberry32)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    bytes: (length) => Uint8Array.from({ length }, () => Math.floor(next() * 256)),
+  };
+}
+
+/**
+ * Wait until a condition holds, such as every admin applying a refresh
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+/**
+ * WebSocket connection of one admin to the relay, with fault injection
+ */
+export class SimulatedTransport implements ProtocolTransport {
+  private ws: WebSocket;
+  private idx: number;
+  private rng: Rng;
+  private faults: AdminFaults;
+  private log: FaultRecord[];
+  private subscriptions: Map<string, (event: Event) => void> = new Map();
+  private pending: Map<string, { resolve: () => void; reject: (error: Error) => void }> = new Map();
+  private nextSubscription = 0;
+
+  private constructor(ws: WebSocket, idx: number, rng: Rng, faults: AdminFaults, log: FaultRecord[]) {
+    this.ws = ws;
+    this.idx = idx;
+    this.rng = rng;
+    this.faults = faults;
+    this.log = log;
+
+    ws.on("message", (data) => this.handleMessage(JSON.parse(data.toString())));
+    ws.on("close", () => {
+      for (const { reject } of this.pending.values()) {
+        reject(new Error("Connection closed"));
+      }
+      this.pending.clear();
+    });
+  }
+
+  /**
+   * Connect an admin to the relay
+   */
+  static connect(
+    url: string,
+    idx: number,
+    rng: Rng,
+    faults: AdminFaults,
+    log: FaultRecord[]
+  ): Promise<SimulatedTransport> {
+    const ws = new WebSocket(url);
+
+    return new Promise((resolve, reject) => {
+      ws.once("open", () => resolve(new SimulatedTransport(ws, idx, rng, faults, log)));
+      ws.once("error", reject);
+    });
+  }
+
+  /**
+   * Publish an event, unless the simulation drops it
+   *
+   * Dropped messages resolve like delivered ones: the sender cannot tell.
+   */
+  async publish(event: Event): Promise<unknown> {
+    const { delayMs, dropRate, dropKinds } = this.faults;
+
+    if (dropRate && (!dropKinds || dropKinds.includes(event.kind)) && this.rng.next() < dropRate) {
+      this.log.push({ idx: this.idx, kind: event.kind, action: "dropped" });
+      return;
+    }
+
+    if (delayMs) {
+      const delay = this.rng.int(delayMs[0], delayMs[1]);
+      this.log.push({ idx: this.idx, kind: event.kind, action: "delayed", delayMs: delay });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    if (this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error("Connection closed");
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.pending.set(event.id, { resolve, reject });
+      this.ws.send(JSON.stringify(["EVENT", event]));
+    });
+  }
+
+  /**
+   * Subscribe to events matching the filters
+   */
+  subscribe(id: string, filters: Filter[], callback: (event: Event) => void): () => void {
+    const subId = `${id}-${this.nextSubscription++}`;
+    this.subscriptions.set(subId, callback);
+    this.ws.send(JSON.stringify(["REQ", subId, ...filters]));
+
+    return () => {
+      this.subscriptions.delete(subId);
+      if (this.ws.readyState === WebSocket.OPEN) {
+        this.ws.send(JSON.stringify(["CLOSE", subId]));
+      }
+    };
+  }
+
+  /**
+   * Change the faults injected from now on
+   */
+  setFaults(faults: AdminFaults): void {
+    this.faults = faults;
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.ws.close();
+  }
+
+  private handleMessage(message: unknown[]): void {
+    const [type] = message;
+
+    if (type === "EVENT") {
+      this.subscriptions.get(message[1] as string)?.(message[2] as Event);
+    } else if (type === "OK") {
+      const pending = this.pending.get(message[1] as string);
+      if (!pending) return;
+
+      this.pending.delete(message[1] as string);
+      if (message[2]) {
+        pending.resolve();
+      } else {
+        pending.reject(new Error(message[3] as string));
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Simulated Admins
+// ============================================================================
+
+/**
+ * A virtual admin with its own keypair and relay connection
+ */
+export interface SimulatedAdmin {
+  /** Share index (1-based) */
+  idx: number;
+  /** Nostr secret key */
+  secretKey: string;
+  /** Nostr pubkey */
+  pubkey: string;
+  /** Relay connection */
+  transport: SimulatedTransport;
+  /** How the admin misbehaves, if at all */
+  misbehavior?: Misbehavior;
+  /** Key package from DKG or the latest refresh */
+  keyPackage?: KeyPackage;
+  /** Signing coordinator, once started */
+  signer?: SigningCoordinator;
+  /** Refresh coordinator, once started */
+  refresher?: RefreshCoordinator;
+}
+
+/**
+ * A relay with N virtual admins connected to it
+ */
+export class Simulation {
+  readonly relay: Relay;
+  readonly admins: SimulatedAdmin[];
+  /** Faults injected so far, in the order they happened */
+  readonly injected: FaultRecord[];
+  private config: SimulationConfig;
+  private rng: Rng;
+
+  private constructor(
+    config: SimulationConfig,
+    relay: Relay,
+    admins: SimulatedAdmin[],
+    injected: FaultRecord[],
+    rng: Rng
+  ) {
+    this.config = config;
+    this.relay = relay;
+    this.admins = admins;
+    this.injected = injected;
+    this.rng = rng;
+  }
+
+  /**
+   * Start the relay and connect the admins
+   */
+  static async start(config: SimulationConfig): Promise<Simulation> {
+    const adminRngs = Array.from({ length: config.admins }, (_, i) =>
+      createRng(config.seed * 1000 + i + 1)
+    );
+    const secretKeys = adminRngs.map((adminRng) => bytesToHex(adminRng.bytes(32)));
+
+    // The group does not exist yet during DKG, so the admins are listed up front
+    const relay = new Relay({
+      port: 0,
+      protocolKinds: [
+        ...Object.values(DKG_EVENT_KINDS),
+        ...Object.values(SIGNING_EVENT_KINDS),
+        ...Object.values(REFRESH_EVENT_KINDS),
+        ...Object.values(TRANSCRIPT_EVENT_KINDS),
+      ],
+      protocolAuthors: secretKeys.map((sk) => getPublicKey(hexToBytes(sk))),
+    });
+    relay.start();
+    await relay.ready();
+
+    const rng = createRng(config.seed);
+    const injected: FaultRecord[] = [];
+    const admins: SimulatedAdmin[] = [];
+
+    for (let idx = 1; idx <= config.admins; idx++) {
+      const adminRng = adminRngs[idx - 1]!;
+      const secretKey = secretKeys[idx - 1]!;
+      const misbehavior = config.malicious?.[idx];
+
+      const transport = await SimulatedTransport.connect(
+        `ws://localhost:${relay.getPort()}`,
+        idx,
+        adminRng,
+        withMisbehavior(config.faults?.[idx] ?? {}, misbehavior),
+        injected
+      );
+
+      admins.push({
+        idx,
+        secretKey,
+        pubkey: getPublicKey(hexToBytes(secretKey)),
+        transport,
+        ...(misbehavior && { misbehavior }),
+      });
+    }
+
+    return new Simulation(config, relay, admins, injected, rng);
+  }
+
+  /**
+   * Admin nostr pubkeys, ordered by index
+   */
+  get participants(): string[] {
+    return this.admins.map((a) => a.pubkey);
+  }
+
+  /**
+   * Get an admin by share index
+   */
+  admin(idx: number): SimulatedAdmin {
+    const admin = this.admins[idx - 1];
+    if (!admin) {
+      throw new Error(`No admin with index ${idx}`);
+    }
+    return admin;
+  }
+
+  /**
+   * Change the faults injected on an admin's outgoing messages
+   */
+  setFaults(idx: number, faults: AdminFaults): void {
+    const admin = this.admin(idx);
+    admin.transport.setFaults(withMisbehavior(faults, admin.misbehavior));
+  }
+
+  /**
+   * Run a DKG ceremony started by admin 1
+   *
+   * Resolves once every honest admin has finalized its key package.
+   */
+  async runDKG(timeoutMs = 10000): Promise<DKGOutcome> {
+    const sessionId = bytesToHex(this.rng.bytes(32));
+    const honest = this.admins.filter((a) => a.misbehavior !== "corrupt-shares");
+    const ceremonies = this.admins.map(
+      (admin) =>
+        new DKGParticipant(admin, this.participants, sessionId, {
+          threshold: this.config.threshold,
+          complaintTimeoutMs: this.config.complaintTimeoutMs ?? 300,
+          rng: this.rng,
+        })
+    );
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      ceremonies[0]!.initiate();
+      const results = await Promise.race([
+        Promise.all(
+          ceremonies.filter((c) => honest.includes(c.admin)).map((c) => c.result)
+        ),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("DKG timed out")), timeoutMs);
+        }),
+      ]);
+
+      const groupPubkeys = new Set(results.map((r) => r.keyPackage.groupPubkey));
+      if (groupPubkeys.size !== 1) {
+        throw new Error("Honest admins derived different group keys");
+      }
+
+      for (const [i, admin] of honest.entries()) {
+        admin.keyPackage = results[i]!.keyPackage;
+      }
+
+      return {
+        groupPubkey: results[0]!.keyPackage.groupPubkey,
+        keyPackages: new Map(honest.map((a) => [a.idx, a.keyPackage!])),
+        disqualified: results[0]!.disqualified,
+      };
+    } finally {
+      clearTimeout(timer);
+      ceremonies.forEach((c) => c.stop());
+    }
+  }
+
+  /**
+   * Start signing and refresh coordinators for every admin holding a share
+   */
+  startCoordinators(): void {
+    const participants = this.participants;
+    const timeoutMs = this.config.timeoutMs ?? 2000;
+
+    for (const admin of this.admins) {
+      const keyPackage = admin.keyPackage;
+      if (!keyPackage) continue;
+
+      admin.signer?.stop();
+      admin.refresher?.stop();
+
+      admin.signer = new SigningCoordinator({
+        transport: admin.transport,
+        keyPackage,
+        participants,
+        secretKey: admin.secretKey,
+        timeoutMs,
+      });
+      admin.refresher = new RefreshCoordinator({
+        transport: admin.transport,
+        keyPackage,
+        participants,
+        secretKey: admin.secretKey,
+        timeoutMs,
+        onRefresh: (refreshed) => {
+          admin.keyPackage = refreshed;
+        },
+      });
+
+      admin.signer.start();
+      admin.refresher.start();
+    }
+  }
+
+  /**
+   * Stop all coordinators, disconnect the admins and stop the relay
+   */
+  stop(): void {
+    for (const admin of this.admins) {
+      admin.signer?.stop();
+      admin.refresher?.stop();
+      admin.transport.close();
+    }
+    this.relay.stop();
+  }
+}
+
+// ============================================================================
+// DKG over the relay
+// ============================================================================
+
+/**
+ * One admin's side of a DKG ceremony, exchanging the same events as the
+ * chat client
+ */
+class DKGParticipant {
+  readonly admin: SimulatedAdmin;
+  readonly result: Promise<{ keyPackage: KeyPackage; disqualified: number[] }>;
+  private participants: string[];
+  private sessionId: string;
+  private options: { threshold: number; complaintTimeoutMs: number; rng: Rng };
+  private session: DKGSession | null = null;
+  private early: Event[] = [];
+  private complaintTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: () => void;
+  private resolve!: (result: { keyPackage: KeyPackage; disqualified: number[] }) => void;
+  private reject!: (error: Error) => void;
+
+  constructor(
+    admin: SimulatedAdmin,
+    participants: string[],
+    sessionId: string,
+    options: { threshold: number; complaintTimeoutMs: number; rng: Rng }
+  ) {
+    this.admin = admin;
+    this.participants = participants;
+    this.sessionId = sessionId;
+    this.options = options;
+    this.result = new Promise((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+
+    // Nobody waits for the outcome of a share corrupter
+    this.result.catch(() => {});
+
+    this.unsubscribe = admin.transport.subscribe(
+      `dkg-${admin.idx}`,
+      [{ kinds: Object.values(DKG_EVENT_KINDS), since: Math.floor(Date.now() / 1000) - 60 }],
+      (event) => this.handleEvent(event)
+    );
+  }
+
+  /**
+   * Announce the ceremony to the other admins and join it
+   */
+  initiate(): void {
+    const { participants } = this;
+    const { threshold } = this.options;
+
+    this.publish(DKG_EVENT_KINDS.SESSION_INIT, [
+      ["threshold", threshold.toString()],
+      ["max_signers", participants.length.toString()],
+      ...participants.map((p) => ["p", p]),
+    ]);
+    this.join(threshold);
+  }
+
+  stop(): void {
+    this.unsubscribe();
+    if (this.complaintTimer) {
+      clearTimeout(this.complaintTimer);
+    }
+  }
+
+  private join(threshold: number): void {
+    const { participants } = this;
+
+    const { session, package: pkg } = generateRound1Package(
+      createDKGSession({
+        sessionId: this.sessionId,
+        threshold,
+        maxSigners: participants.length,
+        participants,
+        myIndex: this.admin.idx,
+        mySecretKey: this.admin.secretKey,
+      })
+    );
+    this.session = session;
+
+    this.publish(DKG_EVENT_KINDS.ROUND1_PACKAGE, [[PROTOCOL_TAGS.ROUND, "1"]], {
+      idx: pkg.idx,
+      vssCommitments: pkg.vssCommitments,
+      proofOfKnowledge: pkg.proofOfKnowledge,
+    });
+  }
+
+  private handleEvent(event: Event): void {
+    if (event.tags.find((t) => t[0] === PROTOCOL_TAGS.SESSION)?.[1] !== this.sessionId) return;
+    if (event.pubkey === this.admin.pubkey) return;
+
+    if (event.kind === DKG_EVENT_KINDS.SESSION_INIT) {
+      if (this.session) return;
+
+      const threshold = parseInt(event.tags.find((t) => t[0] === "threshold")?.[1] ?? "");
+      this.join(threshold);
+      this.replayEarly();
+      return;
+    }
+
+    // Messages can overtake each other: keep them until we can use them
+    const ready =
+      this.session &&
+      (event.kind === DKG_EVENT_KINDS.ROUND1_PACKAGE || this.session.state !== "initialized");
+    if (!ready) {
+      this.early.push(event);
+      return;
+    }
+
+    try {
+      this.process(event);
+    } catch {
+      // Invalid messages are ignored, as in the chat client
+    }
+  }
+
+  private process(event: Event): void {
+    const session = this.session!;
+    const { participants } = this;
+
+    switch (event.kind) {
+      case DKG_EVENT_KINDS.ROUND1_PACKAGE: {
+        const pkg: DKGRound1Package = JSON.parse(event.content);
+        if (participants[pkg.idx - 1] !== event.pubkey || session.round1Packages.has(pkg.idx)) return;
+
+        this.session = processRound1Package(session, pkg);
+        if (this.session.state === "round1_complete") {
+          this.sendRound2();
+          this.replayEarly();
+        }
+        return;
+      }
+      case DKG_EVENT_KINDS.ROUND2_PACKAGE: {
+        const pkg: DKGRound2Package = JSON.parse(event.content);
+        if (pkg.toIdx !== this.admin.idx || participants[pkg.fromIdx - 1] !== event.pubkey) return;
+        if (session.round2Packages.has(pkg.fromIdx)) return;
+
+        this.session = processRound2Package(session, pkg);
+
+        const complaint = this.session.complaints.find(
+          (c) => c.complainerIdx === this.admin.idx && c.accusedIdx === pkg.fromIdx
+        );
+        if (complaint) {
+          this.publish(DKG_EVENT_KINDS.COMPLAINT, [], complaint);
+        }
+        break;
+      }
+      case DKG_EVENT_KINDS.COMPLAINT: {
+        const complaint: DKGComplaint = JSON.parse(event.content);
+        if (participants[complaint.complainerIdx - 1] !== event.pubkey) return;
+
+        this.session = processComplaint(session, complaint);
+
+        // A share corrupter hopes the complaint goes unanswered
+        if (complaint.accusedIdx === this.admin.idx && this.admin.misbehavior !== "corrupt-shares") {
+          this.publish(
+            DKG_EVENT_KINDS.JUSTIFICATION,
+            [],
+            generateJustification(this.session, complaint)
+          );
+        }
+        break;
+      }
+      case DKG_EVENT_KINDS.JUSTIFICATION: {
+        const justification: DKGJustification = JSON.parse(event.content);
+        if (participants[justification.fromIdx - 1] !== event.pubkey) return;
+
+        this.session = processJustification(session, justification);
+        break;
+      }
+      default:
+        return;
+    }
+
+    this.updateProgress();
+  }
+
+  /**
+   * Send each admin its Round 2 share, or a random one when corrupting shares
+   */
+  private sendRound2(): void {
+    const { packages, session } = generateRound2Packages(this.session!);
+    this.session = session;
+
+    for (const pkg of packages) {
+      const recipient = this.participants[pkg.toIdx - 1]!;
+      const encryptedShare =
+        this.admin.misbehavior === "corrupt-shares"
+          ? nip44.v2.encrypt(
+              bytesToHex(this.options.rng.bytes(32)),
+              nip44.v2.utils.getConversationKey(hexToBytes(this.admin.secretKey), recipient)
+            )
+          : pkg.encryptedShare;
+
+      const tags = [
+        [PROTOCOL_TAGS.ROUND, "2"],
+        [PROTOCOL_TAGS.RECIPIENT, recipient],
+      ];
+
+      this.publish(DKG_EVENT_KINDS.ROUND2_PACKAGE, tags, {
+        fromIdx: pkg.fromIdx,
+        toIdx: pkg.toIdx,
+        encryptedShare,
+      });
+    }
+  }
+
+  /**
+   * Finalize, wait for complaints to be resolved, or fail
+   */
+  private updateProgress(): void {
+    const session = this.session!;
+
+    switch (session.state) {
+      case "complaints":
+        this.complaintTimer ??= setTimeout(() => {
+          this.complaintTimer = null;
+          if (this.session?.state !== "complaints") return;
+
+          this.session = resolveComplaints(this.session);
+          this.updateProgress();
+        }, this.options.complaintTimeoutMs);
+        break;
+      case "round2_complete": {
+        const { keyPackage, session: finalSession } = finalizeDKG(session);
+        this.session = finalSession;
+        this.publish(DKG_EVENT_KINDS.COMPLETION, [["group_pubkey", keyPackage.groupPubkey]]);
+        this.resolve({ keyPackage, disqualified: finalSession.disqualified });
+        break;
+      }
+      case "failed":
+        this.reject(
+          new Error(`Too many participants disqualified: ${session.disqualified.join(", ")}`)
+        );
+        break;
+    }
+  }
+
+  private replayEarly(): void {
+    const early = this.early;
+    this.early = [];
+    early.forEach((event) => this.handleEvent(event));
+  }
+
+  private publish(kind: number, tags: string[][], content?: unknown): void {
+    const event = finalizeEvent(
+      {
+        kind,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [
+          [PROTOCOL_TAGS.SESSION, this.sessionId],
+          [PROTOCOL_TAGS.INDEX, this.admin.idx.toString()],
+          ...tags,
+        ],
+        content: content === undefined ? "" : JSON.stringify(content),
+      },
+      hexToBytes(this.admin.secretKey)
+    );
+
+    this.admin.transport.publish(event).catch(() => {});
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Add the message drops a misbehaving admin relies on
+ */
+function withMisbehavior(faults: AdminFaults, misbehavior: Misbehavior | undefined): AdminFaults {
+  // Withheld partial signatures are dropped like any other message
+  return misbehavior === "withhold-partials"
+    ? { ...faults, dropRate: 1, dropKinds: [SIGNING_EVENT_KINDS.PARTIAL_SIGNATURE] }
+    : faults;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("hex");
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
@@ -0,0 +1,352 @@
+/**
+ * @nkg/signer - NIP-46 bunker backed by the group's admins
+ *
+ * Lets any NIP-46 client use the group key, which only exists as FROST
+ * shares. The bunker runs next to an admin's signing coordinator with
+ * its own nostr keypair: client requests (BUNKER_EVENT_KIND, NIP-44
+ * encrypted) for `sign_event` are checked against the bunker's policy
+ * and fanned out as a robust threshold signing session, so every other
+ * admin still applies its own signing policy. The client gets its answer
+ * once the quorum's signature has been aggregated. With a decryption
+ * coordinator, `nip44_encrypt` uses a conversation key derived by
+ * threshold ECDH. `nip44_decrypt` is not offered: any connected client
+ * could read every message sent to the group.
+ */
+
+import {
+  finalizeEvent,
+  getPublicKey,
+  nip44,
+  verifyEvent,
+  type Event,
+  type UnsignedEvent,
+} from "nostr-tools";
+import { hexToBytes } from "@noble/hashes/utils";
+
+import { getGroupNostrPubkey } from "./coordinator.js";
+import type { DecryptionCoordinator } from "./ecdh.js";
+import { evaluateSigningPolicy } from "./policy.js";
+
+import {
+  BUNKER_EVENT_KIND,
+  PROTOCOL_TAGS,
+  type BunkerConfig,
+  type BunkerRequest,
+  type BunkerResponse,
+  type Hex,
+  type Pubkey,
+} from "./types.js";
+
+// Re-export types
+export type { BunkerConfig, BunkerRequest, BunkerResponse };
+
+// ============================================================================
+// Protocol Event Creation
+// ============================================================================
+
+/**
+ * Create an encrypted NIP-46 request event (client side)
+ */
+export function createBunkerRequestEvent(
+  request: BunkerRequest,
+  bunkerPubkey: Pubkey,
+  secretKey: Hex
+): Event {
+  return createBunkerEvent(JSON.stringify(request), bunkerPubkey, secretKey);
+}
+
+/**
+ * Create an encrypted NIP-46 response event (bunker side)
+ */
+export function createBunkerResponseEvent(
+  response: BunkerResponse,
+  client: Pubkey,
+  secretKey: Hex
+): Event {
+  return createBunkerEvent(JSON.stringify(response), client, secretKey);
+}
+
+/**
+ * Decrypt the request or response carried by a NIP-46 event
+ */
+export function parseBunkerEvent<T extends BunkerRequest | BunkerResponse>(
+  event: Event,
+  secretKey: Hex
+): T {
+  const conversationKey = nip44.v2.utils.getConversationKey(
+    hexToBytes(secretKey),
+    event.pubkey
+  );
+  const message = JSON.parse(nip44.v2.decrypt(event.content, conversationKey)) as T;
+
+  if (!message || typeof message.id !== "string") {
+    throw new Error("Invalid NIP-46 message");
+  }
+
+  return message;
+}
+
+// ============================================================================
+// Bunker
+// ============================================================================
+
+/**
+ * Oldest request the bunker answers (seconds). Ids of handled requests
+ * are remembered for this long, since older ones are ignored anyway.
+ */
+const REQUEST_MAX_AGE = 600;
+
+/**
+ * Answers NIP-46 requests for the group pubkey with threshold signatures
+ */
+export class FrostBunker {
+  private config: BunkerConfig;
+  private pubkey: Pubkey;
+  private secret: string | undefined;
+  private clients: Set<Pubkey>;
+  /** Requests of authorized clients already handled, with their creation time */
+  private handled: Map<Hex, number> = new Map();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(config: BunkerConfig) {
+    this.config = config;
+    this.pubkey = getPublicKey(hexToBytes(config.secretKey));
+    this.secret = config.secret;
+    this.clients = new Set(config.authorizedClients ?? []);
+  }
+
+  /**
+   * Start listening for NIP-46 requests addressed to the bunker
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.config.transport.subscribe(
+      `bunker-${this.pubkey.slice(0, 8)}`,
+      [
+        {
+          kinds: [BUNKER_EVENT_KIND],
+          "#p": [this.pubkey],
+          since: Math.floor(Date.now() / 1000),
+        },
+      ],
+      (event) => this.handleEvent(event)
+    );
+  }
+
+  /**
+   * Stop listening for requests
+   */
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  /**
+   * Get the bunker's nostr pubkey (the remote signer pubkey of NIP-46)
+   */
+  getPubkey(): Pubkey {
+    return this.pubkey;
+  }
+
+  /**
+   * Get the bunker:// URI a client connects with
+   */
+  getBunkerUri(): string {
+    const params = new URLSearchParams();
+    for (const relay of this.config.relays) {
+      params.append("relay", relay);
+    }
+    if (this.secret) {
+      params.set("secret", this.secret);
+    }
+
+    return `bunker://${this.pubkey}?${params.toString()}`;
+  }
+
+  /**
+   * Handle an incoming NIP-46 request event
+   *
+   * Only requests of authorized clients are deduplicated, so unknown
+   * pubkeys cannot fill the handled set; they can only connect or ping.
+   */
+  handleEvent(event: Event): void {
+    if (event.kind !== BUNKER_EVENT_KIND || !verifyEvent(event)) return;
+    if (!event.tags.some((t) => t[0] === PROTOCOL_TAGS.RECIPIENT && t[1] === this.pubkey)) return;
+
+    const cutoff = Math.floor(Date.now() / 1000) - REQUEST_MAX_AGE;
+    if (event.created_at < cutoff) return;
+
+    if (this.clients.has(event.pubkey)) {
+      if (this.handled.has(event.id)) return;
+      this.pruneHandled(cutoff);
+      this.handled.set(event.id, event.created_at);
+    }
+
+    let request: BunkerRequest;
+    try {
+      request = parseBunkerEvent<BunkerRequest>(event, this.config.secretKey);
+    } catch {
+      return;
+    }
+
+    this.handleRequest(request, event.pubkey).then((response) => {
+      // The client retries requests that get no answer
+      this.config.transport
+        .publish(createBunkerResponseEvent(response, event.pubkey, this.config.secretKey))
+        .catch(() => {});
+    });
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Forget handled requests too old to be answered again
+   */
+  private pruneHandled(cutoff: number): void {
+    for (const [id, createdAt] of this.handled) {
+      if (createdAt < cutoff) this.handled.delete(id);
+    }
+  }
+
+  private async handleRequest(request: BunkerRequest, client: Pubkey): Promise<BunkerResponse> {
+    try {
+      const result = await this.dispatch(request, client);
+      return { id: request.id, result };
+    } catch (error) {
+      return { id: request.id, error: toError(error).message };
+    }
+  }
+
+  private async dispatch(request: BunkerRequest, client: Pubkey): Promise<string> {
+    const params = Array.isArray(request.params) ? request.params : [];
+
+    switch (request.method) {
+      case "connect":
+        return this.connect(client, params[1]);
+      case "ping":
+        return "pong";
+    }
+
+    if (!this.clients.has(client)) {
+      throw new Error("Unauthorized client");
+    }
+
+    switch (request.method) {
+      case "get_public_key":
+        return getGroupNostrPubkey(this.config.groupPubkey);
+      case "sign_event":
+        return JSON.stringify(await this.signEvent(params[0], client));
+      case "nip44_encrypt":
+        return this.requireDecryption(request.method).encrypt(params[0] ?? "", params[1] ?? "");
+      default:
+        throw new Error(`Unsupported method: ${request.method}`);
+    }
+  }
+
+  /**
+   * Authorize a client presenting the one-time connect secret
+   */
+  private connect(client: Pubkey, secret: string | undefined): string {
+    if (this.clients.has(client)) {
+      return "ack";
+    }
+
+    if (!this.secret || secret !== this.secret) {
+      throw new Error("Invalid connect secret");
+    }
+
+    this.secret = undefined;
+    this.clients.add(client);
+    return "ack";
+  }
+
+  /**
+   * Get the decryption coordinator, if the bunker has one
+   */
+  private requireDecryption(method: string): DecryptionCoordinator {
+    if (!this.config.decryption) {
+      throw new Error(`${method} is not supported: the group key has no single holder`);
+    }
+
+    return this.config.decryption;
+  }
+
+  /**
+   * Check a client's event against the policy and sign it with the quorum
+   */
+  private async signEvent(json: string | undefined, client: Pubkey): Promise<Event> {
+    const template = JSON.parse(json ?? "null") as Partial<UnsignedEvent> | null;
+
+    if (
+      !template ||
+      typeof template.kind !== "number" ||
+      typeof template.created_at !== "number" ||
+      typeof template.content !== "string" ||
+      !Array.isArray(template.tags)
+    ) {
+      throw new Error("Invalid event");
+    }
+
+    const groupNostrPubkey = getGroupNostrPubkey(this.config.groupPubkey);
+    if (template.pubkey && template.pubkey !== groupNostrPubkey) {
+      throw new Error("Event pubkey does not match the group pubkey");
+    }
+
+    const unsigned: UnsignedEvent = {
+      kind: template.kind,
+      created_at: template.created_at,
+      tags: template.tags,
+      content: template.content,
+      pubkey: groupNostrPubkey,
+    };
+
+    const { policy } = this.config;
+    const decision = policy ? evaluateSigningPolicy(policy, unsigned) : "approve";
+
+    if (decision === "reject") {
+      throw new Error("Rejected by signing policy");
+    }
+    if (decision === "manual") {
+      const approved = await Promise.resolve()
+        .then(() => this.config.onApprovalRequest?.(unsigned, client) ?? false)
+        .catch(() => false);
+
+      if (!approved) {
+        throw new Error("Rejected by admin");
+      }
+    }
+
+    const { event } = await this.config.coordinator.signRobust(unsigned);
+    return event;
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Create a NIP-44 encrypted NIP-46 event for a recipient
+ */
+function createBunkerEvent(plaintext: string, recipient: Pubkey, secretKey: Hex): Event {
+  const conversationKey = nip44.v2.utils.getConversationKey(
+    hexToBytes(secretKey),
+    recipient
+  );
+
+  return finalizeEvent({
+    kind: BUNKER_EVENT_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [[PROTOCOL_TAGS.RECIPIENT, recipient]],
+    content: nip44.v2.encrypt(plaintext, conversationKey),
+  }, hexToBytes(secretKey));
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,1285 @@
+/**
+ * @nkg/signer - Nostr-transported threshold signing coordinator
+ *
+ * Serializes the signing rounds into nostr events (SIGNING_EVENT_KINDS)
+ * and drives a signing session end to end over a relay connection.
+ * Every admin runs a coordinator: it answers signing requests addressed
+ * to it, and can itself request a signature for an unsigned event.
+ * Requests from other admins are checked against the admin's local
+ * signing policy before any nonce is committed. When a signature is
+ * aggregated, the requester publishes the session transcript and every
+ * signer countersigns it, leaving an auditable record of the quorum.
+ * An admin holding several shares (weighted admins) signs with all of
+ * them from a single coordinator.
+ *
+ * Admins can publish batches of preprocessed nonces ahead of time. When
+ * every signer has an unused one, the requester assigns them in the
+ * request and signers answer with their partial signature right away,
+ * skipping the nonce commitment round.
+ */
+
+import {
+  finalizeEvent,
+  getEventHash,
+  getPublicKey,
+  verifyEvent,
+  type Event,
+  type EventTemplate,
+  type UnsignedEvent,
+} from "nostr-tools";
+import { hexToBytes } from "@noble/hashes/utils";
+
+import {
+  createSigningSession,
+  generateSigningSessionId,
+  generateNonceCommitment,
+  processPublicNonce,
+  hasAllNonces,
+  selectSigningSubset,
+  generatePartialSignature,
+  processPartialSignature,
+  hasAllPartialSignatures,
+  aggregateSignatures,
+  verifySignature,
+} from "./signing.js";
+
+import {
+  createNoncePool,
+  generateNonces,
+  createPreprocessedSigningSession,
+  createNonceRegistry,
+  addPublishedNonces,
+  getAvailableNonceCount,
+  assignNonces,
+  markNoncesUsed,
+  createNonceBatchEvent,
+  parseNonceBatchEvent,
+} from "./nonces.js";
+import { evaluateSigningPolicy } from "./policy.js";
+import { checkQuorum, selectQuorum } from "./quorum.js";
+
+import {
+  createSigningTranscript,
+  createTranscriptAttestationEvent,
+  parseTranscriptAttestationEvent,
+} from "./transcript.js";
+
+import {
+  SIGNING_EVENT_KINDS,
+  TRANSCRIPT_EVENT_KINDS,
+  PROTOCOL_TAGS,
+  type Hex,
+  type KeyPackage,
+  type NoncePool,
+  type NonceRegistry,
+  type PartialSignature,
+  type PreprocessedNonce,
+  type ProtocolTransport,
+  type Pubkey,
+  type PublicNonce,
+  type RobustSigningOptions,
+  type RobustSigningResult,
+  type SigningCoordinatorConfig,
+  type SigningRequest,
+  type SigningSession,
+  type Transcript,
+} from "./types.js";
+
+// Re-export types
+export type {
+  ProtocolTransport,
+  RobustSigningOptions,
+  RobustSigningResult,
+  SigningCoordinatorConfig,
+  SigningRequest,
+};
+
+// ============================================================================
+// Protocol Event Creation
+// ============================================================================
+
+/**
+ * Get the nostr (x-only) pubkey for a group public key
+ */
+export function getGroupNostrPubkey(groupPubkey: Hex): Pubkey {
+  return groupPubkey.length === 66 ? groupPubkey.slice(2) : groupPubkey;
+}
+
+/**
+ * Create a signing session initiation event
+ */
+export function createSigningRequestEvent(
+  request: SigningRequest,
+  participants: Pubkey[],
+  secretKey: Hex
+): Event {
+  return finalizeEvent({
+    kind: SIGNING_EVENT_KINDS.SESSION_INIT,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, request.sessionId],
+      [PROTOCOL_TAGS.GROUP_PUBKEY, request.groupPubkey],
+      [PROTOCOL_TAGS.SIGNERS, ...request.signerIndices.map(String)],
+      ...(request.robust ? [[PROTOCOL_TAGS.MODE, "robust"]] : []),
+      ...(request.nonces ?? []).map((n) => [
+        PROTOCOL_TAGS.NONCE,
+        n.id,
+        n.idx.toString(),
+        n.hidden_pn,
+        n.binder_pn,
+      ]),
+      ...getRecipientTags(request.signerIndices, participants),
+    ],
+    content: JSON.stringify(request.event),
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Parse a signing session initiation event
+ */
+export function parseSigningRequestEvent(event: Event): SigningRequest | null {
+  if (event.kind !== SIGNING_EVENT_KINDS.SESSION_INIT) {
+    return null;
+  }
+
+  const sessionId = getTagValue(event, PROTOCOL_TAGS.SESSION);
+  const groupPubkey = getTagValue(event, PROTOCOL_TAGS.GROUP_PUBKEY);
+  const signersTag = event.tags.find((t) => t[0] === PROTOCOL_TAGS.SIGNERS);
+
+  if (!sessionId || !groupPubkey || !signersTag) {
+    return null;
+  }
+
+  const signerIndices = signersTag.slice(1).map((v) => parseInt(v, 10));
+  if (signerIndices.some((idx) => isNaN(idx))) {
+    return null;
+  }
+
+  const nonceTags = event.tags.filter((t) => t[0] === PROTOCOL_TAGS.NONCE);
+  const nonces: PreprocessedNonce[] = nonceTags.map(([, id, idx, hidden_pn, binder_pn]) => ({
+    id: id ?? "",
+    idx: parseInt(idx ?? "", 10),
+    hidden_pn: hidden_pn ?? "",
+    binder_pn: binder_pn ?? "",
+  }));
+  if (nonces.some((n) => !n.id || isNaN(n.idx) || !n.hidden_pn || !n.binder_pn)) {
+    return null;
+  }
+
+  try {
+    const unsigned = JSON.parse(event.content) as UnsignedEvent;
+    if (typeof unsigned.kind !== "number" || !Array.isArray(unsigned.tags)) {
+      return null;
+    }
+
+    // Robust sessions pick signers from the nonces that arrive first
+    const robust = getTagValue(event, PROTOCOL_TAGS.MODE) === "robust";
+    if (robust && nonces.length > 0) {
+      return null;
+    }
+
+    return {
+      sessionId,
+      groupPubkey,
+      signerIndices,
+      event: unsigned,
+      ...(robust && { robust }),
+      ...(nonces.length > 0 && { nonces }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a nonce commitment event (signing round 1)
+ */
+export function createNonceCommitmentEvent(
+  request: SigningRequest,
+  nonce: PublicNonce,
+  participants: Pubkey[],
+  secretKey: Hex
+): Event {
+  return finalizeEvent({
+    kind: SIGNING_EVENT_KINDS.NONCE_COMMITMENT,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, request.sessionId],
+      [PROTOCOL_TAGS.INDEX, nonce.idx.toString()],
+      [PROTOCOL_TAGS.ROUND, "1"],
+      ...getRecipientTags(request.signerIndices, participants),
+    ],
+    content: JSON.stringify({
+      idx: nonce.idx,
+      hidden_pn: nonce.hidden_pn,
+      binder_pn: nonce.binder_pn,
+    }),
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Create a partial signature event (signing round 2)
+ */
+export function createPartialSignatureEvent(
+  request: SigningRequest,
+  partialSig: PartialSignature,
+  participants: Pubkey[],
+  secretKey: Hex
+): Event {
+  return finalizeEvent({
+    kind: SIGNING_EVENT_KINDS.PARTIAL_SIGNATURE,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, request.sessionId],
+      [PROTOCOL_TAGS.INDEX, partialSig.idx.toString()],
+      [PROTOCOL_TAGS.ROUND, "2"],
+      ...getRecipientTags(request.signerIndices, participants),
+    ],
+    content: JSON.stringify({
+      idx: partialSig.idx,
+      psig: partialSig.psig,
+      pubkey: partialSig.pubkey,
+    }),
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Create a signer selection event for a robust signing session
+ *
+ * Sent to every invited candidate, so the ones left out can drop their
+ * unused nonces.
+ */
+export function createSignerSelectionEvent(
+  request: SigningRequest,
+  selected: number[],
+  participants: Pubkey[],
+  secretKey: Hex
+): Event {
+  return finalizeEvent({
+    kind: SIGNING_EVENT_KINDS.SIGNER_SELECTION,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, request.sessionId],
+      [PROTOCOL_TAGS.SIGNERS, ...selected.map(String)],
+      ...getRecipientTags(request.signerIndices, participants),
+    ],
+    content: "",
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Create a final signature event carrying the group-signed event
+ */
+export function createFinalSignatureEvent(
+  request: SigningRequest,
+  signedEvent: Event,
+  participants: Pubkey[],
+  secretKey: Hex
+): Event {
+  return finalizeEvent({
+    kind: SIGNING_EVENT_KINDS.FINAL_SIGNATURE,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, request.sessionId],
+      ...getRecipientTags(request.signerIndices, participants),
+    ],
+    content: JSON.stringify(signedEvent),
+  }, hexToBytes(secretKey));
+}
+
+// ============================================================================
+// Signing Coordinator
+// ============================================================================
+
+/**
+ * Most events buffered per signer for a session we have not seen yet:
+ * a nonce, a partial signature, a selection and a final signature
+ */
+const EARLY_EVENTS_PER_SIGNER = 4;
+
+/** Round events that arrived before their session initiation */
+interface EarlyEvents {
+  events: Event[];
+  /** When the first event arrived (ms), to drop the buffer after the session timeout */
+  receivedAt: number;
+}
+
+/** Local state for a signing session in progress */
+interface ActiveSession {
+  request: SigningRequest;
+  /** Session for our first share in the signer set */
+  session: SigningSession;
+  /** Sessions for our other shares in the signer set (weighted admins) */
+  extra: SigningSession[];
+  /** Pubkey of the admin who requested the signature */
+  requester: Pubkey;
+  /** Events that arrived before they could be processed */
+  deferred: Event[];
+  /** Whether the signer subset of a robust session has been chosen */
+  selected?: boolean;
+  /** Signer subset announced by the requester, applied once its nonces are in */
+  pendingSelection?: number[];
+  /** Pending result (only for sessions we requested) */
+  result?: {
+    resolve: (event: Event) => void;
+    reject: (error: Error) => void;
+    timeout: ReturnType<typeof setTimeout>;
+  };
+}
+
+/**
+ * Drives threshold signing sessions over nostr events
+ */
+export class SigningCoordinator {
+  private config: SigningCoordinatorConfig;
+  private pubkey: Pubkey;
+  /** Our shares of the group key, ordered by index */
+  private keyPackages: KeyPackage[];
+  private sessions: Map<Hex, ActiveSession> = new Map();
+  private early: Map<Hex, EarlyEvents> = new Map();
+  private pendingApprovals: Set<Hex> = new Set();
+  /** Declined session IDs, with when they were declined (ms) */
+  private declined: Map<Hex, number> = new Map();
+  /** Our unused preprocessed secret nonces, by share index */
+  private pools: Map<number, NoncePool> = new Map();
+  /** Unused preprocessed nonces published by the admins */
+  private registry: NonceRegistry = createNonceRegistry();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(config: SigningCoordinatorConfig) {
+    const { keyPackage, participants } = config;
+
+    if (participants.length !== keyPackage.maxSigners) {
+      throw new Error("Number of participants must equal max signers");
+    }
+
+    this.config = {
+      timeoutMs: 60000,
+      ...config,
+    };
+    this.pubkey = getPublicKey(hexToBytes(config.secretKey));
+
+    this.keyPackages = [keyPackage, ...(config.additionalKeyPackages ?? [])].sort(
+      (a, b) => a.share.idx - b.share.idx
+    );
+
+    for (const [i, pkg] of this.keyPackages.entries()) {
+      if (pkg.groupPubkey !== keyPackage.groupPubkey) {
+        throw new Error("Key packages must share the same group key");
+      }
+      if (this.keyPackages[i - 1]?.share.idx === pkg.share.idx) {
+        throw new Error(`Duplicate share index ${pkg.share.idx}`);
+      }
+      if (participants[pkg.share.idx - 1] !== this.pubkey) {
+        throw new Error("Secret key does not match this participant's index");
+      }
+    }
+  }
+
+  /**
+   * Start listening for signing protocol events addressed to us
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    const group = getGroupNostrPubkey(this.config.keyPackage.groupPubkey);
+
+    this.unsubscribe = this.config.transport.subscribe(
+      `signing-${this.pubkey.slice(0, 8)}-${group.slice(0, 8)}`,
+      [
+        {
+          kinds: [...Object.values(SIGNING_EVENT_KINDS), TRANSCRIPT_EVENT_KINDS.ATTESTATION],
+          "#p": [this.pubkey],
+          since: Math.floor(Date.now() / 1000) - 300,
+        },
+      ],
+      (event) => this.handleEvent(event)
+    );
+  }
+
+  /**
+   * Stop listening and abort all sessions in progress
+   */
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      this.fail(sessionId, new Error("Signing coordinator stopped"));
+    }
+    this.early.clear();
+    this.declined.clear();
+  }
+
+  /**
+   * Generate preprocessed nonces for each of our shares and publish them
+   *
+   * The secret nonces only live in this coordinator, so batches have to
+   * be published again after a restart.
+   */
+  async publishNonces(count: number): Promise<void> {
+    const { keyPackage, participants, secretKey } = this.config;
+
+    for (const pkg of this.keyPackages) {
+      const idx = pkg.share.idx;
+      const { nonces, pool } = generateNonces(
+        this.pools.get(idx) ?? createNoncePool(pkg),
+        pkg,
+        count
+      );
+
+      this.pools.set(idx, pool);
+      this.registry = addPublishedNonces(this.registry, nonces);
+      await this.config.transport.publish(
+        createNonceBatchEvent(keyPackage.groupPubkey, nonces, participants, secretKey)
+      );
+    }
+  }
+
+  /**
+   * Request a group signature for an unsigned event
+   *
+   * Opens a signing session with `threshold` admins (including us),
+   * and resolves with the finalized event once the partial signatures
+   * have been aggregated. When every signer has an unused preprocessed
+   * nonce, they are assigned in the request and signing takes a single
+   * round.
+   */
+  async sign(
+    template: EventTemplate | UnsignedEvent,
+    signerIndices?: number[]
+  ): Promise<Event> {
+    const request: SigningRequest = {
+      sessionId: generateSigningSessionId(),
+      groupPubkey: this.config.keyPackage.groupPubkey,
+      signerIndices: signerIndices ?? this.selectSigners(),
+      event: this.toGroupEvent(template),
+    };
+
+    if (request.signerIndices.every((idx) => getAvailableNonceCount(this.registry, idx) > 0)) {
+      const { nonces, registry } = assignNonces(this.registry, request.signerIndices);
+      this.registry = registry;
+      request.nonces = nonces;
+    }
+
+    return this.openSession(request, this.config.timeoutMs!);
+  }
+
+  /**
+   * Request a group signature, tolerating unresponsive admins
+   *
+   * Invites more than `threshold` admins and signs with the first
+   * `threshold` nonce commitments to arrive. When an attempt times out,
+   * the admins that stalled are dropped and a new session is opened with
+   * the remaining candidates.
+   */
+  async signRobust(
+    template: EventTemplate | UnsignedEvent,
+    options: RobustSigningOptions = {}
+  ): Promise<RobustSigningResult> {
+    const { threshold, maxSigners } = this.config.keyPackage;
+    const unsigned = this.toGroupEvent(template);
+    const maxAttempts = options.maxAttempts ?? maxSigners;
+    const timeoutMs = options.attemptTimeoutMs ?? this.config.timeoutMs!;
+    const stalled: number[] = [];
+    const mine = this.getOwnIndices();
+
+    let candidates = options.candidates ?? Array.from({ length: maxSigners }, (_, i) => i + 1);
+    candidates = [...mine.filter((idx) => !candidates.includes(idx)), ...candidates];
+
+    for (let attempt = 0; attempt < maxAttempts && candidates.length >= threshold; attempt++) {
+      const outcome = { stalled: [] as number[] };
+
+      try {
+        const event = await this.openSession(
+          {
+            sessionId: generateSigningSessionId(),
+            groupPubkey: this.config.keyPackage.groupPubkey,
+            signerIndices: [...candidates].sort((a, b) => a - b),
+            event: unsigned,
+            robust: true,
+          },
+          timeoutMs,
+          (indices) => {
+            outcome.stalled = indices;
+          }
+        );
+
+        return { event, stalled };
+      } catch (error) {
+        if (outcome.stalled.length === 0) throw error;
+      }
+
+      stalled.push(...outcome.stalled);
+      candidates = candidates.filter((idx) => !outcome.stalled.includes(idx));
+    }
+
+    throw new Error(`Signing failed, stalled signers: ${stalled.join(", ")}`);
+  }
+
+  /**
+   * Handle an incoming signing protocol event
+   */
+  handleEvent(event: Event): void {
+    if (!verifyEvent(event)) return;
+
+    this.pruneExpired();
+
+    if (event.kind === SIGNING_EVENT_KINDS.NONCE_BATCH) {
+      this.handleNonceBatch(event);
+      return;
+    }
+
+    const sessionId = getTagValue(event, PROTOCOL_TAGS.SESSION);
+    if (!sessionId || this.declined.has(sessionId)) return;
+
+    if (event.kind === SIGNING_EVENT_KINDS.SESSION_INIT) {
+      this.handleSigningRequest(event);
+      return;
+    }
+
+    const active = this.sessions.get(sessionId);
+    if (!active) {
+      // Rounds from other admins may arrive before the session initiation
+      if (!this.config.participants.includes(event.pubkey)) return;
+
+      const early = this.early.get(sessionId) ?? { events: [], receivedAt: Date.now() };
+      if (early.events.length < this.config.participants.length * EARLY_EVENTS_PER_SIGNER) {
+        early.events.push(event);
+      }
+      this.early.set(sessionId, early);
+      return;
+    }
+
+    try {
+      switch (event.kind) {
+        case SIGNING_EVENT_KINDS.NONCE_COMMITMENT:
+          this.handleNonceCommitment(active, event);
+          break;
+        case SIGNING_EVENT_KINDS.PARTIAL_SIGNATURE:
+          this.handlePartialSignature(active, event);
+          break;
+        case SIGNING_EVENT_KINDS.SIGNER_SELECTION:
+          this.handleSignerSelection(active, event);
+          break;
+        case SIGNING_EVENT_KINDS.FINAL_SIGNATURE:
+          this.handleFinalSignature(active, event);
+          break;
+        case TRANSCRIPT_EVENT_KINDS.ATTESTATION:
+          this.handleAttestation(active, event);
+          break;
+      }
+    } catch (error) {
+      // Handlers drop unauthorized and malformed events, so this is a local error
+      this.fail(sessionId, toError(error));
+    }
+  }
+
+  /**
+   * Get the IDs of all sessions in progress
+   */
+  getActiveSessionIds(): Hex[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Publish a signing request and resolve with the group-signed event
+   */
+  private async openSession(
+    request: SigningRequest,
+    timeoutMs: number,
+    onStall?: (stalled: number[]) => void
+  ): Promise<Event> {
+    const { participants, secretKey } = this.config;
+
+    this.checkSignerSet(request.signerIndices);
+
+    const [session, ...extra] = this.createLocalSessions(request);
+
+    const result = new Promise<Event>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        const active = this.sessions.get(request.sessionId);
+        if (active && onStall) {
+          onStall(this.getStalledSigners(active));
+        }
+
+        this.fail(
+          request.sessionId,
+          new Error(`Signing session ${request.sessionId} timed out`)
+        );
+      }, timeoutMs);
+
+      this.sessions.set(request.sessionId, {
+        request,
+        session: session!,
+        extra,
+        requester: this.pubkey,
+        deferred: [],
+        result: { resolve, reject, timeout },
+      });
+    });
+
+    try {
+      await this.config.transport.publish(
+        createSigningRequestEvent(request, participants, secretKey)
+      );
+      this.commitNonce(request.sessionId);
+    } catch (error) {
+      this.fail(request.sessionId, toError(error));
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the unsigned group event for a template
+   */
+  private toGroupEvent(template: EventTemplate | UnsignedEvent): UnsignedEvent {
+    const groupNostrPubkey = getGroupNostrPubkey(this.config.keyPackage.groupPubkey);
+
+    if ("pubkey" in template && template.pubkey && template.pubkey !== groupNostrPubkey) {
+      throw new Error("Event pubkey does not match the group pubkey");
+    }
+
+    return {
+      kind: template.kind,
+      created_at: template.created_at,
+      tags: template.tags,
+      content: template.content,
+      pubkey: groupNostrPubkey,
+    };
+  }
+
+  private handleSigningRequest(event: Event): void {
+    const request = parseSigningRequestEvent(event);
+    if (!request || this.sessions.has(request.sessionId)) return;
+    if (this.pendingApprovals.has(request.sessionId)) return;
+
+    const { keyPackage, participants, policy } = this.config;
+
+    // Only admins of this group may request signatures
+    if (!participants.includes(event.pubkey)) return;
+    if (request.groupPubkey !== keyPackage.groupPubkey) return;
+
+    // Nonces the requester assigned are never assigned by us
+    if (request.nonces) {
+      this.registry = markNoncesUsed(this.registry, request.nonces);
+    }
+    if (!this.getOwnIndices().some((idx) => request.signerIndices.includes(idx))) return;
+
+    if (!this.meetsQuorum(request.signerIndices)) {
+      this.decline(request.sessionId);
+      return;
+    }
+
+    // The signed message is always the event id, recomputed locally
+    const checked: SigningRequest = {
+      ...request,
+      event: {
+        ...request.event,
+        pubkey: getGroupNostrPubkey(keyPackage.groupPubkey),
+      },
+    };
+
+    const decision = policy ? evaluateSigningPolicy(policy, checked.event) : "approve";
+
+    switch (decision) {
+      case "approve":
+        this.acceptSigningRequest(checked, event.pubkey);
+        break;
+      case "manual":
+        this.pendingApprovals.add(request.sessionId);
+        Promise.resolve()
+          .then(() => this.config.onApprovalRequest?.(checked, event.pubkey) ?? false)
+          .catch(() => false)
+          .then((approved) => {
+            this.pendingApprovals.delete(request.sessionId);
+            if (approved && this.unsubscribe) {
+              this.acceptSigningRequest(checked, event.pubkey);
+            } else {
+              this.decline(request.sessionId);
+            }
+          });
+        break;
+      case "reject":
+        this.decline(request.sessionId);
+        break;
+    }
+  }
+
+  private acceptSigningRequest(request: SigningRequest, requester: Pubkey): void {
+    try {
+      const [session, ...extra] = this.createLocalSessions(request);
+
+      this.sessions.set(request.sessionId, {
+        request,
+        session: session!,
+        extra,
+        requester,
+        deferred: [],
+      });
+
+      this.commitNonce(request.sessionId);
+    } catch (error) {
+      this.fail(request.sessionId, toError(error));
+      return;
+    }
+
+    // Replay rounds that arrived before the request
+    const early = this.early.get(request.sessionId)?.events ?? [];
+    this.early.delete(request.sessionId);
+    for (const e of early) {
+      this.handleEvent(e);
+    }
+  }
+
+  /**
+   * Refuse to take part in a session, dropping its buffered rounds
+   */
+  private decline(sessionId: Hex): void {
+    this.declined.set(sessionId, Date.now());
+    this.early.delete(sessionId);
+  }
+
+  /**
+   * Forget buffered rounds and declined sessions older than the session timeout
+   */
+  private pruneExpired(): void {
+    const cutoff = Date.now() - this.config.timeoutMs!;
+
+    for (const [sessionId, early] of this.early) {
+      if (early.receivedAt < cutoff) this.early.delete(sessionId);
+    }
+    for (const [sessionId, declinedAt] of this.declined) {
+      if (declinedAt < cutoff) this.declined.delete(sessionId);
+    }
+  }
+
+  /**
+   * Record the preprocessed nonces another admin published
+   *
+   * Our own nonces are recorded when generated; older batches replayed by
+   * the relay have no secret nonces left in our pools.
+   */
+  private handleNonceBatch(event: Event): void {
+    if (getTagValue(event, PROTOCOL_TAGS.GROUP_PUBKEY) !== this.config.keyPackage.groupPubkey) {
+      return;
+    }
+
+    const nonces = parseNonceBatchEvent(event, this.config.participants);
+    if (!nonces || nonces.some((n) => this.getOwnIndices().includes(n.idx))) return;
+
+    this.registry = addPublishedNonces(this.registry, nonces);
+  }
+
+  private handleNonceCommitment(active: ActiveSession, event: Event): void {
+    const idx = this.getSignerIndex(active, event);
+    if (idx === null || active.session.publicNonces.has(idx)) return;
+
+    const nonce = parseContent<PublicNonce>(event);
+    if (nonce?.idx !== idx) return;
+
+    // An invalid nonce is dropped, leaving the signer stalled
+    try {
+      this.applyNonce(active, nonce);
+    } catch {
+      return;
+    }
+
+    this.afterNonce(active);
+  }
+
+  private handlePartialSignature(active: ActiveSession, event: Event): void {
+    // Only the requester aggregates partial signatures
+    if (active.requester !== this.pubkey) return;
+
+    const idx = this.getSignerIndex(active, event);
+    if (idx === null || this.getOwnIndices().includes(idx)) return;
+
+    const partialSig = parseContent<PartialSignature>(event);
+    if (partialSig?.idx !== idx) return;
+
+    if (!hasAllNonces(active.session) || (active.request.robust && !active.selected)) {
+      active.deferred.push(event);
+      return;
+    }
+
+    // An invalid partial signature is dropped, leaving the signer stalled
+    try {
+      active.session = processPartialSignature(active.session, partialSig);
+    } catch {
+      return;
+    }
+
+    if (hasAllPartialSignatures(active.session)) {
+      this.finalize(active);
+    }
+  }
+
+  private handleSignerSelection(active: ActiveSession, event: Event): void {
+    if (event.pubkey !== active.requester || active.requester === this.pubkey) return;
+    if (!active.request.robust || active.selected) return;
+
+    const signersTag = event.tags.find((t) => t[0] === PROTOCOL_TAGS.SIGNERS);
+    const selected = (signersTag ?? []).slice(1).map((v) => parseInt(v, 10));
+
+    // Left out: our nonces are never used, drop the session
+    if (!this.getLocalSessions(active).some((s) => selected.includes(s.keyPackage.share.idx))) {
+      this.sessions.delete(active.request.sessionId);
+      return;
+    }
+
+    if (!this.meetsQuorum(selected)) {
+      throw new Error("Selected signers do not meet the quorum policy");
+    }
+
+    active.pendingSelection = selected;
+    this.afterNonce(active);
+  }
+
+  private handleFinalSignature(active: ActiveSession, event: Event): void {
+    if (event.pubkey !== active.requester) return;
+
+    const signedEvent = parseContent<Event>(event);
+    if (
+      signedEvent &&
+      signedEvent.id === active.session.config.message &&
+      verifySignature(active.request.groupPubkey, signedEvent.id, signedEvent.sig)
+    ) {
+      this.complete(active.request.sessionId, signedEvent);
+    }
+  }
+
+  /**
+   * Countersign the requester's transcript if it records our contribution
+   */
+  private handleAttestation(active: ActiveSession, event: Event): void {
+    if (event.pubkey !== active.requester || active.requester === this.pubkey) return;
+
+    const transcript = parseTranscriptAttestationEvent(event);
+    const config = transcript?.entries[0];
+    if (!transcript || config?.type !== "signing_config") return;
+
+    const recorded = this.getLocalSessions(active).every((session) => {
+      const myIdx = session.keyPackage.share.idx;
+      const mySig = session.partialSignatures.get(myIdx);
+      return transcript.entries.some(
+        (e) => e.type === "signing_partial" && e.data.idx === myIdx && e.data.psig === mySig?.psig
+      );
+    });
+
+    if (
+      transcript.sessionId !== active.request.sessionId ||
+      config.data.message !== active.session.config.message ||
+      !recorded
+    ) {
+      return;
+    }
+
+    this.attest(transcript);
+  }
+
+  private commitNonce(sessionId: Hex): void {
+    const active = this.sessions.get(sessionId);
+    if (!active) return;
+
+    // Preprocessed nonces came with the request
+    if (active.request.nonces) {
+      this.afterNonce(active);
+      return;
+    }
+
+    const { participants, secretKey } = this.config;
+    const nonces: PublicNonce[] = [];
+
+    this.setLocalSessions(
+      active,
+      this.getLocalSessions(active).map((local) => {
+        const { publicNonce, session } = generateNonceCommitment(local);
+        nonces.push(publicNonce);
+        return session;
+      })
+    );
+
+    for (const nonce of nonces) {
+      this.applyNonce(active, nonce);
+      this.publish(
+        sessionId,
+        createNonceCommitmentEvent(active.request, nonce, participants, secretKey)
+      );
+    }
+
+    this.afterNonce(active);
+  }
+
+  /**
+   * Add a signer's nonce to each of our sessions that does not have it yet
+   */
+  private applyNonce(active: ActiveSession, nonce: PublicNonce): void {
+    this.setLocalSessions(
+      active,
+      this.getLocalSessions(active).map((local) =>
+        local.publicNonces.has(nonce.idx) ? local : processPublicNonce(local, nonce)
+      )
+    );
+  }
+
+  /**
+   * Move on to partial signing once the signers' nonces are in
+   *
+   * In robust sessions the requester first picks the signers from the
+   * earliest nonces, and the other admins wait for its selection.
+   */
+  private afterNonce(active: ActiveSession): void {
+    if (active.request.robust && !active.selected) {
+      const { threshold } = this.config.keyPackage;
+
+      if (active.requester === this.pubkey) {
+        if (active.session.myCommitment && active.session.publicNonces.size >= threshold) {
+          this.chooseSigners(active);
+        }
+      } else if (
+        active.pendingSelection?.every((idx) => active.session.publicNonces.has(idx))
+      ) {
+        this.applySelection(active, active.pendingSelection);
+      }
+      return;
+    }
+
+    if (hasAllNonces(active.session)) {
+      this.signPartial(active);
+    }
+  }
+
+  /**
+   * Pick our shares and the first other admins whose nonces arrived
+   */
+  private chooseSigners(active: ActiveSession): void {
+    const { participants, secretKey, keyPackage, quorumPolicy } = this.config;
+
+    const mine = this.getLocalSessions(active).map((s) => s.keyPackage.share.idx);
+    const others = Array.from(active.session.publicNonces.keys())
+      .filter((idx) => !mine.includes(idx));
+
+    // With a quorum policy, wait until the nonces in can meet it
+    const selected = quorumPolicy
+      ? selectQuorum(quorumPolicy, keyPackage.threshold, participants, others, mine)
+      : [...mine, ...others.slice(0, Math.max(keyPackage.threshold - mine.length, 0))].sort(
+          (a, b) => a - b
+        );
+    if (!selected) return;
+
+    this.publish(
+      active.request.sessionId,
+      createSignerSelectionEvent(active.request, selected, participants, secretKey)
+    );
+    this.applySelection(active, selected);
+  }
+
+  private applySelection(active: ActiveSession, selected: number[]): void {
+    this.setLocalSessions(
+      active,
+      this.getLocalSessions(active)
+        .filter((s) => selected.includes(s.keyPackage.share.idx))
+        .map((s) => selectSigningSubset(s, selected))
+    );
+    active.request = { ...active.request, signerIndices: active.session.config.signerIndices };
+    active.selected = true;
+    delete active.pendingSelection;
+
+    this.signPartial(active);
+  }
+
+  private signPartial(active: ActiveSession): void {
+    const { participants, secretKey } = this.config;
+
+    if (active.session.partialSignatures.has(active.session.keyPackage.share.idx)) return;
+
+    const partialSigs: PartialSignature[] = [];
+    this.setLocalSessions(
+      active,
+      this.getLocalSessions(active).map((local) => {
+        const { partialSig, session } = generatePartialSignature(local);
+        partialSigs.push(partialSig);
+        return session;
+      })
+    );
+
+    if (active.requester !== this.pubkey) {
+      for (const partialSig of partialSigs) {
+        this.publish(
+          active.request.sessionId,
+          createPartialSignatureEvent(active.request, partialSig, participants, secretKey)
+        );
+      }
+    } else {
+      // Our other shares' partial signatures are aggregated locally
+      for (const partialSig of partialSigs.slice(1)) {
+        active.session = processPartialSignature(active.session, partialSig);
+      }
+    }
+
+    // Process partial signatures that arrived before all nonces
+    const deferred = active.deferred;
+    active.deferred = [];
+    for (const event of deferred) {
+      this.handlePartialSignature(active, event);
+    }
+
+    if (hasAllPartialSignatures(active.session)) {
+      this.finalize(active);
+    }
+  }
+
+  private finalize(active: ActiveSession): void {
+    const { participants, secretKey } = this.config;
+    const { signature, session } = aggregateSignatures(active.session);
+    active.session = session;
+
+    const signedEvent: Event = {
+      ...active.request.event,
+      id: active.session.config.message,
+      sig: signature,
+    };
+
+    // Signers countersign the transcript before the session completes
+    this.attest(createSigningTranscript(active.session, participants));
+
+    this.publish(
+      active.request.sessionId,
+      createFinalSignatureEvent(active.request, signedEvent, participants, secretKey)
+    );
+    this.complete(active.request.sessionId, signedEvent);
+  }
+
+  /**
+   * Publish our attestation of a session transcript
+   */
+  private attest(transcript: Transcript): void {
+    this.publish(
+      transcript.sessionId,
+      createTranscriptAttestationEvent(transcript, this.config.secretKey)
+    );
+    this.config.onTranscript?.(transcript);
+  }
+
+  private complete(sessionId: Hex, signedEvent: Event): void {
+    const active = this.sessions.get(sessionId);
+    if (!active) return;
+
+    this.sessions.delete(sessionId);
+    if (active.result) {
+      clearTimeout(active.result.timeout);
+      active.result.resolve(signedEvent);
+    }
+  }
+
+  private fail(sessionId: Hex, error: Error): void {
+    const active = this.sessions.get(sessionId);
+    this.sessions.delete(sessionId);
+    this.early.delete(sessionId);
+
+    if (active?.result) {
+      clearTimeout(active.result.timeout);
+      active.result.reject(error);
+    }
+  }
+
+  private publish(sessionId: Hex, event: Event): void {
+    this.config.transport.publish(event).catch((error) => {
+      this.fail(sessionId, toError(error));
+    });
+  }
+
+  /**
+   * Get the signer index an event claims, if its author holds that index
+   *
+   * Checked before the content is parsed, so events from outsiders are
+   * dropped without touching the session.
+   */
+  private getSignerIndex(active: ActiveSession, event: Event): number | null {
+    const idx = parseInt(getTagValue(event, PROTOCOL_TAGS.INDEX) ?? "", 10);
+    const isSigner =
+      active.request.signerIndices.includes(idx) &&
+      this.config.participants[idx - 1] === event.pubkey;
+
+    return isSigner ? idx : null;
+  }
+
+  /**
+   * Get the indices of all our shares
+   */
+  private getOwnIndices(): number[] {
+    return this.keyPackages.map((pkg) => pkg.share.idx);
+  }
+
+  /**
+   * Create a session for each of our shares in a request's signer set
+   *
+   * With preprocessed nonces, each of our secret nonces is taken out of
+   * its pool here, so it is never used for another message.
+   */
+  private createLocalSessions(request: SigningRequest): SigningSession[] {
+    return this.keyPackages
+      .filter((pkg) => request.signerIndices.includes(pkg.share.idx))
+      .map((pkg) => {
+        const config = {
+          sessionId: request.sessionId,
+          message: getEventHash(request.event),
+          groupPubkey: pkg.groupPubkey,
+          signerIndices: request.signerIndices,
+        };
+
+        if (!request.nonces) {
+          return createSigningSession(config, pkg);
+        }
+
+        const { session, pool } = createPreprocessedSigningSession(
+          config,
+          pkg,
+          request.nonces,
+          this.pools.get(pkg.share.idx) ?? createNoncePool(pkg)
+        );
+        this.pools.set(pkg.share.idx, pool);
+        return session;
+      });
+  }
+
+  private getLocalSessions(active: ActiveSession): SigningSession[] {
+    return [active.session, ...active.extra];
+  }
+
+  private setLocalSessions(active: ActiveSession, sessions: SigningSession[]): void {
+    const [session, ...extra] = sessions;
+    if (!session) {
+      throw new Error("None of our shares is in the signer list");
+    }
+
+    active.session = session;
+    active.extra = extra;
+  }
+
+  /**
+   * Get the signers holding up a session: missing nonces while waiting for
+   * nonces, missing partial signatures after
+   */
+  private getStalledSigners(active: ActiveSession): number[] {
+    const { publicNonces, partialSignatures, config } = active.session;
+    const missingNonces = config.signerIndices.filter((idx) => !publicNonces.has(idx));
+
+    if (missingNonces.length > 0) {
+      return missingNonces;
+    }
+
+    return config.signerIndices.filter((idx) => !partialSignatures.has(idx));
+  }
+
+  /**
+   * Check that a signer set meets the quorum policy, if there is one
+   */
+  private meetsQuorum(signerIndices: number[]): boolean {
+    const { quorumPolicy, keyPackage, participants } = this.config;
+    if (!quorumPolicy) return true;
+
+    try {
+      return checkQuorum(quorumPolicy, keyPackage.threshold, participants, signerIndices)
+        .satisfied;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Throw if a signer set we are about to request does not meet the quorum policy
+   */
+  private checkSignerSet(signerIndices: number[]): void {
+    const { quorumPolicy, keyPackage, participants } = this.config;
+    if (!quorumPolicy) return;
+
+    const { satisfied, weight, unmetTiers } = checkQuorum(
+      quorumPolicy,
+      keyPackage.threshold,
+      participants,
+      signerIndices
+    );
+
+    if (!satisfied) {
+      throw new Error(
+        unmetTiers.length > 0
+          ? `Signer set does not meet the quorum policy: ${unmetTiers.join(", ")}`
+          : `Signer set has ${weight} votes, need ${keyPackage.threshold}`
+      );
+    }
+  }
+
+  /**
+   * Pick `threshold` signers, starting with our shares
+   */
+  private selectSigners(): number[] {
+    const { threshold, maxSigners } = this.config.keyPackage;
+    const { quorumPolicy, participants } = this.config;
+    const mine = this.getOwnIndices();
+
+    if (quorumPolicy) {
+      const all = Array.from({ length: maxSigners }, (_, i) => i + 1);
+      const selected = selectQuorum(quorumPolicy, threshold, participants, all, mine);
+      if (!selected) {
+        throw new Error("No signer set meets the quorum policy");
+      }
+      return selected;
+    }
+
+    const indices = [...mine];
+
+    for (let idx = 1; idx <= maxSigners && indices.length < threshold; idx++) {
+      if (!mine.includes(idx)) {
+        indices.push(idx);
+      }
+    }
+
+    return indices.sort((a, b) => a - b);
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the first value for a tag
+ */
+function getTagValue(event: Event, tagName: string): string | undefined {
+  return event.tags.find((t) => t[0] === tagName)?.[1];
+}
+
+/**
+ * Build recipient tags for the given signer indices
+ */
+function getRecipientTags(signerIndices: number[], participants: Pubkey[]): string[][] {
+  return signerIndices
+    .map((idx) => participants[idx - 1])
+    .filter((p): p is Pubkey => p !== undefined)
+    .map((p) => [PROTOCOL_TAGS.RECIPIENT, p]);
+}
+
+/**
+ * Parse the JSON content of a protocol event, or null if it is malformed
+ */
+function parseContent<T>(event: Event): T | null {
+  try {
+    const content: unknown = JSON.parse(event.content);
+    return content !== null && typeof content === "object" ? (content as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
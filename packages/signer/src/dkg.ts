@@ -6,13 +6,16 @@
  * to exchange round packages.
  */
 
-import { Lib, Util } from "@cmdcode/frost";
+import { ECC, Lib, Util, type CurveElement } from "@cmdcode/frost";
 import { merge_share_commits } from "@cmdcode/frost/lib";
-import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
-import { nip44 } from "nostr-tools";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { getPublicKey, nip19, nip44 } from "nostr-tools";
 
 import type {
+  DKGComplaint,
   DKGConfig,
+  DKGJustification,
   DKGSession,
   DKGState,
   DKGRound1Package,
@@ -20,16 +23,21 @@ import type {
   KeyPackage,
   Hex,
   ParticipantId,
+  Pubkey,
   SecretShare,
+  WeightedParticipant,
 } from "./types.js";
 
 // Re-export types
 export type {
+  DKGComplaint,
   DKGConfig,
+  DKGJustification,
   DKGSession,
   DKGRound1Package,
   DKGRound2Package,
   KeyPackage,
+  WeightedParticipant,
 };
 
 // ============================================================================
@@ -58,6 +66,8 @@ export function createDKGSession(config: DKGConfig): DKGSession {
     state: "initialized",
     round1Packages: new Map(),
     round2Packages: new Map(),
+    complaints: [],
+    disqualified: [],
   };
 }
 
@@ -98,9 +108,19 @@ export function generateRound1Package(
   // Compute VSS commitments (public points for each coefficient)
   const vssCommitments = Lib.get_share_commits(coefficients);
 
+  // Prove knowledge of our secret contribution to prevent rogue-key attacks
+  const proofOfKnowledge = generateProofOfKnowledge(
+    session.config.sessionId,
+    myIndex,
+    session.config.participants[myIndex - 1]!,
+    coefficients[0]!,
+    vssCommitments[0]!
+  );
+
   const round1Package: DKGRound1Package = {
     idx: myIndex,
     vssCommitments,
+    proofOfKnowledge,
   };
 
   // Update session state
@@ -113,6 +133,24 @@ export function generateRound1Package(
   return { package: round1Package, session: updatedSession };
 }
 
+/**
+ * Get this participant's Round 1 package, generating it only once
+ *
+ * A session restored after a reload may already have published its
+ * package. Peers keep the first package they receive for an index, so a
+ * new polynomial would get this participant complained against.
+ */
+export function resumeRound1Package(
+  session: DKGSession
+): { package: DKGRound1Package; session: DKGSession } {
+  const published = session.round1Packages.get(session.config.myIndex);
+  if (session.myRound1Secret && published) {
+    return { package: published, session };
+  }
+
+  return generateRound1Package(session);
+}
+
 /**
  * Process a Round 1 package received from another participant
  */
@@ -138,6 +176,22 @@ export function processRound1Package(
     );
   }
 
+  if (!pkg.proofOfKnowledge) {
+    throw new Error(`Missing proof of knowledge from participant ${pkg.idx}`);
+  }
+
+  if (
+    !verifyProofOfKnowledge(
+      session.config.sessionId,
+      pkg.idx,
+      session.config.participants[pkg.idx - 1]!,
+      pkg.vssCommitments[0]!,
+      pkg.proofOfKnowledge
+    )
+  ) {
+    throw new Error(`Invalid proof of knowledge from participant ${pkg.idx}`);
+  }
+
   const updatedPackages = new Map(session.round1Packages);
   updatedPackages.set(pkg.idx, pkg);
 
@@ -232,12 +286,20 @@ export function generateRound2Packages(
 
 /**
  * Process a Round 2 package received from another participant
+ *
+ * A share that cannot be decrypted or does not match the sender's VSS
+ * commitments does not abort the session: a complaint is recorded
+ * against the sender instead (see the complaint round below).
  */
 export function processRound2Package(
   session: DKGSession,
   pkg: DKGRound2Package
 ): DKGSession {
-  if (session.state !== "round1_complete" && session.state !== "round2_complete") {
+  if (
+    session.state !== "round1_complete" &&
+    session.state !== "round2_complete" &&
+    session.state !== "complaints"
+  ) {
     throw new Error(`Invalid state for processing Round 2: ${session.state}`);
   }
 
@@ -249,37 +311,42 @@ export function processRound2Package(
     throw new Error("Cannot process own Round 2 package");
   }
 
+  if (session.disqualified.includes(pkg.fromIdx)) {
+    throw new Error(`Participant ${pkg.fromIdx} is disqualified`);
+  }
+
   // Decrypt the share
   const senderPubkey = session.config.participants[pkg.fromIdx - 1];
   if (!senderPubkey) {
     throw new Error(`No pubkey for participant ${pkg.fromIdx}`);
   }
 
-  const conversationKey = nip44.v2.utils.getConversationKey(
-    hexToBytes(session.config.mySecretKey),
-    senderPubkey
-  );
-  const decryptedShare = nip44.v2.decrypt(pkg.encryptedShare, conversationKey);
-
-  // Verify the share against the sender's VSS commitments
   const senderRound1 = session.round1Packages.get(pkg.fromIdx);
   if (!senderRound1) {
     throw new Error(`No Round 1 package from participant ${pkg.fromIdx}`);
   }
 
-  const shareObj: SecretShare = {
-    idx: session.config.myIndex,
-    seckey: decryptedShare,
-  };
-
-  const isValid = Lib.verify_share(
-    senderRound1.vssCommitments,
-    shareObj,
-    session.config.threshold
-  );
+  let decryptedShare: Hex | null = null;
+  try {
+    const conversationKey = nip44.v2.utils.getConversationKey(
+      hexToBytes(session.config.mySecretKey),
+      senderPubkey
+    );
+    decryptedShare = nip44.v2.decrypt(pkg.encryptedShare, conversationKey);
+  } catch {
+    // Undecryptable shares are disputed like invalid ones
+  }
 
-  if (!isValid) {
-    throw new Error(`Invalid share from participant ${pkg.fromIdx}`);
+  // Verify the share against the sender's VSS commitments
+  if (
+    decryptedShare === null ||
+    !isValidShare(session, pkg.fromIdx, session.config.myIndex, decryptedShare)
+  ) {
+    return processComplaint(session, {
+      complainerIdx: session.config.myIndex,
+      accusedIdx: pkg.fromIdx,
+      share: decryptedShare,
+    });
   }
 
   // Store the decrypted share
@@ -291,31 +358,190 @@ export function processRound2Package(
   const updatedPackages = new Map(session.round2Packages);
   updatedPackages.set(pkg.fromIdx, decryptedPkg);
 
-  // Check if we have all Round 2 packages
-  const allReceived = updatedPackages.size === session.config.maxSigners;
-
-  return {
+  return withComplaintState({
     ...session,
     round2Packages: updatedPackages,
-    state: allReceived ? "round2_complete" : session.state,
+  });
+}
+
+// ============================================================================
+// DKG Complaint Round - Identifiable Abort
+// ============================================================================
+
+/**
+ * Process a complaint about an invalid Round 2 share
+ *
+ * If the disputed share published by the complainer actually matches the
+ * accused's VSS commitments, the complaint is false and the complainer is
+ * disqualified. Otherwise the complaint stays open until the accused
+ * publishes a justification or the complaints are resolved.
+ */
+export function processComplaint(
+  session: DKGSession,
+  complaint: DKGComplaint
+): DKGSession {
+  if (
+    session.state !== "round1_complete" &&
+    session.state !== "round2_complete" &&
+    session.state !== "complaints"
+  ) {
+    throw new Error(`Invalid state for processing complaint: ${session.state}`);
+  }
+
+  const { complainerIdx, accusedIdx } = complaint;
+  const { maxSigners } = session.config;
+
+  if (complainerIdx < 1 || complainerIdx > maxSigners) {
+    throw new Error(`Invalid participant index: ${complainerIdx}`);
+  }
+  if (accusedIdx < 1 || accusedIdx > maxSigners || accusedIdx === complainerIdx) {
+    throw new Error(`Invalid participant index: ${accusedIdx}`);
+  }
+
+  // Complaints involving disqualified participants no longer matter
+  if (
+    session.disqualified.includes(complainerIdx) ||
+    session.disqualified.includes(accusedIdx) ||
+    session.complaints.some(
+      (c) => c.complainerIdx === complainerIdx && c.accusedIdx === accusedIdx
+    )
+  ) {
+    return session;
+  }
+
+  if (complaint.share !== null && isValidShare(session, accusedIdx, complainerIdx, complaint.share)) {
+    return disqualify(session, complainerIdx);
+  }
+
+  return withComplaintState({
+    ...session,
+    complaints: [...session.complaints, complaint],
+  });
+}
+
+/**
+ * Generate a justification for a complaint against this participant
+ *
+ * Reveals the share we sent to the complainer so every participant can
+ * check it against our VSS commitments.
+ */
+export function generateJustification(
+  session: DKGSession,
+  complaint: DKGComplaint
+): DKGJustification {
+  if (complaint.accusedIdx !== session.config.myIndex) {
+    throw new Error("Complaint is not against me");
+  }
+
+  if (!session.myRound1Secret) {
+    throw new Error("Round 1 secret not found");
+  }
+
+  const share = evaluatePolynomial(
+    session.myRound1Secret.coefficients,
+    BigInt(complaint.complainerIdx)
+  );
+
+  return {
+    fromIdx: session.config.myIndex,
+    toIdx: complaint.complainerIdx,
+    share: bigintToHex(share),
   };
 }
 
+/**
+ * Process a justification published by an accused participant
+ *
+ * A valid revealed share dismisses the complaint (and replaces the
+ * complainer's share); an invalid one disqualifies the accused.
+ */
+export function processJustification(
+  session: DKGSession,
+  justification: DKGJustification
+): DKGSession {
+  const { fromIdx, toIdx, share } = justification;
+
+  const complaint = session.complaints.find(
+    (c) => c.accusedIdx === fromIdx && c.complainerIdx === toIdx
+  );
+  if (!complaint) {
+    return session;
+  }
+
+  if (!isValidShare(session, fromIdx, toIdx, share)) {
+    return disqualify(session, fromIdx);
+  }
+
+  const round2Packages = new Map(session.round2Packages);
+  if (toIdx === session.config.myIndex) {
+    round2Packages.set(fromIdx, { fromIdx, toIdx, encryptedShare: share });
+  }
+
+  return withComplaintState({
+    ...session,
+    round2Packages,
+    complaints: session.complaints.filter((c) => c !== complaint),
+  });
+}
+
+/**
+ * Disqualify every participant with an unanswered complaint
+ *
+ * Call this once the justification deadline has passed.
+ */
+export function resolveComplaints(session: DKGSession): DKGSession {
+  let updated = session;
+
+  for (const { accusedIdx } of session.complaints) {
+    updated = disqualify(updated, accusedIdx);
+  }
+
+  return updated;
+}
+
+/**
+ * Get the indices of the participants whose contributions count
+ */
+export function getQualifiedParticipants(session: DKGSession): ParticipantId[] {
+  const qualified: ParticipantId[] = [];
+
+  for (let idx = 1; idx <= session.config.maxSigners; idx++) {
+    if (!session.disqualified.includes(idx)) {
+      qualified.push(idx);
+    }
+  }
+
+  return qualified;
+}
+
 // ============================================================================
 // DKG Round 3 - Finalization
 // ============================================================================
 
 /**
  * Finalize the DKG session and produce the key package
+ *
+ * Throws if this participant was disqualified, since its share is not
+ * part of the group key.
  */
 export function finalizeDKG(session: DKGSession): { keyPackage: KeyPackage; session: DKGSession } {
   if (session.state !== "round2_complete") {
     throw new Error(`Invalid state for finalization: ${session.state}`);
   }
+  if (session.disqualified.includes(session.config.myIndex)) {
+    throw new Error(`Participant ${session.config.myIndex} was disqualified from the DKG`);
+  }
+
+  // Only contributions from the qualified set count
+  const qualified = getQualifiedParticipants(session);
+  const round1Packages = new Map(
+    Array.from(session.round1Packages).filter(([idx]) => qualified.includes(idx))
+  );
 
   // Aggregate all shares to get final secret share
   let aggregatedSecret = 0n;
-  for (const [, pkg] of session.round2Packages) {
+  for (const [idx, pkg] of session.round2Packages) {
+    if (!qualified.includes(idx)) continue;
     aggregatedSecret += BigInt("0x" + pkg.encryptedShare);
   }
   // Mod by curve order
@@ -329,11 +555,11 @@ export function finalizeDKG(session: DKGSession): { keyPackage: KeyPackage; sess
 
   // Aggregate VSS commitments to get group public key
   // The group public key is the sum of all participants' first VSS commitment
-  const groupPubkeyPoint = aggregateFirstCommitments(session.round1Packages);
+  const groupPubkeyPoint = aggregateFirstCommitments(round1Packages);
 
   // Aggregate all VSS commitments for verification
   const aggregatedCommitments = aggregateVSSCommitments(
-    session.round1Packages,
+    round1Packages,
     session.config.threshold
   );
 
@@ -355,10 +581,207 @@ export function finalizeDKG(session: DKGSession): { keyPackage: KeyPackage; sess
   };
 }
 
+// ============================================================================
+// Weighted Share Issuance
+// ============================================================================
+
+/**
+ * Expand weighted participants into a DKG participant list
+ *
+ * Each participant gets `weight` consecutive share indices, so an admin
+ * with weight 2 counts twice towards the threshold. The result is used as
+ * `DKGConfig.participants`, with max signers equal to its length.
+ */
+export function expandWeightedParticipants(participants: WeightedParticipant[]): Pubkey[] {
+  const pubkeys = participants.map((p) => p.pubkey);
+  if (new Set(pubkeys).size !== pubkeys.length) {
+    throw new Error("Duplicate weighted participants");
+  }
+
+  const expanded: Pubkey[] = [];
+
+  for (const { pubkey, weight } of participants) {
+    if (!Number.isInteger(weight) || weight < 1) {
+      throw new Error(`Invalid weight for participant ${pubkey}: ${weight}`);
+    }
+
+    for (let i = 0; i < weight; i++) {
+      expanded.push(pubkey);
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Get the share indices held by a pubkey
+ */
+export function getParticipantIndices(participants: Pubkey[], pubkey: Pubkey): number[] {
+  return participants.flatMap((p, i) => (p === pubkey ? [i + 1] : []));
+}
+
+/**
+ * Create a DKG session for every share index of a weighted participant
+ *
+ * The sessions run the usual rounds side by side; packages between two
+ * of our own indices are passed locally instead of over the relay.
+ */
+export function createWeightedDKGSessions(config: Omit<DKGConfig, "myIndex">): DKGSession[] {
+  const pubkey = getPublicKey(hexToBytes(config.mySecretKey));
+  const indices = getParticipantIndices(config.participants, pubkey);
+
+  if (indices.length === 0) {
+    throw new Error("Secret key is not a DKG participant");
+  }
+
+  return indices.map((myIndex) => createDKGSession({ ...config, myIndex }));
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Generate a Schnorr proof of knowledge of a polynomial's constant term
+ *
+ * The challenge commits to the session ID, participant index and the
+ * participant's nostr pubkey, so a proof cannot be replayed in another
+ * session or by another participant.
+ */
+function generateProofOfKnowledge(
+  sessionId: Hex,
+  idx: number,
+  pubkey: Pubkey,
+  secret: bigint,
+  commitment: Hex
+): Hex {
+  const nonce = mod(BigInt("0x" + Util.random_bytes(32).hex));
+  const R = ECC.G.SerializeElement(ECC.G.ScalarBaseMulti(nonce)).hex;
+  const challenge = getProofChallenge(sessionId, idx, pubkey, commitment, R);
+  const mu = mod(nonce + secret * challenge);
+
+  return R + bigintToHex(mu);
+}
+
+/**
+ * Verify a Schnorr proof of knowledge: mu * G == R + c * commitment
+ */
+function verifyProofOfKnowledge(
+  sessionId: Hex,
+  idx: number,
+  pubkey: Pubkey,
+  commitment: Hex,
+  proof: Hex
+): boolean {
+  if (!/^[0-9a-f]{130}$/i.test(proof)) {
+    return false;
+  }
+
+  try {
+    const R = proof.slice(0, 66).toLowerCase();
+    const mu = BigInt("0x" + proof.slice(66));
+    const challenge = getProofChallenge(sessionId, idx, pubkey, commitment, R);
+
+    const lhs = ECC.G.ScalarBaseMulti(mu);
+    const rhs = ECC.G.ElementAdd(
+      ECC.G.DeserializeElement(R),
+      ECC.G.ScalarMulti(ECC.G.DeserializeElement(commitment), challenge)
+    );
+
+    return lhs.equals(rhs);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compute the proof of knowledge challenge H(tag || sessionId || idx || pubkey || C || R)
+ */
+function getProofChallenge(
+  sessionId: Hex,
+  idx: number,
+  pubkey: Pubkey,
+  commitment: Hex,
+  R: Hex
+): bigint {
+  const hash = sha256(
+    concatBytes(
+      utf8ToBytes("nkg/dkg-pok"),
+      utf8ToBytes(sessionId),
+      hexToBytes(idx.toString(16).padStart(8, "0")),
+      hexToBytes(pubkey),
+      hexToBytes(commitment),
+      hexToBytes(R)
+    )
+  );
+
+  return mod(BigInt("0x" + bytesToHex(hash)));
+}
+
+/**
+ * Check a share sent from one participant to another against the sender's
+ * VSS commitments
+ */
+function isValidShare(
+  session: DKGSession,
+  fromIdx: number,
+  toIdx: number,
+  share: Hex
+): boolean {
+  const senderRound1 = session.round1Packages.get(fromIdx);
+  if (!senderRound1 || !/^[0-9a-f]{64}$/i.test(share)) {
+    return false;
+  }
+
+  try {
+    return Lib.verify_share(
+      senderRound1.vssCommitments,
+      { idx: toIdx, seckey: share },
+      session.config.threshold
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Exclude a participant from the qualified set
+ */
+function disqualify(session: DKGSession, idx: ParticipantId): DKGSession {
+  if (session.disqualified.includes(idx)) {
+    return session;
+  }
+
+  return withComplaintState({
+    ...session,
+    disqualified: [...session.disqualified, idx],
+    complaints: session.complaints.filter(
+      (c) => c.accusedIdx !== idx && c.complainerIdx !== idx
+    ),
+  });
+}
+
+/**
+ * Derive the Round 2 state from the received shares, open complaints and
+ * qualified set
+ */
+function withComplaintState(session: DKGSession): DKGSession {
+  const qualified = getQualifiedParticipants(session);
+
+  let state: DKGState;
+  if (qualified.length < session.config.threshold) {
+    state = "failed";
+  } else if (session.complaints.length > 0) {
+    state = "complaints";
+  } else if (qualified.every((idx) => session.round2Packages.has(idx))) {
+    state = "round2_complete";
+  } else {
+    state = "round1_complete";
+  }
+
+  return { ...session, state };
+}
+
 /**
  * Evaluate a polynomial at a given x value
  */
@@ -610,3 +1033,505 @@ export function verifyRefreshedShare(
     return false;
   }
 }
+
+// ============================================================================
+// Share Redistribution (Resharing)
+// ============================================================================
+
+/** Public parameters of a key group, as known to a new share holder */
+export type GroupKeyInfo = Omit<KeyPackage, "share">;
+
+/** Reshare package from one of the current share holders */
+export interface ResharePackage {
+  /** Current share index of the dealer */
+  fromIdx: number;
+  /** Current share indices taking part in the reshare */
+  dealerIndices: number[];
+  /** Sub-shares for each new share index (1..new max signers) */
+  shares: SecretShare[];
+  /** VSS commitments to the dealer's new polynomial (new threshold length) */
+  vssCommitments: Hex[];
+}
+
+/**
+ * Generate a reshare package for a new admin set and threshold
+ *
+ * At least `threshold` current holders (the dealers) each deal their
+ * Lagrange-weighted share to the new indices with a fresh polynomial of
+ * degree newThreshold - 1. The sub-shares sum to shares of the same group
+ * secret on a new polynomial, so shares held by removed admins no longer
+ * combine with the new ones.
+ */
+export function generateReshareShares(
+  keyPackage: KeyPackage,
+  dealerIndices: number[],
+  newThreshold: number,
+  newMaxSigners: number
+): ResharePackage {
+  const { share, threshold, maxSigners } = keyPackage;
+
+  validateDealerIndices(dealerIndices, threshold, maxSigners);
+
+  if (!dealerIndices.includes(share.idx)) {
+    throw new Error(`Participant ${share.idx} is not a reshare dealer`);
+  }
+  if (newThreshold < 2) {
+    throw new Error("Threshold must be at least 2");
+  }
+  if (newThreshold > newMaxSigners) {
+    throw new Error("Threshold cannot exceed max signers");
+  }
+
+  // Our contribution to the group secret within the dealer set
+  const lambda = getLagrangeCoefficient(dealerIndices, share.idx);
+  const weightedSecret = mod(lambda * BigInt("0x" + share.seckey));
+
+  const coefficients = Lib.create_share_coeffs([bigintToHex(weightedSecret)], newThreshold);
+
+  return {
+    fromIdx: share.idx,
+    dealerIndices: [...dealerIndices].sort((a, b) => a - b),
+    shares: Lib.create_shares(coefficients, newMaxSigners),
+    vssCommitments: Lib.get_share_commits(coefficients),
+  };
+}
+
+/**
+ * Verify a reshare package for a new share index
+ *
+ * Checks that the dealer's constant commitment matches its weighted public
+ * share in the current group, and that the sub-share for `newIdx` matches
+ * the dealer's commitments.
+ */
+export function verifyResharePackage(
+  group: GroupKeyInfo,
+  pkg: ResharePackage,
+  newIdx: number
+): boolean {
+  try {
+    const lambda = getLagrangeCoefficient(pkg.dealerIndices, pkg.fromIdx);
+    const publicShare = ECC.G.DeserializeElement(
+      getPublicShare(group.vssCommitments, pkg.fromIdx)
+    );
+    const expected = ECC.G.SerializeElement(ECC.G.ScalarMulti(publicShare, lambda)).hex;
+
+    if (pkg.vssCommitments[0]?.toLowerCase() !== expected) {
+      return false;
+    }
+
+    const share = pkg.shares.find((s) => s.idx === newIdx);
+    if (!share) {
+      return false;
+    }
+
+    return Lib.verify_share(pkg.vssCommitments, share, pkg.vssCommitments.length);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Combine reshare packages into a new key package
+ *
+ * Called by each holder of the new admin set with a package from every
+ * dealer. The group public key stays the same; the threshold, max signers
+ * and VSS commitments are those of the new polynomial.
+ */
+export function applyReshareShares(
+  group: GroupKeyInfo,
+  newIdx: number,
+  packages: ResharePackage[]
+): KeyPackage {
+  const first = packages[0];
+  if (!first) {
+    throw new Error("No reshare packages");
+  }
+
+  const { dealerIndices } = first;
+  const newThreshold = first.vssCommitments.length;
+  const newMaxSigners = first.shares.length;
+
+  validateDealerIndices(dealerIndices, group.threshold, group.maxSigners);
+
+  if (newIdx < 1 || newIdx > newMaxSigners) {
+    throw new Error(`Invalid share index: ${newIdx}`);
+  }
+
+  const fromIndices = packages.map((pkg) => pkg.fromIdx).sort((a, b) => a - b);
+  if (fromIndices.join(",") !== dealerIndices.join(",")) {
+    throw new Error("Reshare packages do not match the dealer set");
+  }
+
+  const myShares: SecretShare[] = [];
+
+  for (const pkg of packages) {
+    if (
+      pkg.dealerIndices.join(",") !== dealerIndices.join(",") ||
+      pkg.vssCommitments.length !== newThreshold ||
+      pkg.shares.length !== newMaxSigners
+    ) {
+      throw new Error(`Inconsistent reshare parameters from participant ${pkg.fromIdx}`);
+    }
+
+    if (!verifyResharePackage(group, pkg, newIdx)) {
+      throw new Error(`Invalid reshare package from participant ${pkg.fromIdx}`);
+    }
+
+    myShares.push(pkg.shares.find((s) => s.idx === newIdx)!);
+  }
+
+  // The dealers' constant terms must add up to the group secret
+  let vssCommitments = first.vssCommitments;
+  for (let i = 1; i < packages.length; i++) {
+    vssCommitments = Lib.merge_share_commits(vssCommitments, packages[i]!.vssCommitments);
+  }
+
+  if (vssCommitments[0]!.toLowerCase() !== group.groupPubkey.toLowerCase()) {
+    throw new Error("Reshared commitments do not match the group public key");
+  }
+
+  return {
+    share: { idx: newIdx, seckey: Lib.combine_shares(myShares) },
+    groupPubkey: group.groupPubkey,
+    vssCommitments,
+    threshold: newThreshold,
+    maxSigners: newMaxSigners,
+  };
+}
+
+/**
+ * Get the public share of a participant from the group's VSS commitments
+ */
+export function getPublicShare(vssCommitments: Hex[], idx: number): Hex {
+  let point: CurveElement | null = null;
+  let power = 1n;
+
+  for (const commitment of vssCommitments) {
+    const term = ECC.G.ScalarMulti(ECC.G.DeserializeElement(commitment), power);
+    point = ECC.G.ElementAdd(point, term);
+    power = mod(power * BigInt(idx));
+  }
+
+  if (!point) {
+    throw new Error("No VSS commitments");
+  }
+
+  return ECC.G.SerializeElement(point).hex;
+}
+
+/**
+ * Check that a dealer set is large enough and refers to existing shares
+ */
+function validateDealerIndices(
+  dealerIndices: number[],
+  threshold: number,
+  maxSigners: number,
+  protocol = "reshare"
+): void {
+  if (new Set(dealerIndices).size !== dealerIndices.length) {
+    throw new Error(`Duplicate ${protocol} dealer indices`);
+  }
+  if (dealerIndices.length < threshold) {
+    throw new Error(
+      `Not enough ${protocol} dealers: need ${threshold}, got ${dealerIndices.length}`
+    );
+  }
+  for (const idx of dealerIndices) {
+    if (idx < 1 || idx > maxSigners) {
+      throw new Error(`Invalid participant index: ${idx}`);
+    }
+  }
+}
+
+/**
+ * Lagrange coefficient at zero for a participant within a set of indices
+ */
+function getLagrangeCoefficient(indices: number[], idx: number): bigint {
+  return Lib.calc_lagrange_coeff(indices.map(BigInt), BigInt(idx), 0n);
+}
+
+/**
+ * Reduce a scalar modulo the curve order
+ */
+function mod(n: bigint): bigint {
+  const CURVE_ORDER = 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141n;
+  return ((n % CURVE_ORDER) + CURVE_ORDER) % CURVE_ORDER;
+}
+
+// ============================================================================
+// Threshold Change
+// ============================================================================
+
+/** Threshold change package from one of the current admins */
+export interface ThresholdChangePackage {
+  /** Share index of the dealer */
+  fromIdx: number;
+  /** Share indices taking part in the threshold change */
+  dealerIndices: number[];
+  /** Threshold the group moves to */
+  newThreshold: number;
+  /** Sub-shares for each share index (1..max signers) */
+  shares: SecretShare[];
+  /**
+   * VSS commitments to the dealer's polynomial. When raising the threshold
+   * this is a zero polynomial and the constant term is left out
+   * (newThreshold - 1 commitments); when lowering it is a reshare
+   * polynomial (newThreshold commitments).
+   */
+  vssCommitments: Hex[];
+}
+
+/**
+ * Generate a threshold change package for the same admin set
+ *
+ * Raising the threshold works like a refresh with a higher degree: each
+ * dealer deals a random polynomial of degree newThreshold - 1 with a zero
+ * constant term, so the group secret and public key stay the same while
+ * the combined polynomial gains degree. Lowering the threshold cannot be
+ * done by adding to the current shares, so the dealers reshare the group
+ * secret to the same indices on a polynomial of degree newThreshold - 1.
+ *
+ * To also add or remove admins, use generateReshareShares instead.
+ */
+export function generateThresholdChangeShares(
+  keyPackage: KeyPackage,
+  dealerIndices: number[],
+  newThreshold: number
+): ThresholdChangePackage {
+  const { share, threshold, maxSigners } = keyPackage;
+
+  validateThresholdChange(threshold, maxSigners, newThreshold);
+  validateDealerIndices(dealerIndices, threshold, maxSigners, "threshold change");
+
+  if (!dealerIndices.includes(share.idx)) {
+    throw new Error(`Participant ${share.idx} is not a threshold change dealer`);
+  }
+
+  if (newThreshold < threshold) {
+    return {
+      ...generateReshareShares(keyPackage, dealerIndices, newThreshold, maxSigners),
+      newThreshold,
+    };
+  }
+
+  const coefficients = [0n];
+  for (let i = 1; i < newThreshold; i++) {
+    coefficients.push(mod(BigInt("0x" + Util.random_bytes(32).hex)));
+  }
+
+  const shares: SecretShare[] = [];
+  for (let idx = 1; idx <= maxSigners; idx++) {
+    shares.push({ idx, seckey: bigintToHex(evaluatePolynomial(coefficients, BigInt(idx))) });
+  }
+
+  return {
+    fromIdx: share.idx,
+    dealerIndices: [...dealerIndices].sort((a, b) => a - b),
+    newThreshold,
+    shares,
+    vssCommitments: Lib.get_share_commits(coefficients.slice(1)),
+  };
+}
+
+/**
+ * Verify a threshold change package for a share index
+ */
+export function verifyThresholdChangePackage(
+  group: GroupKeyInfo,
+  pkg: ThresholdChangePackage,
+  idx: number
+): boolean {
+  if (pkg.newThreshold < group.threshold) {
+    return (
+      pkg.vssCommitments.length === pkg.newThreshold && verifyResharePackage(group, pkg, idx)
+    );
+  }
+
+  try {
+    if (pkg.vssCommitments.length !== pkg.newThreshold - 1) {
+      return false;
+    }
+
+    const share = pkg.shares.find((s) => s.idx === idx);
+    if (!share) {
+      return false;
+    }
+
+    // With a zero constant term, f(x) * G = x * sum(C_k * x^(k - 1))
+    const point = ECC.G.DeserializeElement(getPublicShare(pkg.vssCommitments, idx));
+    const expected = ECC.G.SerializeElement(ECC.G.ScalarMulti(point, BigInt(idx))).hex;
+    const actual = ECC.G.SerializeElement(
+      ECC.G.ScalarBaseMulti(BigInt("0x" + share.seckey))
+    ).hex;
+
+    return actual === expected;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Combine threshold change packages into a new key package
+ *
+ * Called by every admin with a package from each dealer (only the
+ * sub-share for its own index is needed). Every package is verified, and
+ * the new share is checked against the new VSS commitments, which have
+ * newThreshold entries and still start with the group public key. Admins
+ * should compare the resulting commitments with each other before
+ * replacing their key package.
+ */
+export function applyThresholdChangeShares(
+  keyPackage: KeyPackage,
+  packages: ThresholdChangePackage[]
+): KeyPackage {
+  const first = packages[0];
+  if (!first) {
+    throw new Error("No threshold change packages");
+  }
+
+  const { share: currentShare, ...group } = keyPackage;
+  const { dealerIndices, newThreshold } = first;
+  const idx = currentShare.idx;
+
+  validateThresholdChange(group.threshold, group.maxSigners, newThreshold);
+  validateDealerIndices(dealerIndices, group.threshold, group.maxSigners, "threshold change");
+
+  const fromIndices = packages.map((pkg) => pkg.fromIdx).sort((a, b) => a - b);
+  if (fromIndices.join(",") !== dealerIndices.join(",")) {
+    throw new Error("Threshold change packages do not match the dealer set");
+  }
+
+  const myShares: SecretShare[] = [];
+
+  for (const pkg of packages) {
+    if (
+      pkg.dealerIndices.join(",") !== dealerIndices.join(",") ||
+      pkg.newThreshold !== newThreshold
+    ) {
+      throw new Error(`Inconsistent threshold change parameters from participant ${pkg.fromIdx}`);
+    }
+
+    if (!verifyThresholdChangePackage(group, pkg, idx)) {
+      throw new Error(`Invalid threshold change package from participant ${pkg.fromIdx}`);
+    }
+
+    myShares.push(pkg.shares.find((s) => s.idx === idx)!);
+  }
+
+  let dealtCommitments = first.vssCommitments;
+  for (let i = 1; i < packages.length; i++) {
+    dealtCommitments = Lib.merge_share_commits(dealtCommitments, packages[i]!.vssCommitments);
+  }
+
+  let share: SecretShare;
+  let vssCommitments: Hex[];
+
+  if (newThreshold < group.threshold) {
+    // The reshared sub-shares replace the current share
+    share = { idx, seckey: Lib.combine_shares(myShares) };
+    vssCommitments = dealtCommitments;
+  } else {
+    // The zero polynomials are added to the current one, raising its degree
+    share = { idx, seckey: Lib.combine_shares([currentShare, ...myShares]) };
+    vssCommitments = [group.vssCommitments[0]!];
+
+    for (let k = 1; k < newThreshold; k++) {
+      const current = group.vssCommitments[k];
+      const dealt = dealtCommitments[k - 1]!;
+      vssCommitments.push(current ? Lib.merge_share_commits([current], [dealt])[0]! : dealt);
+    }
+  }
+
+  if (vssCommitments[0]!.toLowerCase() !== group.groupPubkey.toLowerCase()) {
+    throw new Error("Changed commitments do not match the group public key");
+  }
+  if (!Lib.verify_share(vssCommitments, share, newThreshold)) {
+    throw new Error("Changed share does not match the new commitments");
+  }
+
+  return {
+    ...keyPackage,
+    share,
+    vssCommitments,
+    threshold: newThreshold,
+  };
+}
+
+/**
+ * Check that a new threshold is valid and differs from the current one
+ */
+function validateThresholdChange(
+  threshold: number,
+  maxSigners: number,
+  newThreshold: number
+): void {
+  if (!Number.isInteger(newThreshold) || newThreshold < 2) {
+    throw new Error("Threshold must be at least 2");
+  }
+  if (newThreshold > maxSigners) {
+    throw new Error("Threshold cannot exceed max signers");
+  }
+  if (newThreshold === threshold) {
+    throw new Error("Threshold is unchanged; refresh the shares instead");
+  }
+}
+
+// ============================================================================
+// Emergency Secret Reconstruction
+// ============================================================================
+
+/**
+ * DANGER: reconstruct the full group secret key from key shares
+ *
+ * This ends threshold custody: whoever runs it holds the group key and
+ * can sign anything alone. Only use it for emergency recovery, or when a
+ * community decides to abandon threshold custody. Every share is checked
+ * against the group's VSS commitments, and the interpolated secret
+ * against the group public key.
+ */
+export function dangerouslyReconstructGroupSecret(
+  shares: SecretShare[],
+  group: GroupKeyInfo
+): Hex {
+  const { threshold, maxSigners, vssCommitments, groupPubkey } = group;
+  const indices = shares.map((share) => share.idx);
+
+  if (new Set(indices).size !== indices.length) {
+    throw new Error("Duplicate share indices");
+  }
+  if (shares.length < threshold) {
+    throw new Error(`Not enough shares: need ${threshold}, got ${shares.length}`);
+  }
+
+  for (const share of shares) {
+    if (share.idx < 1 || share.idx > maxSigners) {
+      throw new Error(`Invalid participant index: ${share.idx}`);
+    }
+    if (!Lib.verify_share(vssCommitments, share, threshold)) {
+      throw new Error(`Share ${share.idx} does not match VSS commitments`);
+    }
+  }
+
+  let secret = 0n;
+  for (const share of shares) {
+    const lambda = getLagrangeCoefficient(indices, share.idx);
+    secret = mod(secret + BigInt("0x" + share.seckey) * lambda);
+  }
+
+  if (ECC.G.SerializeElement(ECC.G.ScalarBaseMulti(secret)).hex !== groupPubkey) {
+    throw new Error("Reconstructed secret does not match the group public key");
+  }
+
+  return bigintToHex(secret);
+}
+
+/**
+ * DANGER: reconstruct the group secret key and encode it as a plain nsec
+ *
+ * See dangerouslyReconstructGroupSecret. The nsec controls the group's
+ * nostr identity on its own; the key shares should be destroyed after
+ * migrating to it.
+ */
+export function dangerouslyExportGroupNsec(shares: SecretShare[], group: GroupKeyInfo): string {
+  return nip19.nsecEncode(hexToBytes(dangerouslyReconstructGroupSecret(shares, group)));
+}
@@ -0,0 +1,582 @@
+/**
+ * @nkg/signer - Threshold ECDH for NIP-44 messages to the group key
+ *
+ * Messages encrypted to the group pubkey need the ECDH point between the
+ * group secret and the sender's key. Each admin contributes its key share
+ * times the peer's public key, with a DLEQ proof that it used the same
+ * share as its public share in the VSS commitments. Any `threshold` valid
+ * contributions are Lagrange-combined into the shared point, from which
+ * the NIP-44 conversation key is derived; the group secret is never
+ * reconstructed.
+ */
+
+import { ECC, Lib, Util, type CurveElement } from "@cmdcode/frost";
+import { sha256 } from "@noble/hashes/sha256";
+import { extract } from "@noble/hashes/hkdf";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { finalizeEvent, getPublicKey, nip44, verifyEvent, type Event } from "nostr-tools";
+
+import { generateSessionId, getPublicShare, type GroupKeyInfo } from "./dkg.js";
+
+import {
+  ECDH_EVENT_KINDS,
+  PROTOCOL_TAGS,
+  type DecryptionCoordinatorConfig,
+  type ECDHShare,
+  type Hex,
+  type KeyPackage,
+  type ParticipantId,
+  type Pubkey,
+} from "./types.js";
+
+// Re-export types
+export type { DecryptionCoordinatorConfig, ECDHShare };
+
+// ============================================================================
+// ECDH Shares
+// ============================================================================
+
+/**
+ * Create this admin's ECDH share with a peer pubkey
+ */
+export function createECDHShare(keyPackage: KeyPackage, peerPubkey: Pubkey): ECDHShare {
+  const { share, vssCommitments } = keyPackage;
+  const secret = BigInt("0x" + share.seckey);
+
+  const peer = liftPeerPubkey(peerPubkey);
+  const publicShare = getPublicShare(vssCommitments, share.idx);
+  const point = ECC.G.SerializeElement(ECC.G.ScalarMulti(peer, secret)).hex;
+
+  // DLEQ proof: log_G(publicShare) == log_peer(point)
+  const nonce = mod(BigInt("0x" + Util.random_bytes(32).hex));
+  const A1 = ECC.G.SerializeElement(ECC.G.ScalarBaseMulti(nonce)).hex;
+  const A2 = ECC.G.SerializeElement(ECC.G.ScalarMulti(peer, nonce)).hex;
+  const challenge = getDLEQChallenge(publicShare, peerPubkey, point, A1, A2);
+  const z = mod(nonce + challenge * secret);
+
+  return {
+    idx: share.idx,
+    peerPubkey,
+    point,
+    proof: A1 + A2 + bigintToHex(z),
+  };
+}
+
+/**
+ * Verify an ECDH share's DLEQ proof against the group's VSS commitments
+ */
+export function verifyECDHShare(group: GroupKeyInfo, share: ECDHShare): boolean {
+  if (!/^[0-9a-f]{196}$/i.test(share.proof) || !/^[0-9a-f]{66}$/i.test(share.point)) {
+    return false;
+  }
+  if (share.idx < 1 || share.idx > group.maxSigners) {
+    return false;
+  }
+
+  try {
+    const peer = liftPeerPubkey(share.peerPubkey);
+    const publicShare = getPublicShare(group.vssCommitments, share.idx);
+    const A1 = share.proof.slice(0, 66).toLowerCase();
+    const A2 = share.proof.slice(66, 132).toLowerCase();
+    const z = BigInt("0x" + share.proof.slice(132));
+    const challenge = getDLEQChallenge(publicShare, share.peerPubkey, share.point, A1, A2);
+
+    // z * G == A1 + c * publicShare
+    const lhs1 = ECC.G.ScalarBaseMulti(z);
+    const rhs1 = ECC.G.ElementAdd(
+      ECC.G.DeserializeElement(A1),
+      ECC.G.ScalarMulti(ECC.G.DeserializeElement(publicShare), challenge)
+    );
+
+    // z * peer == A2 + c * point
+    const lhs2 = ECC.G.ScalarMulti(peer, z);
+    const rhs2 = ECC.G.ElementAdd(
+      ECC.G.DeserializeElement(A2),
+      ECC.G.ScalarMulti(ECC.G.DeserializeElement(share.point), challenge)
+    );
+
+    return lhs1.equals(rhs1) && lhs2.equals(rhs2);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Combine ECDH shares into the NIP-44 conversation key with a peer
+ *
+ * Needs at least `threshold` shares; each one is verified first. The
+ * result is the same key as nip44.v2.utils.getConversationKey would give
+ * with the group secret, so it can be passed to nip44.v2.encrypt and
+ * nip44.v2.decrypt directly.
+ */
+export function combineECDHShares(
+  group: GroupKeyInfo,
+  peerPubkey: Pubkey,
+  shares: ECDHShare[]
+): Uint8Array {
+  const indices = shares.map((s) => s.idx);
+
+  if (new Set(indices).size !== indices.length) {
+    throw new Error("Duplicate ECDH share indices");
+  }
+  if (shares.length < group.threshold) {
+    throw new Error(`Not enough ECDH shares: need ${group.threshold}, got ${shares.length}`);
+  }
+
+  let point: CurveElement | null = null;
+
+  for (const share of shares) {
+    if (share.peerPubkey !== peerPubkey) {
+      throw new Error(`ECDH share from participant ${share.idx} is for another peer`);
+    }
+    if (!verifyECDHShare(group, share)) {
+      throw new Error(`Invalid ECDH share from participant ${share.idx}`);
+    }
+
+    const lambda = Lib.calc_lagrange_coeff(indices.map(BigInt), BigInt(share.idx), 0n);
+    const term = ECC.G.ScalarMulti(ECC.G.DeserializeElement(share.point), mod(lambda));
+    point = ECC.G.ElementAdd(point, term);
+  }
+
+  // NIP-44 uses the x coordinate of the shared point
+  const sharedX = hexToBytes(ECC.G.SerializeElement(point!).hex.slice(2));
+  return extract(sha256, sharedX, utf8ToBytes("nip44-v2"));
+}
+
+// ============================================================================
+// Protocol Event Creation
+// ============================================================================
+
+/**
+ * Create a request for ECDH shares with a peer (broadcast to all admins)
+ */
+export function createECDHRequestEvent(
+  sessionId: Hex,
+  groupPubkey: Hex,
+  peerPubkey: Pubkey,
+  participants: Pubkey[],
+  secretKey: Hex
+): Event {
+  return finalizeEvent({
+    kind: ECDH_EVENT_KINDS.REQUEST,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, sessionId],
+      [PROTOCOL_TAGS.GROUP_PUBKEY, groupPubkey],
+      [PROTOCOL_TAGS.PEER, peerPubkey],
+      ...participants.map((p) => [PROTOCOL_TAGS.RECIPIENT, p]),
+    ],
+    content: "",
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Create an encrypted ECDH share event for the requesting admin
+ */
+export function createECDHShareEvent(
+  sessionId: Hex,
+  share: ECDHShare,
+  recipient: Pubkey,
+  secretKey: Hex
+): Event {
+  const conversationKey = nip44.v2.utils.getConversationKey(
+    hexToBytes(secretKey),
+    recipient
+  );
+
+  return finalizeEvent({
+    kind: ECDH_EVENT_KINDS.SHARE,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, sessionId],
+      [PROTOCOL_TAGS.INDEX, share.idx.toString()],
+      [PROTOCOL_TAGS.RECIPIENT, recipient],
+    ],
+    content: nip44.v2.encrypt(JSON.stringify(share), conversationKey),
+  }, hexToBytes(secretKey));
+}
+
+// ============================================================================
+// Decryption Coordinator
+// ============================================================================
+
+/**
+ * Oldest protocol event handled (seconds), also how far back the
+ * subscription reaches. Handled event IDs are forgotten after it.
+ */
+const EVENT_MAX_AGE = 300;
+
+/** Local state for an ECDH request we sent */
+interface PendingRequest {
+  peerPubkey: Pubkey;
+  /** Valid ECDH shares received, by sender index */
+  shares: Map<ParticipantId, ECDHShare>;
+  /** Admins whose share was malformed or failed its proof */
+  invalid: ParticipantId[];
+  resolve: (conversationKey: Uint8Array) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Decrypts and encrypts NIP-44 messages for the group key with the admins
+ */
+export class DecryptionCoordinator {
+  private config: DecryptionCoordinatorConfig;
+  private pubkey: Pubkey;
+  private pending: Map<Hex, PendingRequest> = new Map();
+  private conversationKeys: Map<Pubkey, Uint8Array> = new Map();
+  /** Events already handled, with their creation time */
+  private handled: Map<Hex, number> = new Map();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(config: DecryptionCoordinatorConfig) {
+    const { keyPackage, participants } = config;
+
+    if (participants.length !== keyPackage.maxSigners) {
+      throw new Error("Number of participants must equal max signers");
+    }
+
+    this.config = {
+      timeoutMs: 60000,
+      ...config,
+    };
+    this.pubkey = getPublicKey(hexToBytes(config.secretKey));
+
+    if (participants[keyPackage.share.idx - 1] !== this.pubkey) {
+      throw new Error("Secret key does not match this participant's index");
+    }
+  }
+
+  /**
+   * Start listening for ECDH protocol events addressed to us
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.config.transport.subscribe(
+      `ecdh-${this.pubkey.slice(0, 8)}-${this.config.keyPackage.share.idx}`,
+      [
+        {
+          kinds: Object.values(ECDH_EVENT_KINDS),
+          "#p": [this.pubkey],
+          since: Math.floor(Date.now() / 1000) - EVENT_MAX_AGE,
+        },
+      ],
+      (event) => this.handleEvent(event)
+    );
+  }
+
+  /**
+   * Stop listening and abort all requests in progress
+   */
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    for (const sessionId of Array.from(this.pending.keys())) {
+      this.fail(sessionId, new Error("Decryption coordinator stopped"));
+    }
+  }
+
+  /**
+   * Get the NIP-44 conversation key between the group key and a peer
+   *
+   * Asks the other admins for their ECDH shares; the key is kept in
+   * memory once `threshold` valid shares have been combined.
+   */
+  async getConversationKey(peerPubkey: Pubkey): Promise<Uint8Array> {
+    if (!/^[0-9a-f]{64}$/.test(peerPubkey)) {
+      throw new Error(`Invalid peer pubkey: ${peerPubkey}`);
+    }
+
+    const cached = this.conversationKeys.get(peerPubkey);
+    if (cached) {
+      return cached;
+    }
+
+    const { keyPackage, participants, secretKey } = this.config;
+    const sessionId = generateSessionId();
+
+    const result = new Promise<Uint8Array>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        const invalid = this.pending.get(sessionId)?.invalid ?? [];
+        this.fail(
+          sessionId,
+          new Error(
+            `ECDH session ${sessionId} timed out` +
+              (invalid.length > 0 ? `, invalid shares from: ${invalid.join(", ")}` : "")
+          )
+        );
+      }, this.config.timeoutMs);
+
+      this.pending.set(sessionId, {
+        peerPubkey,
+        shares: new Map(),
+        invalid: [],
+        resolve,
+        reject,
+        timeout,
+      });
+    });
+
+    try {
+      await this.config.transport.publish(
+        createECDHRequestEvent(
+          sessionId,
+          keyPackage.groupPubkey,
+          peerPubkey,
+          // Includes our own pubkey if we hold other shares
+          participants.filter((_, i) => i + 1 !== keyPackage.share.idx),
+          secretKey
+        )
+      );
+      this.addShare(sessionId, createECDHShare(keyPackage, peerPubkey));
+    } catch (error) {
+      this.fail(sessionId, toError(error));
+    }
+
+    return result;
+  }
+
+  /**
+   * Decrypt a NIP-44 payload a peer sent to the group key
+   */
+  async decrypt(senderPubkey: Pubkey, payload: string): Promise<string> {
+    return nip44.v2.decrypt(payload, await this.getConversationKey(senderPubkey));
+  }
+
+  /**
+   * Encrypt a NIP-44 payload from the group key to a peer
+   */
+  async encrypt(recipientPubkey: Pubkey, plaintext: string): Promise<string> {
+    return nip44.v2.encrypt(plaintext, await this.getConversationKey(recipientPubkey));
+  }
+
+  /**
+   * Handle an incoming ECDH protocol event
+   */
+  handleEvent(event: Event): void {
+    if (!verifyEvent(event) || this.handled.has(event.id)) return;
+
+    const cutoff = Math.floor(Date.now() / 1000) - EVENT_MAX_AGE;
+    if (event.created_at < cutoff) return;
+
+    // Only admins of this group take part
+    if (!this.config.participants.includes(event.pubkey)) return;
+
+    const sessionId = getTagValue(event, PROTOCOL_TAGS.SESSION);
+    if (!sessionId) return;
+    this.pruneHandled(cutoff);
+    this.handled.set(event.id, event.created_at);
+
+    switch (event.kind) {
+      case ECDH_EVENT_KINDS.REQUEST:
+        // Our own request reaches our other shares' coordinators only
+        if (this.pending.has(sessionId)) return;
+        this.handleRequest(event, sessionId);
+        break;
+      case ECDH_EVENT_KINDS.SHARE: {
+        // Shares are told apart by index, as an admin may hold several;
+        // our own share is added locally
+        const senderIdx = parseInt(getTagValue(event, PROTOCOL_TAGS.INDEX) ?? "", 10);
+        if (this.config.participants[senderIdx - 1] !== event.pubkey) return;
+        if (senderIdx === this.config.keyPackage.share.idx) return;
+
+        this.handleShare(event, sessionId, senderIdx);
+        break;
+      }
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private handleRequest(event: Event, sessionId: Hex): void {
+    const { keyPackage, secretKey } = this.config;
+
+    if (getTagValue(event, PROTOCOL_TAGS.GROUP_PUBKEY) !== keyPackage.groupPubkey) return;
+
+    const peerPubkey = getTagValue(event, PROTOCOL_TAGS.PEER);
+    if (!peerPubkey || !/^[0-9a-f]{64}$/.test(peerPubkey)) return;
+
+    // Requests from our other shares need no approval
+    Promise.resolve()
+      .then(() =>
+        event.pubkey === this.pubkey
+          ? true
+          : (this.config.onDecryptionRequest?.(peerPubkey, event.pubkey) ?? true)
+      )
+      .catch(() => false)
+      .then((approved) => {
+        if (!approved || !this.unsubscribe) return;
+
+        const share = createECDHShare(this.config.keyPackage, peerPubkey);
+        this.config.transport
+          .publish(createECDHShareEvent(sessionId, share, event.pubkey, secretKey))
+          .catch(() => {});
+      });
+  }
+
+  /**
+   * Add a share sent for one of our requests
+   *
+   * A malformed share or one failing its proof is dropped and its sender
+   * recorded, so the request still completes with `threshold` valid shares
+   * from the other admins.
+   */
+  private handleShare(event: Event, sessionId: Hex, senderIdx: number): void {
+    const request = this.pending.get(sessionId);
+    if (!request || request.shares.has(senderIdx)) return;
+    if (getTagValue(event, PROTOCOL_TAGS.RECIPIENT) !== this.pubkey) return;
+
+    const share = this.decryptShare(event);
+    if (
+      !share ||
+      share.idx !== senderIdx ||
+      share.peerPubkey !== request.peerPubkey ||
+      !verifyECDHShare(this.config.keyPackage, share)
+    ) {
+      if (!request.invalid.includes(senderIdx)) request.invalid.push(senderIdx);
+      return;
+    }
+
+    this.addShare(sessionId, share);
+  }
+
+  /**
+   * Decrypt an ECDH share event, or null if it is malformed
+   */
+  private decryptShare(event: Event): ECDHShare | null {
+    try {
+      const conversationKey = nip44.v2.utils.getConversationKey(
+        hexToBytes(this.config.secretKey),
+        event.pubkey
+      );
+      const share: unknown = JSON.parse(nip44.v2.decrypt(event.content, conversationKey));
+      if (share === null || typeof share !== "object") return null;
+
+      const { idx, peerPubkey, point, proof } = share as Partial<ECDHShare>;
+      if (
+        typeof idx !== "number" ||
+        typeof peerPubkey !== "string" ||
+        typeof point !== "string" ||
+        typeof proof !== "string"
+      ) {
+        return null;
+      }
+
+      return { idx, peerPubkey, point, proof };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Forget handled events too old to be handled again
+   */
+  private pruneHandled(cutoff: number): void {
+    for (const [id, createdAt] of this.handled) {
+      if (createdAt < cutoff) this.handled.delete(id);
+    }
+  }
+
+  /**
+   * Record a share and combine the shares once there are enough
+   */
+  private addShare(sessionId: Hex, share: ECDHShare): void {
+    const request = this.pending.get(sessionId);
+    if (!request || request.shares.has(share.idx)) return;
+
+    request.shares.set(share.idx, share);
+    if (request.shares.size < this.config.keyPackage.threshold) return;
+
+    const conversationKey = combineECDHShares(
+      this.config.keyPackage,
+      request.peerPubkey,
+      Array.from(request.shares.values())
+    );
+
+    clearTimeout(request.timeout);
+    this.pending.delete(sessionId);
+    this.conversationKeys.set(request.peerPubkey, conversationKey);
+    request.resolve(conversationKey);
+  }
+
+  private fail(sessionId: Hex, error: Error): void {
+    const request = this.pending.get(sessionId);
+    if (!request) return;
+
+    clearTimeout(request.timeout);
+    this.pending.delete(sessionId);
+    request.reject(error);
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Lift a nostr pubkey to the curve point with an even y coordinate
+ */
+function liftPeerPubkey(peerPubkey: Pubkey): CurveElement {
+  if (!/^[0-9a-f]{64}$/i.test(peerPubkey)) {
+    throw new Error(`Invalid peer pubkey: ${peerPubkey}`);
+  }
+
+  return ECC.G.DeserializeElement("02" + peerPubkey);
+}
+
+/**
+ * Compute the DLEQ challenge H(tag || Y || peer || D || A1 || A2)
+ */
+function getDLEQChallenge(
+  publicShare: Hex,
+  peerPubkey: Pubkey,
+  point: Hex,
+  A1: Hex,
+  A2: Hex
+): bigint {
+  const hash = sha256(
+    concatBytes(
+      utf8ToBytes("nkg/ecdh-dleq"),
+      hexToBytes(publicShare),
+      hexToBytes(peerPubkey),
+      hexToBytes(point),
+      hexToBytes(A1),
+      hexToBytes(A2)
+    )
+  );
+
+  return mod(BigInt("0x" + bytesToHex(hash)));
+}
+
+/**
+ * Reduce a scalar modulo the curve order
+ */
+function mod(n: bigint): bigint {
+  const CURVE_ORDER = 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141n;
+  return ((n % CURVE_ORDER) + CURVE_ORDER) % CURVE_ORDER;
+}
+
+/**
+ * Convert a bigint to a 32-byte hex string
+ */
+function bigintToHex(n: bigint): Hex {
+  return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Get the first value for a tag
+ */
+function getTagValue(event: Event, tagName: string): string | undefined {
+  return event.tags.find((t) => t[0] === tagName)?.[1];
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
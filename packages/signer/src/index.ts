@@ -10,12 +10,23 @@ export {
   generateSessionId,
   // Round 1
   generateRound1Package,
+  resumeRound1Package,
   processRound1Package,
   // Round 2
   generateRound2Packages,
   processRound2Package,
+  // Complaint round (identifiable abort)
+  processComplaint,
+  generateJustification,
+  processJustification,
+  resolveComplaints,
+  getQualifiedParticipants,
   // Finalization
   finalizeDKG,
+  // Weighted share issuance
+  expandWeightedParticipants,
+  getParticipantIndices,
+  createWeightedDKGSessions,
   // Simplified API (trusted dealer)
   createKeyGroupWithDealer,
   createKeyPackageFromShare,
@@ -24,6 +35,21 @@ export {
   applyRefreshShares,
   verifyRefreshedShare,
   type RefreshSharePackage,
+  // Share redistribution (new admin set and threshold)
+  generateReshareShares,
+  verifyResharePackage,
+  applyReshareShares,
+  getPublicShare,
+  type GroupKeyInfo,
+  type ResharePackage,
+  // Threshold change (same admin set and group pubkey)
+  generateThresholdChangeShares,
+  verifyThresholdChangePackage,
+  applyThresholdChangeShares,
+  type ThresholdChangePackage,
+  // Emergency recovery (ends threshold custody)
+  dangerouslyReconstructGroupSecret,
+  dangerouslyExportGroupNsec,
 } from "./dkg.js";
 
 // Signing - Threshold signatures
@@ -35,6 +61,7 @@ export {
   generateNonceCommitment,
   processPublicNonce,
   hasAllNonces,
+  selectSigningSubset,
   // Round 2 - Partial signatures
   generatePartialSignature,
   processPartialSignature,
@@ -48,7 +75,9 @@ export {
 
 // Re-export key types for convenience
 export type {
+  DKGComplaint,
   DKGConfig,
+  DKGJustification,
   DKGSession,
   DKGRound1Package,
   DKGRound2Package,
@@ -62,3 +91,113 @@ export type {
   PublicNonce,
   PartialSignature,
 } from "./signing.js";
+
+// Nonces - Preprocessed nonce pools for single-round signing
+export {
+  createNoncePool,
+  generateNonces,
+  createPreprocessedSigningSession,
+  createNonceRegistry,
+  addPublishedNonces,
+  getAvailableNonceCount,
+  assignNonces,
+  markNoncesUsed,
+  createNonceBatchEvent,
+  parseNonceBatchEvent,
+} from "./nonces.js";
+
+// Policy - Local rules for approving signing requests
+export { evaluateSigningPolicy, matchesRule } from "./policy.js";
+
+// Quorum - Weighted signer sets and tiers
+export { getSignerWeights, checkQuorum, selectQuorum } from "./quorum.js";
+
+// Coordinator - Nostr-transported signing sessions
+export {
+  SigningCoordinator,
+  getGroupNostrPubkey,
+  createSigningRequestEvent,
+  parseSigningRequestEvent,
+  createNonceCommitmentEvent,
+  createPartialSignatureEvent,
+  createSignerSelectionEvent,
+  createFinalSignatureEvent,
+} from "./coordinator.js";
+
+// ECDH - Threshold NIP-44 decryption for the group key
+export {
+  createECDHShare,
+  verifyECDHShare,
+  combineECDHShares,
+  createECDHRequestEvent,
+  createECDHShareEvent,
+  DecryptionCoordinator,
+} from "./ecdh.js";
+
+// Bunker - NIP-46 remote signer backed by the admins
+export {
+  FrostBunker,
+  createBunkerRequestEvent,
+  createBunkerResponseEvent,
+  parseBunkerEvent,
+} from "./bunker.js";
+
+// Vault - Encrypted key share storage
+export {
+  NCRYPTSHARE_PREFIX,
+  serializeKeyPackage,
+  deserializeKeyPackage,
+  migrateSerializedKeyPackage,
+  encryptKeyShare,
+  decryptKeyShare,
+  exportKeyShareFile,
+  importKeyShare,
+} from "./vault.js";
+
+// Key ring - Shares for many groups, indexed by group pubkey
+export {
+  createKeyRing,
+  addKeyRingEntry,
+  addKeyRingShare,
+  replaceKeyRingPackage,
+  updateKeyRingMetadata,
+  removeKeyRingEntry,
+  getKeyRingEntry,
+  getKeyRingPackages,
+  findKeyRingEntryForRequest,
+  listKeyRingEntries,
+  exportKeyRing,
+  importKeyRing,
+} from "./keyring.js";
+
+// Persistence - Resumable DKG and signing sessions
+export {
+  serializeDKGSession,
+  restoreDKGSession,
+  serializeSigningSession,
+  restoreSigningSession,
+} from "./persistence.js";
+
+// Transcript - Hash-chained, attested ceremony records
+export {
+  createTranscript,
+  appendTranscriptEntry,
+  getTranscriptHead,
+  createDKGTranscript,
+  createSigningTranscript,
+  verifyTranscript,
+  getTranscriptParticipants,
+  getEventSigners,
+  createTranscriptAttestationEvent,
+  parseTranscriptAttestationEvent,
+  getTranscriptAttesters,
+} from "./transcript.js";
+
+// Refresh - Nostr-transported share refresh
+export {
+  RefreshCoordinator,
+  createRefreshRequestEvent,
+  createRefreshCommitmentEvent,
+  createRefreshShareEvent,
+  createRefreshConfirmationEvent,
+} from "./refresh.js";
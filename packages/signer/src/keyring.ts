@@ -0,0 +1,369 @@
+/**
+ * @nkg/signer - Multi-group key ring
+ *
+ * Holds the key packages of an admin who custodies shares for several
+ * groups, indexed by group public key, together with group metadata
+ * (name, relays, admins, last refresh time). Incoming signing requests
+ * are matched to the share they need, and the whole ring can be backed
+ * up as a single passphrase-encrypted file.
+ */
+
+import { base64 } from "@scure/base";
+
+import { getGroupNostrPubkey } from "./coordinator.js";
+import {
+  decryptWithPassphrase,
+  deserializeKeyPackage,
+  encryptWithPassphrase,
+  serializeKeyPackage,
+  validateKeyPackage,
+} from "./vault.js";
+
+import type {
+  Hex,
+  KeyPackage,
+  KeyRing,
+  KeyRingBackup,
+  KeyRingEntry,
+  KeyRingMetadata,
+  SerializedKeyPackage,
+  SigningRequest,
+} from "./types.js";
+
+// Re-export types
+export type { KeyRing, KeyRingBackup, KeyRingEntry, KeyRingMetadata };
+
+/** Encrypted part of a key ring backup */
+interface KeyRingBackupEntry {
+  keyPackage: SerializedKeyPackage;
+  additionalKeyPackages?: SerializedKeyPackage[];
+  metadata: KeyRingMetadata;
+  addedAt: number;
+}
+
+// ============================================================================
+// Key Ring Management
+// ============================================================================
+
+/**
+ * Create an empty key ring
+ */
+export function createKeyRing(): KeyRing {
+  return { entries: new Map() };
+}
+
+/**
+ * Add a key package for a group not yet in the key ring
+ */
+export function addKeyRingEntry(
+  ring: KeyRing,
+  keyPackage: KeyPackage,
+  metadata: Partial<KeyRingMetadata> = {}
+): KeyRing {
+  validateKeyPackage(keyPackage);
+  validateParticipants(keyPackage, metadata.participants);
+
+  const groupPubkey = keyPackage.groupPubkey.toLowerCase();
+  if (ring.entries.has(groupPubkey)) {
+    throw new Error(`Key ring already holds a share for group ${groupPubkey}`);
+  }
+
+  const entries = new Map(ring.entries);
+  entries.set(groupPubkey, {
+    keyPackage,
+    metadata: { relays: [], ...metadata },
+    addedAt: Math.floor(Date.now() / 1000),
+  });
+
+  return { entries };
+}
+
+/**
+ * Add another share of a group already in the key ring (weighted admins)
+ */
+export function addKeyRingShare(ring: KeyRing, keyPackage: KeyPackage): KeyRing {
+  validateKeyPackage(keyPackage);
+
+  const entry = requireEntry(ring, keyPackage.groupPubkey);
+  if (getKeyRingPackages(entry).some((pkg) => pkg.share.idx === keyPackage.share.idx)) {
+    throw new Error(`Key ring already holds share ${keyPackage.share.idx}`);
+  }
+  validateParticipants(keyPackage, entry.metadata.participants);
+
+  const entries = new Map(ring.entries);
+  entries.set(keyPackage.groupPubkey.toLowerCase(), {
+    ...entry,
+    additionalKeyPackages: [...(entry.additionalKeyPackages ?? []), keyPackage].sort(
+      (a, b) => a.share.idx - b.share.idx
+    ),
+  });
+
+  return { entries };
+}
+
+/**
+ * Replace a group's key package after a refresh or threshold change
+ *
+ * The share index must be one the entry already holds. After resharing
+ * to a new admin set the old share is void, so the group has to be
+ * removed and the new share added with addKeyRingEntry.
+ */
+export function replaceKeyRingPackage(ring: KeyRing, keyPackage: KeyPackage): KeyRing {
+  validateKeyPackage(keyPackage);
+
+  const entry = requireEntry(ring, keyPackage.groupPubkey);
+  const additional = entry.additionalKeyPackages?.map((pkg) =>
+    pkg.share.idx === keyPackage.share.idx ? keyPackage : pkg
+  );
+  const isAdditional = additional?.includes(keyPackage) ?? false;
+
+  if (!isAdditional && entry.keyPackage.share.idx !== keyPackage.share.idx) {
+    throw new Error(
+      `Share index changed from ${entry.keyPackage.share.idx} to ${keyPackage.share.idx}`
+    );
+  }
+  validateParticipants(keyPackage, entry.metadata.participants);
+
+  const entries = new Map(ring.entries);
+  entries.set(keyPackage.groupPubkey.toLowerCase(), {
+    ...entry,
+    ...(isAdditional ? { additionalKeyPackages: additional! } : { keyPackage }),
+    metadata: { ...entry.metadata, lastRefreshedAt: Math.floor(Date.now() / 1000) },
+  });
+
+  return { entries };
+}
+
+/**
+ * Update the metadata of a group in the key ring
+ */
+export function updateKeyRingMetadata(
+  ring: KeyRing,
+  groupPubkey: Hex,
+  metadata: Partial<KeyRingMetadata>
+): KeyRing {
+  const entry = requireEntry(ring, groupPubkey);
+  validateParticipants(entry.keyPackage, metadata.participants);
+
+  const entries = new Map(ring.entries);
+  entries.set(entry.keyPackage.groupPubkey.toLowerCase(), {
+    ...entry,
+    metadata: { ...entry.metadata, ...metadata },
+  });
+
+  return { entries };
+}
+
+/**
+ * Remove a group from the key ring
+ */
+export function removeKeyRingEntry(ring: KeyRing, groupPubkey: Hex): KeyRing {
+  const entry = requireEntry(ring, groupPubkey);
+
+  const entries = new Map(ring.entries);
+  entries.delete(entry.keyPackage.groupPubkey.toLowerCase());
+
+  return { entries };
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Get the entry for a group by its group public key or nostr pubkey
+ */
+export function getKeyRingEntry(ring: KeyRing, groupPubkey: Hex): KeyRingEntry | undefined {
+  const key = groupPubkey.toLowerCase();
+
+  if (key.length === 66) {
+    return ring.entries.get(key);
+  }
+
+  for (const entry of ring.entries.values()) {
+    if (getGroupNostrPubkey(entry.keyPackage.groupPubkey).toLowerCase() === key) {
+      return entry;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get every share an entry holds, ordered by index
+ */
+export function getKeyRingPackages(entry: KeyRingEntry): KeyPackage[] {
+  return [entry.keyPackage, ...(entry.additionalKeyPackages ?? [])].sort(
+    (a, b) => a.share.idx - b.share.idx
+  );
+}
+
+/**
+ * Find the entry whose shares are asked to sign an incoming request
+ *
+ * Returns undefined when the ring has no share for the request's group,
+ * or when none of our share indices is one of the requested signers.
+ */
+export function findKeyRingEntryForRequest(
+  ring: KeyRing,
+  request: SigningRequest
+): KeyRingEntry | undefined {
+  const entry = getKeyRingEntry(ring, request.groupPubkey);
+
+  if (
+    !entry ||
+    !getKeyRingPackages(entry).some((pkg) => request.signerIndices.includes(pkg.share.idx))
+  ) {
+    return undefined;
+  }
+
+  return entry;
+}
+
+/**
+ * List the key ring entries, ordered by group name then group public key
+ */
+export function listKeyRingEntries(ring: KeyRing): KeyRingEntry[] {
+  return Array.from(ring.entries.values()).sort(
+    (a, b) =>
+      (a.metadata.name ?? "").localeCompare(b.metadata.name ?? "") ||
+      a.keyPackage.groupPubkey.localeCompare(b.keyPackage.groupPubkey)
+  );
+}
+
+// ============================================================================
+// Backup
+// ============================================================================
+
+/**
+ * Encrypt every key ring entry into a single backup file
+ *
+ * Only group public keys and share indices are readable without the
+ * passphrase; key shares and metadata are encrypted.
+ */
+export function exportKeyRing(ring: KeyRing, passphrase: string, logN?: number): string {
+  if (!passphrase) {
+    throw new Error("Passphrase is required");
+  }
+
+  const entries = listKeyRingEntries(ring);
+  const backupEntries: KeyRingBackupEntry[] = entries.map((entry) => ({
+    keyPackage: serializeKeyPackage(entry.keyPackage),
+    ...(entry.additionalKeyPackages && {
+      additionalKeyPackages: entry.additionalKeyPackages.map((pkg) => serializeKeyPackage(pkg)),
+    }),
+    metadata: entry.metadata,
+    addedAt: entry.addedAt,
+  }));
+
+  const backup: KeyRingBackup = {
+    type: "nkg-key-ring",
+    version: 1,
+    groups: entries.flatMap((entry) =>
+      getKeyRingPackages(entry).map((pkg) => ({
+        groupPubkey: pkg.groupPubkey,
+        idx: pkg.share.idx,
+      }))
+    ),
+    encrypted: base64.encode(
+      encryptWithPassphrase(JSON.stringify(backupEntries), passphrase, logN)
+    ),
+    savedAt: Math.floor(Date.now() / 1000),
+  };
+
+  return JSON.stringify(backup, null, 2);
+}
+
+/**
+ * Decrypt a key ring backup file
+ *
+ * Every key package is validated against its commitments, and must match
+ * the unencrypted group list of the backup.
+ */
+export function importKeyRing(input: string, passphrase: string): KeyRing {
+  let backup: Partial<KeyRingBackup>;
+  try {
+    backup = JSON.parse(input.trim());
+  } catch {
+    throw new Error("Not a key ring backup");
+  }
+
+  if (backup.type !== "nkg-key-ring" || typeof backup.encrypted !== "string") {
+    throw new Error("Not a key ring backup");
+  }
+  if (backup.version !== 1) {
+    throw new Error(`Unsupported key ring backup version: ${backup.version}`);
+  }
+
+  const plaintext = decryptWithPassphrase(
+    base64.decode(backup.encrypted),
+    passphrase,
+    "Invalid passphrase or corrupted key ring backup"
+  );
+
+  const backupEntries = JSON.parse(plaintext) as KeyRingBackupEntry[];
+  const groups = (backup.groups ?? []).map((g) => `${g.groupPubkey.toLowerCase()}:${g.idx}`);
+
+  const entries = new Map<Hex, KeyRingEntry>();
+  let shareCount = 0;
+
+  for (const entry of backupEntries) {
+    const { data: keyPackage } = deserializeKeyPackage(entry.keyPackage);
+    const additionalKeyPackages = entry.additionalKeyPackages?.map(
+      (serialized) => deserializeKeyPackage(serialized).data
+    );
+    const groupPubkey = keyPackage.groupPubkey.toLowerCase();
+
+    if (entries.has(groupPubkey)) {
+      throw new Error(`Duplicate group in key ring backup: ${keyPackage.groupPubkey}`);
+    }
+    for (const pkg of [keyPackage, ...(additionalKeyPackages ?? [])]) {
+      if (
+        pkg.groupPubkey.toLowerCase() !== groupPubkey ||
+        !groups.includes(`${groupPubkey}:${pkg.share.idx}`)
+      ) {
+        throw new Error(`Key ring backup does not list group ${pkg.groupPubkey}`);
+      }
+      validateParticipants(pkg, entry.metadata.participants);
+      shareCount++;
+    }
+
+    entries.set(groupPubkey, {
+      keyPackage,
+      ...(additionalKeyPackages && { additionalKeyPackages }),
+      metadata: entry.metadata,
+      addedAt: entry.addedAt,
+    });
+  }
+
+  if (shareCount !== groups.length) {
+    throw new Error("Key ring backup is missing groups");
+  }
+
+  return { entries };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the entry for a group, throwing if the ring has no share for it
+ */
+function requireEntry(ring: KeyRing, groupPubkey: Hex): KeyRingEntry {
+  const entry = getKeyRingEntry(ring, groupPubkey);
+  if (!entry) {
+    throw new Error(`No share for group ${groupPubkey}`);
+  }
+
+  return entry;
+}
+
+/**
+ * Check that a group's admin list matches its key package
+ */
+function validateParticipants(keyPackage: KeyPackage, participants?: string[]): void {
+  if (participants && participants.length !== keyPackage.maxSigners) {
+    throw new Error("Number of participants must equal max signers");
+  }
+}
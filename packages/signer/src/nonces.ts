@@ -0,0 +1,274 @@
+/**
+ * @nkg/signer - Preprocessed nonce pools
+ *
+ * FROST-style preprocessing: signers generate batches of nonces ahead of
+ * time and publish the public commitments. The coordinator assigns one
+ * unused commitment per signer to each message, so a signing session
+ * only needs a single round of partial signatures. Secret nonces are
+ * removed from the pool when used, and assigned commitments are tracked
+ * by the coordinator, so no nonce is ever used twice.
+ */
+
+import { Lib, Util } from "@cmdcode/frost";
+import { finalizeEvent, type Event } from "nostr-tools";
+import { hexToBytes } from "@noble/hashes/utils";
+
+import { createSigningSession } from "./signing.js";
+
+import {
+  SIGNING_EVENT_KINDS,
+  PROTOCOL_TAGS,
+  type Hex,
+  type KeyPackage,
+  type NoncePool,
+  type NonceRegistry,
+  type PreprocessedNonce,
+  type Pubkey,
+  type SigningConfig,
+  type SigningSession,
+} from "./types.js";
+
+// Re-export types
+export type { NoncePool, NonceRegistry, PreprocessedNonce };
+
+// ============================================================================
+// Signer Side - Nonce Pools
+// ============================================================================
+
+/**
+ * Create an empty nonce pool for a key package
+ */
+export function createNoncePool(keyPackage: KeyPackage): NoncePool {
+  return {
+    idx: keyPackage.share.idx,
+    nonces: new Map(),
+  };
+}
+
+/**
+ * Generate a batch of nonces and add them to the pool
+ *
+ * Returns the public commitments to publish alongside the updated pool.
+ */
+export function generateNonces(
+  pool: NoncePool,
+  keyPackage: KeyPackage,
+  count: number
+): { nonces: PreprocessedNonce[]; pool: NoncePool } {
+  if (keyPackage.share.idx !== pool.idx) {
+    throw new Error("Key package does not match the nonce pool");
+  }
+
+  const updatedNonces = new Map(pool.nonces);
+  const nonces: PreprocessedNonce[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const id = Util.random_bytes(16).hex;
+    const commitment = Lib.create_commit_pkg(keyPackage.share);
+
+    updatedNonces.set(id, commitment);
+    nonces.push({
+      id,
+      idx: commitment.idx,
+      hidden_pn: commitment.hidden_pn,
+      binder_pn: commitment.binder_pn,
+    });
+  }
+
+  return { nonces, pool: { ...pool, nonces: updatedNonces } };
+}
+
+/**
+ * Create a single-round signing session from assigned nonces
+ *
+ * Takes our secret nonce out of the pool, so it cannot be used again;
+ * the returned pool must replace the old one before signing.
+ */
+export function createPreprocessedSigningSession(
+  config: SigningConfig,
+  keyPackage: KeyPackage,
+  nonces: PreprocessedNonce[],
+  pool: NoncePool
+): { session: SigningSession; pool: NoncePool } {
+  const session = createSigningSession(config, keyPackage);
+
+  const indices = nonces.map((n) => n.idx).sort((a, b) => a - b);
+  const signers = [...config.signerIndices].sort((a, b) => a - b);
+  if (indices.join(",") !== signers.join(",")) {
+    throw new Error("Assigned nonces do not match the signer list");
+  }
+
+  const myNonce = nonces.find((n) => n.idx === keyPackage.share.idx)!;
+  const commitment = pool.nonces.get(myNonce.id);
+  if (!commitment) {
+    throw new Error(`Nonce ${myNonce.id} is unknown or already used`);
+  }
+
+  if (
+    commitment.hidden_pn !== myNonce.hidden_pn ||
+    commitment.binder_pn !== myNonce.binder_pn
+  ) {
+    throw new Error(`Nonce ${myNonce.id} does not match the assigned commitment`);
+  }
+
+  const updatedNonces = new Map(pool.nonces);
+  updatedNonces.delete(myNonce.id);
+
+  return {
+    session: {
+      ...session,
+      myCommitment: commitment,
+      publicNonces: new Map(
+        nonces.map((n) => [n.idx, { idx: n.idx, hidden_pn: n.hidden_pn, binder_pn: n.binder_pn }])
+      ),
+    },
+    pool: { ...pool, nonces: updatedNonces },
+  };
+}
+
+// ============================================================================
+// Coordinator Side - Nonce Registry
+// ============================================================================
+
+/**
+ * Create an empty nonce registry
+ */
+export function createNonceRegistry(): NonceRegistry {
+  return {
+    available: new Map(),
+    used: new Set(),
+  };
+}
+
+/**
+ * Add published nonce commitments to the registry
+ *
+ * Commitments that were already assigned or added are ignored.
+ */
+export function addPublishedNonces(
+  registry: NonceRegistry,
+  nonces: PreprocessedNonce[]
+): NonceRegistry {
+  const available = new Map(registry.available);
+
+  for (const nonce of nonces) {
+    if (registry.used.has(nonce.id)) continue;
+
+    const existing = available.get(nonce.idx) ?? [];
+    if (existing.some((n) => n.id === nonce.id)) continue;
+
+    available.set(nonce.idx, [...existing, nonce]);
+  }
+
+  return { ...registry, available };
+}
+
+/**
+ * Get the number of unused nonces for a signer
+ */
+export function getAvailableNonceCount(registry: NonceRegistry, idx: number): number {
+  return registry.available.get(idx)?.length ?? 0;
+}
+
+/**
+ * Assign one unused nonce per signer for a message
+ *
+ * The assigned nonces are marked as used and never handed out again.
+ */
+export function assignNonces(
+  registry: NonceRegistry,
+  signerIndices: number[]
+): { nonces: PreprocessedNonce[]; registry: NonceRegistry } {
+  const available = new Map(registry.available);
+  const used = new Set(registry.used);
+  const nonces: PreprocessedNonce[] = [];
+
+  for (const idx of signerIndices) {
+    const [nonce, ...rest] = available.get(idx) ?? [];
+    if (!nonce) {
+      throw new Error(`No unused nonces for participant ${idx}`);
+    }
+
+    available.set(idx, rest);
+    used.add(nonce.id);
+    nonces.push(nonce);
+  }
+
+  return { nonces, registry: { available, used } };
+}
+
+/**
+ * Mark nonces another coordinator assigned as used
+ *
+ * Every admin keeps its own registry, so nonces seen in a signing
+ * request are dropped to avoid assigning them a second time.
+ */
+export function markNoncesUsed(
+  registry: NonceRegistry,
+  nonces: PreprocessedNonce[]
+): NonceRegistry {
+  const ids = new Set(nonces.map((n) => n.id));
+  const available = new Map(
+    Array.from(registry.available, ([idx, list]) => [idx, list.filter((n) => !ids.has(n.id))])
+  );
+
+  return { available, used: new Set([...registry.used, ...ids]) };
+}
+
+// ============================================================================
+// Protocol Events
+// ============================================================================
+
+/**
+ * Create an event publishing a batch of nonce commitments
+ */
+export function createNonceBatchEvent(
+  groupPubkey: Hex,
+  nonces: PreprocessedNonce[],
+  participants: Pubkey[],
+  secretKey: Hex
+): Event {
+  const idx = nonces[0]?.idx;
+  if (idx === undefined || nonces.some((n) => n.idx !== idx)) {
+    throw new Error("A nonce batch must contain nonces from a single signer");
+  }
+
+  return finalizeEvent({
+    kind: SIGNING_EVENT_KINDS.NONCE_BATCH,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.GROUP_PUBKEY, groupPubkey],
+      [PROTOCOL_TAGS.INDEX, idx.toString()],
+      ...participants.map((p) => [PROTOCOL_TAGS.RECIPIENT, p]),
+    ],
+    content: JSON.stringify(nonces),
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Parse a nonce batch event, checking it was published by the signer
+ */
+export function parseNonceBatchEvent(
+  event: Event,
+  participants: Pubkey[]
+): PreprocessedNonce[] | null {
+  if (event.kind !== SIGNING_EVENT_KINDS.NONCE_BATCH) {
+    return null;
+  }
+
+  const idx = parseInt(event.tags.find((t) => t[0] === PROTOCOL_TAGS.INDEX)?.[1] ?? "", 10);
+  if (participants[idx - 1] !== event.pubkey) {
+    return null;
+  }
+
+  try {
+    const nonces = JSON.parse(event.content) as PreprocessedNonce[];
+    if (!Array.isArray(nonces) || nonces.some((n) => n.idx !== idx || typeof n.id !== "string")) {
+      return null;
+    }
+
+    return nonces;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * @nkg/signer - Session persistence
+ *
+ * Serializes in-progress DKG and signing sessions so a participant can
+ * resume after a crash or page reload instead of wedging the ceremony
+ * for everyone else. Public protocol state is stored as plain JSON; the
+ * nostr secret key, polynomial coefficients, received shares, key
+ * package and secret nonces are encrypted with a passphrase using the
+ * vault's envelope format.
+ *
+ * A restored signing session reuses its secret nonces, so it must be
+ * persisted after every update and before its partial signature is
+ * published; signing twice with the same nonces and different
+ * commitments would leak the key share.
+ */
+
+import { base64 } from "@scure/base";
+
+import { decryptWithPassphrase, encryptWithPassphrase } from "./vault.js";
+
+import type {
+  CommitmentPackage,
+  DKGRound2Package,
+  DKGSession,
+  Hex,
+  KeyPackage,
+  SerializedDKGSession,
+  SerializedSigningSession,
+  SigningSession,
+} from "./types.js";
+
+// Re-export types
+export type { SerializedDKGSession, SerializedSigningSession };
+
+/** Secret part of a DKG session */
+interface DKGSessionSecrets {
+  sessionId: Hex;
+  mySecretKey: Hex;
+  coefficients?: Hex[];
+  round2Packages: DKGRound2Package[];
+  keyPackage?: KeyPackage;
+}
+
+/** Secret part of a signing session */
+interface SigningSessionSecrets {
+  sessionId: Hex;
+  keyPackage: KeyPackage;
+  myCommitment?: CommitmentPackage;
+}
+
+// ============================================================================
+// DKG Sessions
+// ============================================================================
+
+/**
+ * Serialize a DKG session, encrypting its secrets with a passphrase
+ */
+export function serializeDKGSession(
+  session: DKGSession,
+  passphrase: string,
+  logN?: number
+): SerializedDKGSession {
+  const { mySecretKey, ...config } = session.config;
+
+  const secrets: DKGSessionSecrets = {
+    sessionId: config.sessionId,
+    mySecretKey,
+    ...(session.myRound1Secret && {
+      coefficients: session.myRound1Secret.coefficients.map((c) => c.toString(16)),
+    }),
+    round2Packages: Array.from(session.round2Packages.values()),
+    ...(session.keyPackage && { keyPackage: session.keyPackage }),
+  };
+
+  return {
+    version: 1,
+    config,
+    state: session.state,
+    round1Packages: Array.from(session.round1Packages.values()),
+    complaints: session.complaints,
+    disqualified: session.disqualified,
+    secrets: encryptSecrets(secrets, passphrase, logN),
+  };
+}
+
+/**
+ * Restore a DKG session serialized with serializeDKGSession
+ */
+export function restoreDKGSession(
+  serialized: SerializedDKGSession,
+  passphrase: string
+): DKGSession {
+  checkVersion(serialized.version);
+
+  const secrets = decryptSecrets<DKGSessionSecrets>(
+    serialized.secrets,
+    passphrase,
+    serialized.config.sessionId
+  );
+
+  return {
+    config: { ...serialized.config, mySecretKey: secrets.mySecretKey },
+    state: serialized.state,
+    round1Packages: new Map(serialized.round1Packages.map((p) => [p.idx, p])),
+    round2Packages: new Map(secrets.round2Packages.map((p) => [p.fromIdx, p])),
+    complaints: serialized.complaints,
+    disqualified: serialized.disqualified,
+    ...(secrets.coefficients && {
+      myRound1Secret: { coefficients: secrets.coefficients.map((c) => BigInt("0x" + c)) },
+    }),
+    ...(secrets.keyPackage && { keyPackage: secrets.keyPackage }),
+  };
+}
+
+// ============================================================================
+// Signing Sessions
+// ============================================================================
+
+/**
+ * Serialize a signing session, encrypting its key package and nonces
+ */
+export function serializeSigningSession(
+  session: SigningSession,
+  passphrase: string,
+  logN?: number
+): SerializedSigningSession {
+  const secrets: SigningSessionSecrets = {
+    sessionId: session.config.sessionId,
+    keyPackage: session.keyPackage,
+    ...(session.myCommitment && { myCommitment: session.myCommitment }),
+  };
+
+  return {
+    version: 1,
+    config: session.config,
+    publicNonces: Array.from(session.publicNonces.values()),
+    partialSignatures: Array.from(session.partialSignatures.values()),
+    ...(session.finalSignature && { finalSignature: session.finalSignature }),
+    secrets: encryptSecrets(secrets, passphrase, logN),
+  };
+}
+
+/**
+ * Restore a signing session serialized with serializeSigningSession
+ */
+export function restoreSigningSession(
+  serialized: SerializedSigningSession,
+  passphrase: string
+): SigningSession {
+  checkVersion(serialized.version);
+
+  const secrets = decryptSecrets<SigningSessionSecrets>(
+    serialized.secrets,
+    passphrase,
+    serialized.config.sessionId
+  );
+
+  return {
+    config: serialized.config,
+    keyPackage: secrets.keyPackage,
+    publicNonces: new Map(serialized.publicNonces.map((n) => [n.idx, n])),
+    partialSignatures: new Map(serialized.partialSignatures.map((s) => [s.idx, s])),
+    ...(secrets.myCommitment && { myCommitment: secrets.myCommitment }),
+    ...(serialized.finalSignature && { finalSignature: serialized.finalSignature }),
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check that a serialized session has a supported version
+ */
+function checkVersion(version: unknown): void {
+  if (version !== 1) {
+    throw new Error(`Unsupported session version: ${version}`);
+  }
+}
+
+/**
+ * Encrypt session secrets to a base64 envelope
+ */
+function encryptSecrets(secrets: object, passphrase: string, logN?: number): string {
+  if (!passphrase) {
+    throw new Error("Passphrase is required");
+  }
+
+  return base64.encode(encryptWithPassphrase(JSON.stringify(secrets), passphrase, logN));
+}
+
+/**
+ * Decrypt session secrets, checking they belong to the session
+ */
+function decryptSecrets<T extends { sessionId: Hex }>(
+  encrypted: string,
+  passphrase: string,
+  sessionId: Hex
+): T {
+  const plaintext = decryptWithPassphrase(
+    base64.decode(encrypted),
+    passphrase,
+    "Invalid passphrase or corrupted session"
+  );
+
+  const secrets = JSON.parse(plaintext) as T;
+  if (secrets.sessionId !== sessionId) {
+    throw new Error(`Session secrets do not belong to session ${sessionId}`);
+  }
+
+  return secrets;
+}
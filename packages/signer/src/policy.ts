@@ -0,0 +1,56 @@
+/**
+ * @nkg/signer - Signing policy engine
+ *
+ * Evaluates the unsigned event carried by a signing request against an
+ * admin's local rules, deciding whether to sign automatically, ask the
+ * admin, or refuse.
+ */
+
+import type { UnsignedEvent } from "nostr-tools";
+
+import type { PolicyDecision, SigningPolicy, SigningPolicyRule } from "./types.js";
+
+// Re-export types
+export type { PolicyDecision, SigningPolicy, SigningPolicyRule };
+
+// ============================================================================
+// Policy Evaluation
+// ============================================================================
+
+/**
+ * Decide whether to sign an event under a policy
+ */
+export function evaluateSigningPolicy(
+  policy: SigningPolicy,
+  event: UnsignedEvent
+): PolicyDecision {
+  const rule = policy.rules.find((r) => matchesRule(r, event));
+  return rule ? rule.decision : policy.defaultDecision;
+}
+
+/**
+ * Check if an event matches a policy rule
+ *
+ * Every constrained tag must be present, and all of its values must be
+ * allowed: `{ kinds: ["9", "10"] }` matches a `["kinds", "9"]` tag but
+ * not `["kinds", "9", "39000"]`.
+ */
+export function matchesRule(rule: SigningPolicyRule, event: UnsignedEvent): boolean {
+  if (rule.kinds && !rule.kinds.includes(event.kind)) {
+    return false;
+  }
+
+  for (const [name, allowed] of Object.entries(rule.tags ?? {})) {
+    const tags = event.tags.filter((t) => t[0] === name);
+    if (tags.length === 0) {
+      return false;
+    }
+
+    const values = tags.flatMap((t) => t.slice(1));
+    if (!values.every((v) => allowed.includes(v))) {
+      return false;
+    }
+  }
+
+  return true;
+}
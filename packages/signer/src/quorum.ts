@@ -0,0 +1,106 @@
+/**
+ * @nkg/signer - Weighted quorum policies
+ *
+ * With weighted share issuance an admin may hold several share indices,
+ * each counting as one vote towards the key's threshold. A quorum policy
+ * adds tiers on top, such as "at least one of the core team must sign".
+ * Signer sets are checked against both before a signing session starts,
+ * since the threshold signature itself cannot tell who took part.
+ */
+
+import type { Pubkey, QuorumCheck, QuorumPolicy } from "./types.js";
+
+// Re-export types
+export type { QuorumCheck, QuorumPolicy };
+
+// ============================================================================
+// Quorum Checks
+// ============================================================================
+
+/**
+ * Count the share indices (votes) each admin contributes to a signer set
+ */
+export function getSignerWeights(
+  participants: Pubkey[],
+  signerIndices: number[]
+): Map<Pubkey, number> {
+  const weights = new Map<Pubkey, number>();
+
+  for (const idx of new Set(signerIndices)) {
+    const pubkey = participants[idx - 1];
+    if (!pubkey) {
+      throw new Error(`Invalid participant index: ${idx}`);
+    }
+
+    weights.set(pubkey, (weights.get(pubkey) ?? 0) + 1);
+  }
+
+  return weights;
+}
+
+/**
+ * Check a signer set against the key's threshold and a quorum policy
+ */
+export function checkQuorum(
+  policy: QuorumPolicy | undefined,
+  threshold: number,
+  participants: Pubkey[],
+  signerIndices: number[]
+): QuorumCheck {
+  const weights = getSignerWeights(participants, signerIndices);
+  const weight = Array.from(weights.values()).reduce((sum, w) => sum + w, 0);
+
+  const unmetTiers = (policy?.tiers ?? [])
+    .filter((tier) => tier.members.filter((m) => weights.has(m)).length < tier.minimum)
+    .map((tier) => tier.name);
+
+  return {
+    satisfied: weight >= threshold && unmetTiers.length === 0,
+    weight,
+    unmetTiers,
+  };
+}
+
+/**
+ * Pick a signer set meeting the threshold and quorum policy
+ *
+ * Starts with the required indices, adds members of tiers that are not
+ * yet met, then fills up to the threshold in the order of `available`.
+ * Returns null when the available indices cannot meet the policy.
+ */
+export function selectQuorum(
+  policy: QuorumPolicy | undefined,
+  threshold: number,
+  participants: Pubkey[],
+  available: number[],
+  required: number[] = []
+): number[] | null {
+  const selected = new Set(required);
+
+  for (const tier of policy?.tiers ?? []) {
+    for (const idx of available) {
+      const covered = new Set(
+        Array.from(selected)
+          .map((i) => participants[i - 1])
+          .filter((p): p is Pubkey => p !== undefined && tier.members.includes(p))
+      );
+      if (covered.size >= tier.minimum) break;
+
+      const pubkey = participants[idx - 1];
+      if (pubkey && tier.members.includes(pubkey) && !covered.has(pubkey)) {
+        selected.add(idx);
+      }
+    }
+  }
+
+  for (const idx of available) {
+    if (selected.size >= threshold) break;
+    selected.add(idx);
+  }
+
+  const signerIndices = Array.from(selected).sort((a, b) => a - b);
+
+  return checkQuorum(policy, threshold, participants, signerIndices).satisfied
+    ? signerIndices
+    : null;
+}
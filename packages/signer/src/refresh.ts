@@ -0,0 +1,773 @@
+/**
+ * @nkg/signer - Nostr-transported share refresh
+ *
+ * Runs the key share refresh protocol (REFRESH_EVENT_KINDS) between admins
+ * over a relay connection. Every admin broadcasts commitments to a zero
+ * polynomial and sends each other admin an encrypted refresh share. The
+ * refreshed key package only replaces the current one once every admin has
+ * confirmed the same new commitments.
+ *
+ * The same messages carry a threshold change when the session request has
+ * a threshold tag: every admin then deals a threshold change package
+ * instead of a refresh package, and the confirmed commitments have the new
+ * threshold's length.
+ */
+
+import { finalizeEvent, getPublicKey, nip44, verifyEvent, type Event } from "nostr-tools";
+import { hexToBytes } from "@noble/hashes/utils";
+
+import {
+  generateSessionId,
+  generateRefreshShares,
+  applyRefreshShares,
+  verifyRefreshedShare,
+  generateThresholdChangeShares,
+  applyThresholdChangeShares,
+  type RefreshSharePackage,
+  type ThresholdChangePackage,
+} from "./dkg.js";
+
+import {
+  REFRESH_EVENT_KINDS,
+  PROTOCOL_TAGS,
+  type Hex,
+  type KeyPackage,
+  type ParticipantId,
+  type Pubkey,
+  type RefreshCoordinatorConfig,
+  type SecretShare,
+} from "./types.js";
+
+// Re-export types
+export type { RefreshCoordinatorConfig };
+
+// ============================================================================
+// Protocol Event Creation
+// ============================================================================
+
+/**
+ * Create a refresh session initiation event, optionally changing the threshold
+ */
+export function createRefreshRequestEvent(
+  sessionId: Hex,
+  groupPubkey: Hex,
+  participants: Pubkey[],
+  secretKey: Hex,
+  newThreshold?: number
+): Event {
+  return finalizeEvent({
+    kind: REFRESH_EVENT_KINDS.SESSION_INIT,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, sessionId],
+      [PROTOCOL_TAGS.GROUP_PUBKEY, groupPubkey],
+      ...(newThreshold !== undefined ? [[PROTOCOL_TAGS.THRESHOLD, newThreshold.toString()]] : []),
+      ...participants.map((p) => [PROTOCOL_TAGS.RECIPIENT, p]),
+    ],
+    content: "",
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Create a refresh commitments event (broadcast to all admins)
+ */
+export function createRefreshCommitmentEvent(
+  sessionId: Hex,
+  pkg: RefreshSharePackage | ThresholdChangePackage,
+  participants: Pubkey[],
+  secretKey: Hex
+): Event {
+  return finalizeEvent({
+    kind: REFRESH_EVENT_KINDS.COMMITMENTS,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, sessionId],
+      [PROTOCOL_TAGS.INDEX, pkg.fromIdx.toString()],
+      ...participants.map((p) => [PROTOCOL_TAGS.RECIPIENT, p]),
+    ],
+    content: JSON.stringify({
+      idx: pkg.fromIdx,
+      vssCommitments: pkg.vssCommitments,
+    }),
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Create an encrypted refresh share event for a single admin
+ */
+export function createRefreshShareEvent(
+  sessionId: Hex,
+  fromIdx: number,
+  share: SecretShare,
+  recipient: Pubkey,
+  secretKey: Hex
+): Event {
+  const conversationKey = nip44.v2.utils.getConversationKey(
+    hexToBytes(secretKey),
+    recipient
+  );
+
+  return finalizeEvent({
+    kind: REFRESH_EVENT_KINDS.REFRESH_SHARE,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, sessionId],
+      [PROTOCOL_TAGS.INDEX, fromIdx.toString()],
+      [PROTOCOL_TAGS.RECIPIENT, recipient],
+      [PROTOCOL_TAGS.RECIPIENT_INDEX, share.idx.toString()],
+    ],
+    content: nip44.v2.encrypt(JSON.stringify(share), conversationKey),
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Create a confirmation event carrying the refreshed VSS commitments
+ */
+export function createRefreshConfirmationEvent(
+  sessionId: Hex,
+  keyPackage: KeyPackage,
+  participants: Pubkey[],
+  secretKey: Hex
+): Event {
+  return finalizeEvent({
+    kind: REFRESH_EVENT_KINDS.CONFIRMATION,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, sessionId],
+      [PROTOCOL_TAGS.INDEX, keyPackage.share.idx.toString()],
+      ...participants.map((p) => [PROTOCOL_TAGS.RECIPIENT, p]),
+    ],
+    content: JSON.stringify({
+      idx: keyPackage.share.idx,
+      vssCommitments: keyPackage.vssCommitments,
+    }),
+  }, hexToBytes(secretKey));
+}
+
+// ============================================================================
+// Refresh Coordinator
+// ============================================================================
+
+/**
+ * Oldest protocol event handled (seconds), also how far back the
+ * subscription reaches. Finished session IDs are forgotten after it.
+ */
+const EVENT_MAX_AGE = 300;
+
+/**
+ * Most events buffered per admin for a session we have not seen yet:
+ * commitments, a refresh share and a confirmation
+ */
+const EARLY_EVENTS_PER_ADMIN = 3;
+
+/** Refresh events that arrived before their session initiation */
+interface EarlyEvents {
+  events: Event[];
+  /** When the first event arrived (ms), to drop the buffer after the session timeout */
+  receivedAt: number;
+}
+
+/** Local state for a refresh session in progress */
+interface ActiveRefresh {
+  sessionId: Hex;
+  /** Threshold after the session (the current one for a plain refresh) */
+  newThreshold: number;
+  /** Refresh commitments received, by sender index */
+  commitments: Map<ParticipantId, Hex[]>;
+  /** Refresh shares addressed to us, by sender index */
+  shares: Map<ParticipantId, SecretShare>;
+  /** Refreshed commitments confirmed by each admin */
+  confirmations: Map<ParticipantId, Hex[]>;
+  /** Admins who sent a malformed message, named if the session times out */
+  invalid: ParticipantId[];
+  /** Refreshed key package, held until every admin has confirmed */
+  pending?: KeyPackage;
+  timeout: ReturnType<typeof setTimeout>;
+  /** Pending result (only for sessions we requested) */
+  result?: {
+    resolve: (keyPackage: KeyPackage) => void;
+    reject: (error: Error) => void;
+  };
+}
+
+/**
+ * Drives key share refresh sessions over nostr events
+ */
+export class RefreshCoordinator {
+  private config: RefreshCoordinatorConfig;
+  private pubkey: Pubkey;
+  private active: ActiveRefresh | null = null;
+  private early: Map<Hex, EarlyEvents> = new Map();
+  /** Finished session IDs, with when they finished (ms) */
+  private done: Map<Hex, number> = new Map();
+  private pendingApprovals: Set<Hex> = new Set();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(config: RefreshCoordinatorConfig) {
+    const { keyPackage, participants } = config;
+
+    if (participants.length !== keyPackage.maxSigners) {
+      throw new Error("Number of participants must equal max signers");
+    }
+
+    this.config = {
+      timeoutMs: 60000,
+      ...config,
+    };
+    this.pubkey = getPublicKey(hexToBytes(config.secretKey));
+
+    if (participants[keyPackage.share.idx - 1] !== this.pubkey) {
+      throw new Error("Secret key does not match this participant's index");
+    }
+  }
+
+  /**
+   * Start listening for refresh protocol events addressed to us
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.config.transport.subscribe(
+      `refresh-${this.pubkey.slice(0, 8)}-${this.config.keyPackage.share.idx}`,
+      [
+        {
+          kinds: Object.values(REFRESH_EVENT_KINDS),
+          "#p": [this.pubkey],
+          since: Math.floor(Date.now() / 1000) - EVENT_MAX_AGE,
+        },
+      ],
+      (event) => this.handleEvent(event)
+    );
+  }
+
+  /**
+   * Stop listening and abort the refresh in progress
+   */
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    if (this.active) {
+      this.fail(new Error("Refresh coordinator stopped"));
+    }
+    this.early.clear();
+  }
+
+  /**
+   * Get the current key package (replaced after a successful refresh)
+   */
+  getKeyPackage(): KeyPackage {
+    return this.config.keyPackage;
+  }
+
+  /**
+   * Get the ID of the refresh session in progress
+   */
+  getActiveSessionId(): Hex | null {
+    return this.active?.sessionId ?? null;
+  }
+
+  /**
+   * Start a refresh session with all admins
+   *
+   * Resolves with the refreshed key package once every admin has
+   * confirmed, and rejects (keeping the current key package) otherwise.
+   */
+  async refresh(): Promise<KeyPackage> {
+    return this.run(this.config.keyPackage.threshold);
+  }
+
+  /**
+   * Start a threshold change session with all admins
+   *
+   * The group public key and admin set stay the same. Every other admin
+   * must approve the change (see onThresholdChangeRequest); the new key
+   * package is only used once every admin has confirmed it.
+   */
+  async changeThreshold(newThreshold: number): Promise<KeyPackage> {
+    const { threshold, maxSigners } = this.config.keyPackage;
+
+    if (!Number.isInteger(newThreshold) || newThreshold < 2 || newThreshold > maxSigners) {
+      throw new Error(`Invalid threshold: ${newThreshold}`);
+    }
+    if (newThreshold === threshold) {
+      throw new Error("Threshold is unchanged; refresh the shares instead");
+    }
+
+    return this.run(newThreshold);
+  }
+
+  /**
+   * Handle an incoming refresh protocol event
+   */
+  handleEvent(event: Event): void {
+    if (!verifyEvent(event)) return;
+    if (event.created_at < Math.floor(Date.now() / 1000) - EVENT_MAX_AGE) return;
+
+    this.pruneExpired();
+
+    const sessionId = getTagValue(event, PROTOCOL_TAGS.SESSION);
+    if (!sessionId || this.done.has(sessionId)) return;
+
+    // Only admins of this group take part in a refresh, and our own
+    // messages are applied locally when sent. An admin with weighted
+    // shares runs a coordinator per share, so messages are told apart by
+    // share index rather than pubkey.
+    if (!this.config.participants.includes(event.pubkey)) return;
+    if (getTagValue(event, PROTOCOL_TAGS.INDEX) === this.config.keyPackage.share.idx.toString()) {
+      return;
+    }
+
+    if (event.kind === REFRESH_EVENT_KINDS.SESSION_INIT) {
+      this.handleRefreshRequest(event, sessionId);
+      return;
+    }
+
+    const active = this.active;
+    if (!active || active.sessionId !== sessionId) {
+      // Messages may arrive before the session initiation
+      const early = this.early.get(sessionId) ?? { events: [], receivedAt: Date.now() };
+      if (early.events.length < this.config.participants.length * EARLY_EVENTS_PER_ADMIN) {
+        early.events.push(event);
+      }
+      this.early.set(sessionId, early);
+      return;
+    }
+
+    try {
+      switch (event.kind) {
+        case REFRESH_EVENT_KINDS.COMMITMENTS:
+          this.handleCommitments(active, event);
+          break;
+        case REFRESH_EVENT_KINDS.REFRESH_SHARE:
+          this.handleRefreshShare(active, event);
+          break;
+        case REFRESH_EVENT_KINDS.CONFIRMATION:
+          this.handleConfirmation(active, event);
+          break;
+      }
+    } catch (error) {
+      // Handlers drop malformed events, so this is a failed share check
+      this.fail(toError(error));
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Request a refresh or threshold change session and contribute to it
+   */
+  private async run(newThreshold: number): Promise<KeyPackage> {
+    if (this.active) {
+      throw new Error("A refresh is already in progress");
+    }
+
+    const { keyPackage, participants, secretKey } = this.config;
+    const sessionId = generateSessionId();
+
+    const result = new Promise<KeyPackage>((resolve, reject) => {
+      this.begin(sessionId, newThreshold, { resolve, reject });
+    });
+
+    try {
+      await this.config.transport.publish(
+        createRefreshRequestEvent(
+          sessionId,
+          keyPackage.groupPubkey,
+          participants,
+          secretKey,
+          newThreshold !== keyPackage.threshold ? newThreshold : undefined
+        )
+      );
+      this.contribute();
+    } catch (error) {
+      this.fail(toError(error));
+    }
+
+    return result;
+  }
+
+  private handleRefreshRequest(event: Event, sessionId: Hex): void {
+    const { keyPackage } = this.config;
+
+    if (this.active || this.pendingApprovals.has(sessionId)) return;
+    if (getTagValue(event, PROTOCOL_TAGS.GROUP_PUBKEY) !== keyPackage.groupPubkey) {
+      return;
+    }
+
+    const thresholdTag = getTagValue(event, PROTOCOL_TAGS.THRESHOLD);
+    if (thresholdTag === undefined) {
+      this.accept(sessionId, keyPackage.threshold);
+      return;
+    }
+
+    const newThreshold = Number(thresholdTag);
+    if (
+      !Number.isInteger(newThreshold) ||
+      newThreshold < 2 ||
+      newThreshold > keyPackage.maxSigners ||
+      newThreshold === keyPackage.threshold
+    ) {
+      return;
+    }
+
+    // Requested by one of our other shares
+    if (event.pubkey === this.pubkey) {
+      this.accept(sessionId, newThreshold);
+      return;
+    }
+
+    // Threshold changes need the admin's approval; a declined request
+    // times out on the requester's side
+    this.pendingApprovals.add(sessionId);
+    Promise.resolve()
+      .then(() => this.config.onThresholdChangeRequest?.(newThreshold, event.pubkey) ?? false)
+      .catch(() => false)
+      .then((approved) => {
+        this.pendingApprovals.delete(sessionId);
+        if (approved && this.unsubscribe && !this.active) {
+          this.accept(sessionId, newThreshold);
+        } else {
+          this.done.set(sessionId, Date.now());
+          this.early.delete(sessionId);
+        }
+      });
+  }
+
+  private accept(sessionId: Hex, newThreshold: number): void {
+    this.begin(sessionId, newThreshold);
+
+    try {
+      this.contribute();
+    } catch (error) {
+      this.fail(toError(error));
+      return;
+    }
+
+    // Replay messages that arrived before the request
+    const early = this.early.get(sessionId)?.events ?? [];
+    this.early.delete(sessionId);
+    for (const e of early) {
+      this.handleEvent(e);
+    }
+  }
+
+  private handleCommitments(active: ActiveRefresh, event: Event): void {
+    const idx = this.getSenderIndex(event);
+    if (idx === null || active.commitments.has(idx)) return;
+
+    // Zero polynomials omit the constant term; reshare polynomials to a
+    // lower threshold include it
+    const { threshold } = this.config.keyPackage;
+    const expected = active.newThreshold < threshold ? active.newThreshold : active.newThreshold - 1;
+    const content = parseContent<{ idx: unknown; vssCommitments: unknown }>(event);
+    if (
+      content?.idx !== idx ||
+      !isCommitmentList(content.vssCommitments) ||
+      content.vssCommitments.length !== expected
+    ) {
+      this.reject(active, idx);
+      return;
+    }
+
+    active.commitments.set(idx, content.vssCommitments);
+    this.tryApply(active);
+  }
+
+  private handleRefreshShare(active: ActiveRefresh, event: Event): void {
+    const idx = this.getSenderIndex(event);
+    if (idx === null) return;
+    if (getTagValue(event, PROTOCOL_TAGS.RECIPIENT) !== this.pubkey) return;
+    if (
+      getTagValue(event, PROTOCOL_TAGS.RECIPIENT_INDEX) !==
+      this.config.keyPackage.share.idx.toString()
+    ) {
+      return;
+    }
+    if (active.shares.has(idx)) return;
+
+    const share = this.decryptShare(event);
+    if (!share || share.idx !== this.config.keyPackage.share.idx) {
+      this.reject(active, idx);
+      return;
+    }
+
+    active.shares.set(idx, share);
+    this.tryApply(active);
+  }
+
+  private handleConfirmation(active: ActiveRefresh, event: Event): void {
+    const idx = this.getSenderIndex(event);
+    if (idx === null || active.confirmations.has(idx)) return;
+
+    const content = parseContent<{ idx: unknown; vssCommitments: unknown }>(event);
+    if (content?.idx !== idx || !isCommitmentList(content.vssCommitments)) {
+      this.reject(active, idx);
+      return;
+    }
+
+    active.confirmations.set(idx, content.vssCommitments);
+    this.trySwap(active);
+  }
+
+  /**
+   * Decrypt a refresh share event, or null if it is malformed
+   */
+  private decryptShare(event: Event): SecretShare | null {
+    try {
+      const conversationKey = nip44.v2.utils.getConversationKey(
+        hexToBytes(this.config.secretKey),
+        event.pubkey
+      );
+      const share: unknown = JSON.parse(nip44.v2.decrypt(event.content, conversationKey));
+      if (share === null || typeof share !== "object") return null;
+
+      const { idx, seckey } = share as Partial<SecretShare>;
+      if (
+        typeof idx !== "number" ||
+        typeof seckey !== "string" ||
+        !/^[0-9a-f]{64}$/i.test(seckey)
+      ) {
+        return null;
+      }
+
+      return { idx, seckey };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Record an admin whose message was malformed; the session then waits
+   * for the timeout, which names the admin
+   */
+  private reject(active: ActiveRefresh, idx: ParticipantId): void {
+    if (!active.invalid.includes(idx)) active.invalid.push(idx);
+  }
+
+  private begin(
+    sessionId: Hex,
+    newThreshold: number,
+    result?: { resolve: (keyPackage: KeyPackage) => void; reject: (error: Error) => void }
+  ): void {
+    const timeout = setTimeout(() => {
+      const invalid = this.active?.invalid ?? [];
+      this.fail(
+        new Error(
+          `Refresh session ${sessionId} timed out` +
+            (invalid.length > 0 ? `, invalid messages from: ${invalid.join(", ")}` : "")
+        )
+      );
+    }, this.config.timeoutMs);
+
+    this.active = {
+      sessionId,
+      newThreshold,
+      commitments: new Map(),
+      shares: new Map(),
+      confirmations: new Map(),
+      invalid: [],
+      timeout,
+      ...(result && { result }),
+    };
+  }
+
+  /**
+   * Generate our refresh shares and send them to the other admins
+   */
+  private contribute(): void {
+    const active = this.active;
+    if (!active) return;
+
+    const { keyPackage, participants, secretKey } = this.config;
+    const myIdx = keyPackage.share.idx;
+    const pkg =
+      active.newThreshold === keyPackage.threshold
+        ? generateRefreshShares(keyPackage)
+        : generateThresholdChangeShares(keyPackage, getAllIndices(keyPackage), active.newThreshold);
+    const shares = "refreshShares" in pkg ? pkg.refreshShares : pkg.shares;
+
+    this.publish(createRefreshCommitmentEvent(active.sessionId, pkg, participants, secretKey));
+
+    for (const share of shares) {
+      if (share.idx === myIdx) continue;
+
+      const recipient = participants[share.idx - 1];
+      if (!recipient) {
+        throw new Error(`No pubkey for participant ${share.idx}`);
+      }
+
+      this.publish(
+        createRefreshShareEvent(active.sessionId, myIdx, share, recipient, secretKey)
+      );
+    }
+
+    active.commitments.set(myIdx, pkg.vssCommitments);
+    active.shares.set(myIdx, shares.find((s) => s.idx === myIdx)!);
+    this.tryApply(active);
+  }
+
+  /**
+   * Apply the refresh shares once every admin's share and commitments are in
+   */
+  private tryApply(active: ActiveRefresh): void {
+    const { keyPackage, participants, secretKey } = this.config;
+
+    if (active.pending) return;
+    if (active.commitments.size < keyPackage.maxSigners) return;
+    if (active.shares.size < keyPackage.maxSigners) return;
+
+    const commitments = Array.from(active.commitments.entries()).sort(([a], [b]) => a - b);
+    let refreshed: KeyPackage;
+
+    if (active.newThreshold === keyPackage.threshold) {
+      const packages: RefreshSharePackage[] = commitments.map(([fromIdx, vssCommitments]) => ({
+        fromIdx,
+        refreshShares: [active.shares.get(fromIdx)!],
+        vssCommitments,
+      }));
+
+      refreshed = applyRefreshShares(keyPackage, packages);
+
+      if (!verifyRefreshedShare(refreshed)) {
+        throw new Error("Refreshed share does not match refreshed commitments");
+      }
+    } else {
+      // Verifies every package and the new share against the new commitments
+      const dealerIndices = getAllIndices(keyPackage);
+      const packages: ThresholdChangePackage[] = commitments.map(
+        ([fromIdx, vssCommitments]) => ({
+          fromIdx,
+          dealerIndices,
+          newThreshold: active.newThreshold,
+          shares: [active.shares.get(fromIdx)!],
+          vssCommitments,
+        })
+      );
+
+      refreshed = applyThresholdChangeShares(keyPackage, packages);
+    }
+
+    active.pending = refreshed;
+    this.publish(
+      createRefreshConfirmationEvent(active.sessionId, refreshed, participants, secretKey)
+    );
+    active.confirmations.set(keyPackage.share.idx, refreshed.vssCommitments);
+    this.trySwap(active);
+  }
+
+  /**
+   * Replace the key package once every admin confirmed the same commitments
+   */
+  private trySwap(active: ActiveRefresh): void {
+    const { pending } = active;
+    if (!pending || this.active !== active) return;
+
+    const expected = pending.vssCommitments.join(",");
+    for (const [idx, vssCommitments] of active.confirmations) {
+      if (vssCommitments.join(",") !== expected) {
+        throw new Error(`Participant ${idx} confirmed different refreshed commitments`);
+      }
+    }
+
+    if (active.confirmations.size < pending.maxSigners) return;
+
+    clearTimeout(active.timeout);
+    this.active = null;
+    this.done.set(active.sessionId, Date.now());
+    this.config.keyPackage = pending;
+
+    this.config.onRefresh?.(pending);
+    active.result?.resolve(pending);
+  }
+
+  private fail(error: Error): void {
+    const active = this.active;
+    if (!active) return;
+
+    clearTimeout(active.timeout);
+    this.active = null;
+    this.done.set(active.sessionId, Date.now());
+    this.early.delete(active.sessionId);
+
+    active.result?.reject(error);
+  }
+
+  private publish(event: Event): void {
+    this.config.transport.publish(event).catch((error) => {
+      this.fail(toError(error));
+    });
+  }
+
+  /**
+   * Get the index an event was sent from, or null if its author does not
+   * hold that index
+   */
+  private getSenderIndex(event: Event): ParticipantId | null {
+    const idx = parseInt(getTagValue(event, PROTOCOL_TAGS.INDEX) ?? "", 10);
+    return this.config.participants[idx - 1] === event.pubkey ? idx : null;
+  }
+
+  /**
+   * Forget buffered messages older than the session timeout, and finished
+   * sessions whose messages are too old to be handled again
+   */
+  private pruneExpired(): void {
+    const now = Date.now();
+
+    for (const [sessionId, early] of this.early) {
+      if (early.receivedAt < now - this.config.timeoutMs!) this.early.delete(sessionId);
+    }
+    for (const [sessionId, doneAt] of this.done) {
+      if (doneAt < now - EVENT_MAX_AGE * 1000) this.done.delete(sessionId);
+    }
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the first value for a tag
+ */
+function getTagValue(event: Event, tagName: string): string | undefined {
+  return event.tags.find((t) => t[0] === tagName)?.[1];
+}
+
+/**
+ * Parse the JSON content of a protocol event, or null if it is malformed
+ */
+function parseContent<T>(event: Event): T | null {
+  try {
+    const content: unknown = JSON.parse(event.content);
+    return content !== null && typeof content === "object" ? (content as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that a value is a list of VSS commitments (33-byte hex points)
+ */
+function isCommitmentList(value: unknown): value is Hex[] {
+  return (
+    Array.isArray(value) &&
+    value.every((c) => typeof c === "string" && /^[0-9a-f]{66}$/i.test(c))
+  );
+}
+
+/**
+ * Get the share indices of every admin in the group
+ */
+function getAllIndices(keyPackage: KeyPackage): number[] {
+  return Array.from({ length: keyPackage.maxSigners }, (_, i) => i + 1);
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -121,6 +121,16 @@ export function processPublicNonce(
     throw new Error("Received own nonce before generating commitment");
   }
 
+  // A signer must never be able to swap its commitment once recorded,
+  // or a restored session could sign twice with the same secret nonces
+  const existing = session.publicNonces.get(nonce.idx);
+  if (
+    existing &&
+    (existing.hidden_pn !== nonce.hidden_pn || existing.binder_pn !== nonce.binder_pn)
+  ) {
+    throw new Error(`Conflicting nonce from participant ${nonce.idx}`);
+  }
+
   const updatedNonces = new Map(session.publicNonces);
   updatedNonces.set(nonce.idx, nonce);
 
@@ -137,6 +147,50 @@ export function hasAllNonces(session: SigningSession): boolean {
   return session.publicNonces.size === session.config.signerIndices.length;
 }
 
+/**
+ * Narrow a session to a subset of signers whose nonces have been received
+ *
+ * Used when more than threshold signers were invited: the first nonce
+ * commitments to arrive decide who signs, and the others are dropped.
+ */
+export function selectSigningSubset(
+  session: SigningSession,
+  signerIndices: number[]
+): SigningSession {
+  if (signerIndices.length < session.keyPackage.threshold) {
+    throw new Error(
+      `Not enough signers: need ${session.keyPackage.threshold}, got ${signerIndices.length}`
+    );
+  }
+
+  if (!signerIndices.includes(session.keyPackage.share.idx)) {
+    throw new Error("This participant is not in the signer list");
+  }
+
+  if (session.partialSignatures.size > 0) {
+    throw new Error("Cannot change signers after partial signatures were generated");
+  }
+
+  for (const idx of signerIndices) {
+    if (!session.config.signerIndices.includes(idx)) {
+      throw new Error(`Participant ${idx} is not in the signer list`);
+    }
+    if (!session.publicNonces.has(idx)) {
+      throw new Error(`No nonce for participant ${idx}`);
+    }
+  }
+
+  const selected = [...signerIndices].sort((a, b) => a - b);
+
+  return {
+    ...session,
+    config: { ...session.config, signerIndices: selected },
+    publicNonces: new Map(
+      Array.from(session.publicNonces).filter(([idx]) => selected.includes(idx))
+    ),
+  };
+}
+
 // ============================================================================
 // Round 2 - Partial Signature Generation
 // ============================================================================
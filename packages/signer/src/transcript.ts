@@ -0,0 +1,414 @@
+/**
+ * @nkg/signer - Ceremony transcripts
+ *
+ * Records what happened in a DKG or signing ceremony as an append-only
+ * list of entries, each chained to the previous one by its sha256 hash.
+ * Transcripts are built from finished sessions in a canonical order, so
+ * every participant derives the same transcript and can sign its head
+ * hash with their nostr key in an attestation event. Anyone holding the
+ * transcript and the attestations can later check which admins took
+ * part, and that a group-signed event was produced by a given quorum.
+ */
+
+import { ECC, Lib, type CurveElement } from "@cmdcode/frost";
+import { finalizeEvent, verifyEvent, type Event } from "nostr-tools";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+
+import { getPublicShare } from "./dkg.js";
+import { verifySignature } from "./signing.js";
+
+import {
+  PROTOCOL_TAGS,
+  TRANSCRIPT_EVENT_KINDS,
+  type DKGSession,
+  type Hex,
+  type PartialSignature,
+  type Pubkey,
+  type PublicNonce,
+  type SigningSession,
+  type Transcript,
+  type TranscriptEntry,
+  type TranscriptRecord,
+} from "./types.js";
+
+// Re-export types
+export type { Transcript, TranscriptEntry, TranscriptRecord };
+
+/** Previous hash of the first entry */
+const GENESIS_HASH: Hex = "00".repeat(32);
+
+// ============================================================================
+// Building Transcripts
+// ============================================================================
+
+/**
+ * Create an empty transcript for a session
+ */
+export function createTranscript(sessionId: Hex): Transcript {
+  return { sessionId, entries: [] };
+}
+
+/**
+ * Append a record to a transcript, chaining it to the last entry
+ */
+export function appendTranscriptEntry(
+  transcript: Transcript,
+  record: TranscriptRecord
+): Transcript {
+  const seq = transcript.entries.length;
+  const prevHash = getTranscriptHead(transcript);
+  const entry = { ...record, seq, prevHash, hash: hashEntry(seq, record, prevHash) };
+
+  return { ...transcript, entries: [...transcript.entries, entry] };
+}
+
+/**
+ * Get the hash of the last entry, which commits to the whole transcript
+ */
+export function getTranscriptHead(transcript: Transcript): Hex {
+  return transcript.entries[transcript.entries.length - 1]?.hash ?? GENESIS_HASH;
+}
+
+/**
+ * Build the transcript of a finalized DKG session
+ *
+ * Records the configuration, every Round 1 package, and the qualified
+ * set with the resulting group key.
+ */
+export function createDKGTranscript(session: DKGSession): Transcript {
+  if (!session.keyPackage) {
+    throw new Error("DKG session is not finalized");
+  }
+
+  const { sessionId, threshold, maxSigners, participants } = session.config;
+  const records: TranscriptRecord[] = [
+    { type: "dkg_config", data: { threshold, maxSigners, participants } },
+  ];
+
+  for (const pkg of sortByIndex(Array.from(session.round1Packages.values()))) {
+    records.push({
+      type: "dkg_round1",
+      data: {
+        idx: pkg.idx,
+        vssCommitments: pkg.vssCommitments,
+        proofOfKnowledge: pkg.proofOfKnowledge,
+      },
+    });
+  }
+
+  records.push({
+    type: "dkg_result",
+    data: {
+      qualified: Array.from(session.round1Packages.keys())
+        .filter((idx) => !session.disqualified.includes(idx))
+        .sort((a, b) => a - b),
+      disqualified: [...session.disqualified].sort((a, b) => a - b),
+      groupPubkey: session.keyPackage.groupPubkey,
+      vssCommitments: session.keyPackage.vssCommitments,
+    },
+  });
+
+  return records.reduce(appendTranscriptEntry, createTranscript(sessionId));
+}
+
+/**
+ * Build the transcript of a signing session with an aggregated signature
+ *
+ * Records the message and signer set, every nonce commitment and partial
+ * signature, and the final signature.
+ */
+export function createSigningTranscript(
+  session: SigningSession,
+  participants: Pubkey[]
+): Transcript {
+  if (!session.finalSignature) {
+    throw new Error("Signing session is not finalized");
+  }
+
+  const { sessionId, groupPubkey, message, signerIndices } = session.config;
+  const records: TranscriptRecord[] = [
+    {
+      type: "signing_config",
+      data: {
+        groupPubkey,
+        message,
+        signerIndices: [...signerIndices].sort((a, b) => a - b),
+        participants,
+        vssCommitments: session.keyPackage.vssCommitments,
+      },
+    },
+  ];
+
+  for (const nonce of sortByIndex(Array.from(session.publicNonces.values()))) {
+    records.push({
+      type: "signing_nonce",
+      data: { idx: nonce.idx, hidden_pn: nonce.hidden_pn, binder_pn: nonce.binder_pn },
+    });
+  }
+
+  for (const sig of sortByIndex(Array.from(session.partialSignatures.values()))) {
+    records.push({
+      type: "signing_partial",
+      data: { idx: sig.idx, psig: sig.psig, pubkey: sig.pubkey },
+    });
+  }
+
+  records.push({ type: "signing_result", data: { signature: session.finalSignature } });
+
+  return records.reduce(appendTranscriptEntry, createTranscript(sessionId));
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verify a transcript's hash chain and contents
+ *
+ * For DKG transcripts, checks that the group commitments are the sum of
+ * the qualified participants' commitments. For signing transcripts,
+ * checks every partial signature against the signer's public share and
+ * the final signature against the group key.
+ */
+export function verifyTranscript(transcript: Transcript): boolean {
+  let prevHash = GENESIS_HASH;
+
+  for (const [seq, entry] of transcript.entries.entries()) {
+    const { seq: entrySeq, prevHash: entryPrevHash, hash, ...record } = entry;
+    if (
+      entrySeq !== seq ||
+      entryPrevHash !== prevHash ||
+      hash !== hashEntry(seq, record as TranscriptRecord, prevHash)
+    ) {
+      return false;
+    }
+    prevHash = hash;
+  }
+
+  try {
+    switch (transcript.entries[0]?.type) {
+      case "dkg_config":
+        return checkDKGRecords(transcript.entries);
+      case "signing_config":
+        return checkSigningRecords(transcript.entries);
+      default:
+        return false;
+    }
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the nostr pubkeys of the participants recorded in a transcript
+ */
+export function getTranscriptParticipants(transcript: Transcript): Pubkey[] {
+  const config = transcript.entries[0];
+  if (config?.type !== "dkg_config" && config?.type !== "signing_config") {
+    throw new Error("Transcript has no configuration entry");
+  }
+
+  return config.data.participants;
+}
+
+/**
+ * Get the nostr pubkeys of the admins whose shares produced an event's signature
+ *
+ * Throws unless the transcript is valid and records the event's signature.
+ */
+export function getEventSigners(transcript: Transcript, event: Event): Pubkey[] {
+  if (!verifyTranscript(transcript)) {
+    throw new Error("Invalid transcript");
+  }
+
+  const config = transcript.entries[0];
+  const result = transcript.entries[transcript.entries.length - 1];
+  if (config?.type !== "signing_config" || result?.type !== "signing_result") {
+    throw new Error("Not a signing transcript");
+  }
+
+  const { message, groupPubkey, signerIndices, participants } = config.data;
+  if (
+    event.id !== message ||
+    event.sig !== result.data.signature ||
+    event.pubkey !== groupPubkey.slice(2) ||
+    !verifyEvent(event)
+  ) {
+    throw new Error("Transcript does not record this event's signature");
+  }
+
+  return signerIndices.map((idx) => participants[idx - 1]!);
+}
+
+// ============================================================================
+// Attestations
+// ============================================================================
+
+/**
+ * Create an event signing a transcript's head with a participant's nostr key
+ *
+ * The transcript itself is carried in the content, so each attestation
+ * can be audited on its own.
+ */
+export function createTranscriptAttestationEvent(
+  transcript: Transcript,
+  secretKey: Hex
+): Event {
+  return finalizeEvent({
+    kind: TRANSCRIPT_EVENT_KINDS.ATTESTATION,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      [PROTOCOL_TAGS.SESSION, transcript.sessionId],
+      [PROTOCOL_TAGS.TRANSCRIPT, getTranscriptHead(transcript)],
+      ...getTranscriptParticipants(transcript).map((p) => [PROTOCOL_TAGS.RECIPIENT, p]),
+    ],
+    content: JSON.stringify(transcript),
+  }, hexToBytes(secretKey));
+}
+
+/**
+ * Parse and verify an attestation event, returning the attested transcript
+ */
+export function parseTranscriptAttestationEvent(event: Event): Transcript | null {
+  if (event.kind !== TRANSCRIPT_EVENT_KINDS.ATTESTATION || !verifyEvent(event)) {
+    return null;
+  }
+
+  try {
+    const transcript = JSON.parse(event.content) as Transcript;
+    const head = event.tags.find((t) => t[0] === PROTOCOL_TAGS.TRANSCRIPT)?.[1];
+
+    if (
+      head !== getTranscriptHead(transcript) ||
+      !verifyTranscript(transcript) ||
+      !getTranscriptParticipants(transcript).includes(event.pubkey)
+    ) {
+      return null;
+    }
+
+    return transcript;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the participants who signed a transcript's head, in participant order
+ */
+export function getTranscriptAttesters(transcript: Transcript, events: Event[]): Pubkey[] {
+  const head = getTranscriptHead(transcript);
+  const attesters = new Set(
+    events
+      .filter((event) => {
+        const attested = parseTranscriptAttestationEvent(event);
+        return attested?.sessionId === transcript.sessionId && getTranscriptHead(attested) === head;
+      })
+      .map((event) => event.pubkey)
+  );
+
+  return getTranscriptParticipants(transcript).filter((p) => attesters.has(p));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Hash an entry's position, record and previous hash
+ */
+function hashEntry(seq: number, record: TranscriptRecord, prevHash: Hex): Hex {
+  const preimage = JSON.stringify([seq, record.type, record.data, prevHash]);
+  return bytesToHex(sha256(utf8ToBytes(preimage)));
+}
+
+/**
+ * Sort packages by participant index
+ */
+function sortByIndex<T extends { idx: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.idx - b.idx);
+}
+
+/**
+ * Check that a DKG transcript's group commitments match its Round 1 packages
+ */
+function checkDKGRecords(entries: TranscriptEntry[]): boolean {
+  const [config, ...rest] = entries;
+  const result = rest.pop();
+  if (config?.type !== "dkg_config" || result?.type !== "dkg_result") {
+    return false;
+  }
+
+  const round1 = rest.flatMap((e) => (e.type === "dkg_round1" ? [e.data] : []));
+  const commitments = new Map(round1.map((pkg) => [pkg.idx, pkg.vssCommitments]));
+  const { qualified, disqualified, groupPubkey, vssCommitments } = result.data;
+  const { threshold, maxSigners } = config.data;
+
+  if (
+    round1.length !== rest.length ||
+    qualified.length < threshold ||
+    qualified.length + disqualified.length !== maxSigners ||
+    vssCommitments.length !== threshold
+  ) {
+    return false;
+  }
+
+  for (let i = 0; i < threshold; i++) {
+    let sum: CurveElement | null = null;
+    for (const idx of qualified) {
+      const commitment = commitments.get(idx)?.[i];
+      if (!commitment) return false;
+      sum = ECC.G.ElementAdd(sum, ECC.G.DeserializeElement(commitment));
+    }
+
+    if (!sum || ECC.G.SerializeElement(sum).hex !== vssCommitments[i]) {
+      return false;
+    }
+  }
+
+  return vssCommitments[0] === groupPubkey;
+}
+
+/**
+ * Check a signing transcript's partial and final signatures
+ */
+function checkSigningRecords(entries: TranscriptEntry[]): boolean {
+  const [config, ...rest] = entries;
+  const result = rest.pop();
+  if (config?.type !== "signing_config" || result?.type !== "signing_result") {
+    return false;
+  }
+
+  const { groupPubkey, message, signerIndices, participants, vssCommitments } = config.data;
+  const nonces = rest.flatMap((e) => (e.type === "signing_nonce" ? [e.data] : []));
+  const psigs = rest.flatMap((e) => (e.type === "signing_partial" ? [e.data] : []));
+
+  if (
+    vssCommitments[0] !== groupPubkey ||
+    nonces.length + psigs.length !== rest.length ||
+    signerIndices.some((idx) => !participants[idx - 1]) ||
+    !sameIndices(nonces, signerIndices) ||
+    !sameIndices(psigs, signerIndices)
+  ) {
+    return false;
+  }
+
+  const ctx = Lib.get_group_signing_ctx(groupPubkey, nonces, message);
+
+  return (
+    psigs.every((sig: PartialSignature) => {
+      const nonce = nonces.find((n: PublicNonce) => n.idx === sig.idx)!;
+      return (
+        sig.pubkey === getPublicShare(vssCommitments, sig.idx) &&
+        Lib.verify_partial_sig(ctx, nonce, sig.pubkey, sig.psig)
+      );
+    }) && verifySignature(groupPubkey, message, result.data.signature)
+  );
+}
+
+/**
+ * Check that a list of packages has exactly one per signer index
+ */
+function sameIndices(items: { idx: number }[], indices: number[]): boolean {
+  return items.map((i) => i.idx).join(",") === indices.join(",");
+}
@@ -2,6 +2,11 @@
  * @nkg/signer - Type definitions for MPC/DKG key management
  */
 
+import type { Event, Filter, UnsignedEvent } from "nostr-tools";
+
+import type { SigningCoordinator } from "./coordinator.js";
+import type { DecryptionCoordinator } from "./ecdh.js";
+
 // ============================================================================
 // Core Types
 // ============================================================================
@@ -49,12 +54,84 @@ export interface KeyPackage {
   maxSigners: number;
 }
 
+/** Serialized key package for storage (legacy format) */
+export interface SerializedKeyPackageV1 {
+  /** Version for forward compatibility */
+  version: 1;
+  /** The key package data */
+  data: KeyPackage;
+}
+
 /** Serialized key package for storage */
 export interface SerializedKeyPackage {
   /** Version for forward compatibility */
-  version: 1;
+  version: 2;
   /** The key package data */
   data: KeyPackage;
+  /** Admin nostr pubkeys, ordered by share index (if known) */
+  participants?: Pubkey[];
+  /** When the package was serialized (unix timestamp) */
+  savedAt: number;
+}
+
+/** Any serialized key package version that can be migrated */
+export type AnySerializedKeyPackage = SerializedKeyPackageV1 | SerializedKeyPackage;
+
+/** Encrypted key share export file */
+export interface KeyShareFile {
+  /** File format marker */
+  type: "nkg-key-share";
+  /** The group public key (unencrypted, for identification) */
+  groupPubkey: Hex;
+  /** Share index (unencrypted, for identification) */
+  idx: number;
+  /** The encrypted key package (ncryptshare string) */
+  ncryptshare: string;
+}
+
+// ============================================================================
+// Key Ring Types
+// ============================================================================
+
+/** Metadata about a group whose share is held in a key ring */
+export interface KeyRingMetadata {
+  /** Display name of the group */
+  name?: string;
+  /** Relays used for the group's protocol messages */
+  relays: string[];
+  /** Admin nostr pubkeys, ordered by share index (if known) */
+  participants?: Pubkey[];
+  /** When the share was last refreshed or its threshold changed (unix timestamp) */
+  lastRefreshedAt?: number;
+}
+
+/** A key package held in a key ring, with its group metadata */
+export interface KeyRingEntry {
+  keyPackage: KeyPackage;
+  /** Other shares of the same group key held by this admin (weighted admins) */
+  additionalKeyPackages?: KeyPackage[];
+  metadata: KeyRingMetadata;
+  /** When the share was added to the key ring (unix timestamp) */
+  addedAt: number;
+}
+
+/** Key packages for many groups, indexed by group public key */
+export interface KeyRing {
+  entries: Map<Hex, KeyRingEntry>;
+}
+
+/** Encrypted key ring backup file */
+export interface KeyRingBackup {
+  /** File format marker */
+  type: "nkg-key-ring";
+  /** Version for forward compatibility */
+  version: 1;
+  /** Groups and share indices in the backup (unencrypted, for identification) */
+  groups: { groupPubkey: Hex; idx: number }[];
+  /** The encrypted key ring entries (base64 envelope) */
+  encrypted: string;
+  /** When the backup was created (unix timestamp) */
+  savedAt: number;
 }
 
 // ============================================================================
@@ -66,6 +143,7 @@ export type DKGState =
   | "initialized"
   | "round1_complete"
   | "round2_complete"
+  | "complaints"
   | "finalized"
   | "failed";
 
@@ -75,8 +153,8 @@ export interface DKGRound1Package {
   idx: number;
   /** VSS commitments */
   vssCommitments: Hex[];
-  /** Proof of knowledge (optional, for verification) */
-  proofOfKnowledge?: Hex;
+  /** Schnorr proof of knowledge of the constant coefficient (R || mu) */
+  proofOfKnowledge: Hex;
 }
 
 /** DKG Round 2 package (share distribution) */
@@ -89,6 +167,26 @@ export interface DKGRound2Package {
   encryptedShare: Hex;
 }
 
+/** Complaint against a participant who sent an invalid Round 2 share */
+export interface DKGComplaint {
+  /** Index of the participant raising the complaint */
+  complainerIdx: number;
+  /** Index of the participant accused of sending an invalid share */
+  accusedIdx: number;
+  /** The disputed share as received (null if it could not be decrypted) */
+  share: Hex | null;
+}
+
+/** Response from an accused participant revealing the share it sent */
+export interface DKGJustification {
+  /** Index of the accused participant */
+  fromIdx: number;
+  /** Index of the complainer the share was sent to */
+  toIdx: number;
+  /** The revealed secret share */
+  share: Hex;
+}
+
 /** Configuration for a DKG session */
 export interface DKGConfig {
   /** Session identifier (random hex string) */
@@ -97,7 +195,7 @@ export interface DKGConfig {
   threshold: number;
   /** Maximum number of signers */
   maxSigners: number;
-  /** List of participant nostr pubkeys */
+  /** Participant nostr pubkeys by index (repeated for weighted participants) */
   participants: Pubkey[];
   /** This participant's index */
   myIndex: number;
@@ -105,6 +203,13 @@ export interface DKGConfig {
   mySecretKey: Hex;
 }
 
+/** A DKG participant and the number of share indices (votes) it receives */
+export interface WeightedParticipant {
+  pubkey: Pubkey;
+  /** Number of share indices, at least 1 */
+  weight: number;
+}
+
 /** DKG session state (for a single participant) */
 export interface DKGSession {
   /** Session configuration */
@@ -115,6 +220,10 @@ export interface DKGSession {
   round1Packages: Map<ParticipantId, DKGRound1Package>;
   /** Round 2 packages received from other participants */
   round2Packages: Map<ParticipantId, DKGRound2Package>;
+  /** Unresolved complaints (finalization waits until they are resolved) */
+  complaints: DKGComplaint[];
+  /** Participants excluded from the qualified set by the complaint round */
+  disqualified: ParticipantId[];
   /** This participant's round 1 secret (kept locally) */
   myRound1Secret?: {
     coefficients: bigint[];
@@ -160,6 +269,28 @@ export interface PartialSignature {
   pubkey: Hex;
 }
 
+/** A preprocessed public nonce commitment, published ahead of signing */
+export interface PreprocessedNonce extends PublicNonce {
+  /** Unique nonce identifier */
+  id: Hex;
+}
+
+/** A signer's pool of preprocessed secret nonces (kept locally) */
+export interface NoncePool {
+  /** Participant index */
+  idx: number;
+  /** Unused secret nonces, by nonce id */
+  nonces: Map<Hex, CommitmentPackage>;
+}
+
+/** Coordinator record of published nonce commitments */
+export interface NonceRegistry {
+  /** Unused public nonces per signer, in publication order */
+  available: Map<ParticipantId, PreprocessedNonce[]>;
+  /** IDs of nonces that have already been assigned */
+  used: Set<Hex>;
+}
+
 /** Configuration for a signing session */
 export interface SigningConfig {
   /** Session identifier */
@@ -188,6 +319,114 @@ export interface SigningSession {
   finalSignature?: Hex;
 }
 
+// ============================================================================
+// Quorum Policy Types
+// ============================================================================
+
+/** A set of admins of which a minimum number must take part in signing */
+export interface QuorumTier {
+  /** Name of the tier, e.g. "core team" */
+  name: string;
+  /** Nostr pubkeys of the tier's members */
+  members: Pubkey[];
+  /** Minimum number of distinct members among the signers */
+  minimum: number;
+}
+
+/** Rules a signer set must meet on top of the key's threshold */
+export interface QuorumPolicy {
+  tiers: QuorumTier[];
+}
+
+/** Result of checking a signer set against the threshold and quorum policy */
+export interface QuorumCheck {
+  /** Whether the signer set can sign and meets every tier */
+  satisfied: boolean;
+  /** Number of share indices (votes) in the signer set */
+  weight: number;
+  /** Names of the tiers the signer set does not meet */
+  unmetTiers: string[];
+}
+
+// ============================================================================
+// Session Persistence Types
+// ============================================================================
+
+/** DKG session stored between page loads, with its secrets encrypted */
+export interface SerializedDKGSession {
+  version: 1;
+  /** Session configuration, without the nostr secret key */
+  config: Omit<DKGConfig, "mySecretKey">;
+  state: DKGState;
+  round1Packages: DKGRound1Package[];
+  complaints: DKGComplaint[];
+  disqualified: ParticipantId[];
+  /** Encrypted nostr secret key, polynomial, received shares and key package (base64) */
+  secrets: string;
+}
+
+/** Signing session stored between page loads, with its secrets encrypted */
+export interface SerializedSigningSession {
+  version: 1;
+  config: SigningConfig;
+  publicNonces: PublicNonce[];
+  partialSignatures: PartialSignature[];
+  finalSignature?: Hex;
+  /** Encrypted key package and secret nonces (base64) */
+  secrets: string;
+}
+
+// ============================================================================
+// Transcript Types
+// ============================================================================
+
+/** A record of one step of a DKG or signing ceremony */
+export type TranscriptRecord =
+  | {
+      type: "dkg_config";
+      data: { threshold: number; maxSigners: number; participants: Pubkey[] };
+    }
+  | { type: "dkg_round1"; data: DKGRound1Package }
+  | {
+      type: "dkg_result";
+      data: {
+        qualified: ParticipantId[];
+        disqualified: ParticipantId[];
+        groupPubkey: Hex;
+        vssCommitments: Hex[];
+      };
+    }
+  | {
+      type: "signing_config";
+      data: {
+        groupPubkey: Hex;
+        message: Hex;
+        signerIndices: number[];
+        participants: Pubkey[];
+        vssCommitments: Hex[];
+      };
+    }
+  | { type: "signing_nonce"; data: PublicNonce }
+  | { type: "signing_partial"; data: PartialSignature }
+  | { type: "signing_result"; data: { signature: Hex } };
+
+/** A transcript record, chained to the previous one by its hash */
+export type TranscriptEntry = TranscriptRecord & {
+  /** Position in the transcript, starting at 0 */
+  seq: number;
+  /** Hash of the previous entry (zeros for the first) */
+  prevHash: Hex;
+  /** sha256 of the entry's position, record and previous hash */
+  hash: Hex;
+};
+
+/** Append-only, hash-chained record of a ceremony */
+export interface Transcript {
+  /** DKG or signing session the transcript records */
+  sessionId: Hex;
+  entries: TranscriptEntry[];
+}
+
 // ============================================================================
 // Nostr Event Types for DKG/Signing Protocol
 // ============================================================================
@@ -202,6 +441,10 @@ export const DKG_EVENT_KINDS = {
   ROUND2_PACKAGE: 28002,
   /** DKG completion confirmation */
   COMPLETION: 28003,
+  /** Complaint about an invalid Round 2 share (broadcast) */
+  COMPLAINT: 28004,
+  /** Justification revealing a disputed share (broadcast) */
+  JUSTIFICATION: 28005,
 } as const;
 
 /** Event kinds for signing protocol messages */
@@ -214,6 +457,36 @@ export const SIGNING_EVENT_KINDS = {
   PARTIAL_SIGNATURE: 28012,
   /** Final signature broadcast */
   FINAL_SIGNATURE: 28013,
+  /** Signer subset chosen for a robust signing session */
+  SIGNER_SELECTION: 28014,
+  /** Batch of preprocessed nonce commitments (broadcast) */
+  NONCE_BATCH: 28015,
+} as const;
+
+/** Event kinds for share refresh protocol messages */
+export const REFRESH_EVENT_KINDS = {
+  /** Refresh session initiation */
+  SESSION_INIT: 28020,
+  /** Refresh VSS commitments (broadcast) */
+  COMMITMENTS: 28021,
+  /** Refresh share (encrypted, direct) */
+  REFRESH_SHARE: 28022,
+  /** Refreshed share confirmation */
+  CONFIRMATION: 28023,
+} as const;
+
+/** Event kinds for ceremony transcripts */
+export const TRANSCRIPT_EVENT_KINDS = {
+  /** A participant's signature over a transcript head (broadcast) */
+  ATTESTATION: 28030,
+} as const;
+
+/** Event kinds for threshold ECDH (group decryption) messages */
+export const ECDH_EVENT_KINDS = {
+  /** Request for ECDH shares with a peer pubkey */
+  REQUEST: 28040,
+  /** ECDH share with its proof (encrypted, direct) */
+  SHARE: 28041,
 } as const;
 
 /** Tags used in DKG/signing events */
@@ -226,4 +499,220 @@ export const PROTOCOL_TAGS = {
   ROUND: "round",
   /** Recipient pubkey tag (for encrypted messages) */
   RECIPIENT: "p",
+  /** Recipient share index tag (an admin with weighted shares holds several) */
+  RECIPIENT_INDEX: "recipient_idx",
+  /** Group public key tag */
+  GROUP_PUBKEY: "group_pubkey",
+  /** Participating signer indices tag */
+  SIGNERS: "signers",
+  /** Signing mode tag */
+  MODE: "mode",
+  /** Transcript head hash tag */
+  TRANSCRIPT: "transcript",
+  /** New threshold tag (threshold change sessions) */
+  THRESHOLD: "threshold",
+  /** Peer pubkey tag (threshold ECDH sessions) */
+  PEER: "peer",
+  /** Preprocessed nonce assigned to a signer (id, index, hidden and binder nonce) */
+  NONCE: "nonce",
 } as const;
+
+// ============================================================================
+// Signing Coordinator Types
+// ============================================================================
+
+/** Minimal relay connection used to exchange protocol messages */
+export interface ProtocolTransport {
+  /** Publish an event to the relay */
+  publish(event: Event): Promise<unknown>;
+  /** Subscribe to events matching the filters, returns an unsubscribe function */
+  subscribe(
+    id: string,
+    filters: Filter[],
+    callback: (event: Event) => void
+  ): () => void;
+}
+
+/** A request to sign a nostr event with the group key */
+export interface SigningRequest {
+  /** Session identifier */
+  sessionId: Hex;
+  /** The group public key (33-byte hex, compressed) */
+  groupPubkey: Hex;
+  /** Participating signer indices (invited candidates in robust mode) */
+  signerIndices: number[];
+  /** The unsigned event to be signed by the group */
+  event: UnsignedEvent;
+  /** Whether the requester picks the signers from the first nonces to arrive */
+  robust?: boolean;
+  /** Preprocessed nonces assigned to the signers, for single-round signing */
+  nonces?: PreprocessedNonce[];
+}
+
+/** Options for a robust signing request */
+export interface RobustSigningOptions {
+  /** Signer indices to invite (defaults to all admins) */
+  candidates?: number[];
+  /** Maximum number of attempts with a new signer subset */
+  maxAttempts?: number;
+  /** How long each attempt may take before its signers count as stalled (ms) */
+  attemptTimeoutMs?: number;
+}
+
+/** Result of a robust signing request */
+export interface RobustSigningResult {
+  /** The group-signed event */
+  event: Event;
+  /** Indices of signers that stalled in earlier attempts */
+  stalled: number[];
+}
+
+/** Outcome of evaluating a signing request against a policy */
+export type PolicyDecision = "approve" | "manual" | "reject";
+
+/** A rule matching unsigned events that an admin may be asked to sign */
+export interface SigningPolicyRule {
+  /** Event kinds the rule applies to (any kind if omitted) */
+  kinds?: number[];
+  /** Tags that must be present, with every value among the allowed ones */
+  tags?: Record<string, string[]>;
+  /** Decision when the rule matches */
+  decision: PolicyDecision;
+}
+
+/** Local rules deciding which signing requests an admin approves */
+export interface SigningPolicy {
+  /** Rules, evaluated in order (the first match wins) */
+  rules: SigningPolicyRule[];
+  /** Decision when no rule matches */
+  defaultDecision: PolicyDecision;
+}
+
+/** Configuration for a signing coordinator */
+export interface SigningCoordinatorConfig {
+  /** Relay connection used to exchange signing rounds */
+  transport: ProtocolTransport;
+  /** This admin's key package */
+  keyPackage: KeyPackage;
+  /** This admin's other shares of the same group key (weighted admins) */
+  additionalKeyPackages?: KeyPackage[];
+  /** Admin nostr pubkeys, ordered by share index (index 1 first) */
+  participants: Pubkey[];
+  /** This admin's nostr secret key (for signing protocol events) */
+  secretKey: Hex;
+  /** How long to wait for a signing session to complete (ms) */
+  timeoutMs?: number;
+  /** Rules deciding which requests from other admins we sign (all if omitted) */
+  policy?: SigningPolicy;
+  /** Tiers every signer set must meet, checked before a session starts */
+  quorumPolicy?: QuorumPolicy;
+  /** Asked to approve requests the policy marks for manual approval */
+  onApprovalRequest?: (request: SigningRequest, requester: Pubkey) => Promise<boolean> | boolean;
+  /** Called with the transcript of each session we signed and attested */
+  onTranscript?: (transcript: Transcript) => void;
+}
+
+// ============================================================================
+// Refresh Coordinator Types
+// ============================================================================
+
+/** Configuration for a share refresh coordinator */
+export interface RefreshCoordinatorConfig {
+  /** Relay connection used to exchange refresh messages */
+  transport: ProtocolTransport;
+  /** This admin's current key package */
+  keyPackage: KeyPackage;
+  /** Admin nostr pubkeys, ordered by share index (index 1 first) */
+  participants: Pubkey[];
+  /** This admin's nostr secret key (for signing and encrypting protocol events) */
+  secretKey: Hex;
+  /** How long to wait for a refresh session to complete (ms) */
+  timeoutMs?: number;
+  /** Called with the refreshed key package once all admins have confirmed */
+  onRefresh?: (keyPackage: KeyPackage) => void;
+  /**
+   * Asked to approve a threshold change requested by another admin.
+   * Threshold changes are declined when this is not set.
+   */
+  onThresholdChangeRequest?: (
+    newThreshold: number,
+    requester: Pubkey
+  ) => Promise<boolean> | boolean;
+}
+
+// ============================================================================
+// Threshold ECDH Types
+// ============================================================================
+
+/** An admin's share of the ECDH point between the group key and a peer */
+export interface ECDHShare {
+  /** Share index of the admin */
+  idx: number;
+  /** Nostr pubkey of the peer */
+  peerPubkey: Pubkey;
+  /** Key share times the peer's public key (33-byte hex, compressed) */
+  point: Hex;
+  /** DLEQ proof that the point uses the admin's key share */
+  proof: Hex;
+}
+
+/** Configuration for a threshold decryption coordinator */
+export interface DecryptionCoordinatorConfig {
+  /** Relay connection used to exchange ECDH shares */
+  transport: ProtocolTransport;
+  /** This admin's key package */
+  keyPackage: KeyPackage;
+  /** Admin nostr pubkeys, ordered by share index (index 1 first) */
+  participants: Pubkey[];
+  /** This admin's nostr secret key (for signing and encrypting protocol events) */
+  secretKey: Hex;
+  /** How long to wait for enough ECDH shares (ms) */
+  timeoutMs?: number;
+  /** Asked before sending an ECDH share to another admin (all approved if omitted) */
+  onDecryptionRequest?: (peerPubkey: Pubkey, requester: Pubkey) => Promise<boolean> | boolean;
+}
+
+// ============================================================================
+// Bunker Types
+// ============================================================================
+
+/** Event kind for NIP-46 remote signing requests and responses */
+export const BUNKER_EVENT_KIND = 24133;
+
+/** NIP-46 request from a client */
+export interface BunkerRequest {
+  id: string;
+  method: string;
+  params: string[];
+}
+
+/** NIP-46 response to a client */
+export interface BunkerResponse {
+  id: string;
+  result?: string;
+  error?: string;
+}
+
+/** Configuration for a NIP-46 bunker backed by the group's admins */
+export interface BunkerConfig {
+  /** Relay connection clients send their requests to */
+  transport: ProtocolTransport;
+  /** Signing coordinator of the admin running the bunker */
+  coordinator: SigningCoordinator;
+  /** Decryption coordinator for nip44_encrypt (unsupported if omitted) */
+  decryption?: DecryptionCoordinator;
+  /** The group public key (33-byte hex, compressed) */
+  groupPubkey: Hex;
+  /** The bunker's own nostr secret key, used to talk to clients */
+  secretKey: Hex;
+  /** Relays advertised in the bunker URI */
+  relays: string[];
+  /** One-time secret a new client presents in its connect request */
+  secret?: string;
+  /** Client pubkeys allowed without a connect secret */
+  authorizedClients?: Pubkey[];
+  /** Rules deciding which client requests are passed on to the admins (all if omitted) */
+  policy?: SigningPolicy;
+  /** Asked to approve requests the policy marks for manual approval */
+  onApprovalRequest?: (event: UnsignedEvent, client: Pubkey) => Promise<boolean> | boolean;
+}
@@ -0,0 +1,296 @@
+/**
+ * @nkg/signer - Encrypted key share vault
+ *
+ * Serializes key packages for storage and encrypts them at rest with a
+ * passphrase, using scrypt for key derivation and XChaCha20-Poly1305.
+ * The encrypted form is a bech32 "ncryptshare" string, modelled on the
+ * NIP-49 ncryptsec format, which can also be wrapped in an export file.
+ */
+
+import { Lib } from "@cmdcode/frost";
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { scrypt } from "@noble/hashes/scrypt";
+import { concatBytes, randomBytes, utf8ToBytes, bytesToUtf8 } from "@noble/hashes/utils";
+import { bech32 } from "@scure/base";
+
+import type {
+  AnySerializedKeyPackage,
+  KeyPackage,
+  KeyShareFile,
+  Pubkey,
+  SerializedKeyPackage,
+} from "./types.js";
+
+/** Bech32 prefix for encrypted key shares */
+export const NCRYPTSHARE_PREFIX = "ncryptshare";
+
+/** Current encrypted envelope version */
+const ENVELOPE_VERSION = 1;
+
+/** Default scrypt cost parameter (log2 of N) */
+const DEFAULT_LOG_N = 16;
+
+/** Key packages are larger than a nostr key, allow long bech32 strings */
+const BECH32_MAX_SIZE = 10000;
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/**
+ * Serialize a key package for storage
+ */
+export function serializeKeyPackage(
+  keyPackage: KeyPackage,
+  participants?: Pubkey[]
+): SerializedKeyPackage {
+  validateKeyPackage(keyPackage);
+
+  return {
+    version: 2,
+    data: keyPackage,
+    ...(participants && { participants }),
+    savedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Deserialize a stored key package, migrating older versions
+ */
+export function deserializeKeyPackage(input: string | unknown): SerializedKeyPackage {
+  const parsed = typeof input === "string" ? JSON.parse(input) : input;
+
+  if (!parsed || typeof parsed !== "object" || !("version" in parsed)) {
+    throw new Error("Invalid serialized key package");
+  }
+
+  const serialized = migrateSerializedKeyPackage(parsed as AnySerializedKeyPackage);
+  validateKeyPackage(serialized.data);
+
+  if (
+    serialized.participants &&
+    serialized.participants.length !== serialized.data.maxSigners
+  ) {
+    throw new Error("Number of participants must equal max signers");
+  }
+
+  return serialized;
+}
+
+/**
+ * Migrate a serialized key package to the current version
+ */
+export function migrateSerializedKeyPackage(
+  serialized: AnySerializedKeyPackage
+): SerializedKeyPackage {
+  switch (serialized.version) {
+    case 1:
+      // Version 1 had no metadata
+      return {
+        version: 2,
+        data: serialized.data,
+        savedAt: 0,
+      };
+    case 2:
+      return serialized;
+    default:
+      throw new Error(
+        `Unsupported key package version: ${(serialized as { version: unknown }).version}`
+      );
+  }
+}
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+/**
+ * Encrypt a serialized key package with a passphrase
+ *
+ * Returns an ncryptshare string: version, scrypt cost, salt, nonce and
+ * ciphertext, bech32-encoded.
+ */
+export function encryptKeyShare(
+  serialized: SerializedKeyPackage,
+  passphrase: string,
+  logN: number = DEFAULT_LOG_N
+): string {
+  if (!passphrase) {
+    throw new Error("Passphrase is required");
+  }
+
+  const payload = encryptWithPassphrase(JSON.stringify(serialized), passphrase, logN);
+  return bech32.encode(NCRYPTSHARE_PREFIX, bech32.toWords(payload), BECH32_MAX_SIZE);
+}
+
+/**
+ * Decrypt an ncryptshare string with a passphrase
+ */
+export function decryptKeyShare(
+  ncryptshare: string,
+  passphrase: string
+): SerializedKeyPackage {
+  const { prefix, words } = bech32.decode(
+    ncryptshare.trim() as `${string}1${string}`,
+    BECH32_MAX_SIZE
+  );
+  if (prefix !== NCRYPTSHARE_PREFIX) {
+    throw new Error(`Invalid prefix ${prefix}, expected '${NCRYPTSHARE_PREFIX}'`);
+  }
+
+  const payload = bech32.fromWords(words);
+  if (payload[0] !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported key share envelope version: ${payload[0]}`);
+  }
+
+  const plaintext = decryptWithPassphrase(
+    payload,
+    passphrase,
+    "Invalid passphrase or corrupted key share"
+  );
+
+  return deserializeKeyPackage(plaintext);
+}
+
+/**
+ * Encrypt a string with a passphrase
+ *
+ * Returns the raw envelope: version, scrypt cost, salt, nonce and ciphertext.
+ */
+export function encryptWithPassphrase(
+  plaintext: string,
+  passphrase: string,
+  logN: number = DEFAULT_LOG_N
+): Uint8Array {
+  const salt = randomBytes(16);
+  const nonce = randomBytes(24);
+  const header = Uint8Array.from([ENVELOPE_VERSION, logN]);
+  const key = deriveKey(passphrase, salt, logN);
+
+  const ciphertext = xchacha20poly1305(key, nonce, header).encrypt(utf8ToBytes(plaintext));
+
+  return concatBytes(header, salt, nonce, ciphertext);
+}
+
+/**
+ * Decrypt an envelope created by encryptWithPassphrase
+ */
+export function decryptWithPassphrase(
+  payload: Uint8Array,
+  passphrase: string,
+  errorMessage: string
+): string {
+  const version = payload[0];
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${version}`);
+  }
+
+  const logN = payload[1]!;
+  const header = payload.slice(0, 2);
+  const salt = payload.slice(2, 18);
+  const nonce = payload.slice(18, 42);
+  const ciphertext = payload.slice(42);
+  const key = deriveKey(passphrase, salt, logN);
+
+  try {
+    return bytesToUtf8(xchacha20poly1305(key, nonce, header).decrypt(ciphertext));
+  } catch {
+    throw new Error(errorMessage);
+  }
+}
+
+// ============================================================================
+// Export / Import
+// ============================================================================
+
+/**
+ * Wrap an ncryptshare string in an export file
+ */
+export function exportKeyShareFile(
+  ncryptshare: string,
+  keyPackage: KeyPackage
+): string {
+  const file: KeyShareFile = {
+    type: "nkg-key-share",
+    groupPubkey: keyPackage.groupPubkey,
+    idx: keyPackage.share.idx,
+    ncryptshare,
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read an ncryptshare string from an export file or a pasted string
+ */
+export function importKeyShare(input: string): string {
+  const trimmed = input.trim();
+
+  if (trimmed.startsWith(`${NCRYPTSHARE_PREFIX}1`)) {
+    return trimmed;
+  }
+
+  let file: Partial<KeyShareFile>;
+  try {
+    file = JSON.parse(trimmed);
+  } catch {
+    throw new Error("Not an ncryptshare string or key share file");
+  }
+
+  if (file.type !== "nkg-key-share" || typeof file.ncryptshare !== "string") {
+    throw new Error("Not an ncryptshare string or key share file");
+  }
+
+  return file.ncryptshare;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Derive the symmetric key from a passphrase
+ */
+function deriveKey(passphrase: string, salt: Uint8Array, logN: number): Uint8Array {
+  return scrypt(passphrase.normalize("NFKC"), salt, {
+    N: 2 ** logN,
+    r: 8,
+    p: 1,
+    dkLen: 32,
+  });
+}
+
+/**
+ * Check that a key package is well formed and its share matches its commitments
+ */
+export function validateKeyPackage(keyPackage: KeyPackage): void {
+  const { share, groupPubkey, vssCommitments, threshold, maxSigners } = keyPackage;
+
+  if (
+    !share ||
+    typeof share.idx !== "number" ||
+    !/^[0-9a-f]{64}$/i.test(share.seckey) ||
+    !/^[0-9a-f]{66}$/i.test(groupPubkey) ||
+    !Array.isArray(vssCommitments)
+  ) {
+    throw new Error("Invalid key package");
+  }
+
+  if (threshold < 1 || threshold > maxSigners) {
+    throw new Error("Invalid key package threshold");
+  }
+
+  if (share.idx < 1 || share.idx > maxSigners) {
+    throw new Error(`Invalid share index: ${share.idx}`);
+  }
+
+  if (vssCommitments.length !== threshold) {
+    throw new Error(
+      `Invalid VSS commitments length: expected ${threshold}, got ${vssCommitments.length}`
+    );
+  }
+
+  if (!Lib.verify_share(vssCommitments, share, threshold)) {
+    throw new Error("Key share does not match VSS commitments");
+  }
+}
@@ -0,0 +1,271 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  generateSecretKey,
+  getPublicKey,
+  matchFilters,
+  nip44,
+  verifyEvent,
+  type Event,
+  type Filter,
+} from "nostr-tools";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  createKeyGroupWithDealer,
+  createKeyPackageFromShare,
+  createBunkerRequestEvent,
+  parseBunkerEvent,
+  getGroupNostrPubkey,
+  FrostBunker,
+  DecryptionCoordinator,
+  SigningCoordinator,
+  BUNKER_EVENT_KIND,
+  type BunkerConfig,
+  type BunkerResponse,
+  type ProtocolTransport,
+} from "../src/index.js";
+
+/**
+ * In-memory relay shared by all coordinators in a test
+ */
+function createMemoryRelay() {
+  const events: Event[] = [];
+  const subscriptions = new Map<string, { filters: Filter[]; callback: (event: Event) => void }>();
+  let nextId = 0;
+
+  const transport = (): ProtocolTransport => ({
+    async publish(event) {
+      events.push(event);
+      for (const sub of Array.from(subscriptions.values())) {
+        if (matchFilters(sub.filters, event)) {
+          sub.callback(event);
+        }
+      }
+    },
+    subscribe(id, filters, callback) {
+      const key = `${id}-${nextId++}`;
+      subscriptions.set(key, { filters, callback });
+      return () => subscriptions.delete(key);
+    },
+  });
+
+  return { events, transport };
+}
+
+function setupBunker(
+  options: Pick<BunkerConfig, "policy" | "onApprovalRequest"> = {},
+  withDecryption = false
+) {
+  const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(2, 3);
+  const secretKeys = shares.map(() => bytesToHex(generateSecretKey()));
+  const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+  const relay = createMemoryRelay();
+
+  const coordinators = shares.map((share, i) => {
+    const coordinator = new SigningCoordinator({
+      transport: relay.transport(),
+      keyPackage: createKeyPackageFromShare(share, groupPubkey, vssCommitments, 2, 3),
+      participants,
+      secretKey: secretKeys[i]!,
+      timeoutMs: 1000,
+    });
+    coordinator.start();
+    return coordinator;
+  });
+
+  const decryption = shares.map((share, i) => {
+    const coordinator = new DecryptionCoordinator({
+      transport: relay.transport(),
+      keyPackage: createKeyPackageFromShare(share, groupPubkey, vssCommitments, 2, 3),
+      participants,
+      secretKey: secretKeys[i]!,
+      timeoutMs: 1000,
+    });
+    coordinator.start();
+    return coordinator;
+  });
+
+  const bunker = new FrostBunker({
+    transport: relay.transport(),
+    coordinator: coordinators[0]!,
+    ...(withDecryption && { decryption: decryption[0]! }),
+    groupPubkey,
+    secretKey: bytesToHex(generateSecretKey()),
+    relays: ["wss://relay.example.com"],
+    secret: "s3cret",
+    ...options,
+  });
+  bunker.start();
+
+  // A NIP-46 client sending requests to the bunker
+  const clientKey = bytesToHex(generateSecretKey());
+  const clientTransport = relay.transport();
+  let nextRequest = 0;
+
+  const send = (method: string, params: string[] = []): Promise<BunkerResponse> => {
+    const id = `request-${nextRequest++}`;
+
+    return new Promise((resolve) => {
+      const unsubscribe = clientTransport.subscribe(
+        "client",
+        [{ kinds: [BUNKER_EVENT_KIND], "#p": [getPublicKey(hexToBytes(clientKey))] }],
+        (event) => {
+          const response = parseBunkerEvent<BunkerResponse>(event, clientKey);
+          if (response.id !== id) return;
+
+          unsubscribe();
+          resolve(response);
+        }
+      );
+
+      clientTransport.publish(
+        createBunkerRequestEvent({ id, method, params }, bunker.getPubkey(), clientKey)
+      );
+    });
+  };
+
+  const stop = () => {
+    bunker.stop();
+    coordinators.forEach((c) => c.stop());
+    decryption.forEach((c) => c.stop());
+  };
+
+  return { groupPubkey, relay, bunker, send, stop };
+}
+
+const note = (kind = 1) =>
+  JSON.stringify({
+    kind,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [],
+    content: "posted through the bunker",
+  });
+
+describe("FrostBunker", () => {
+  it("should sign events for a connected client with the admin quorum", async () => {
+    const { groupPubkey, relay, bunker, send, stop } = setupBunker();
+
+    expect(bunker.getBunkerUri()).toBe(
+      `bunker://${bunker.getPubkey()}?relay=wss%3A%2F%2Frelay.example.com&secret=s3cret`
+    );
+
+    expect(await send("get_public_key")).toMatchObject({ error: "Unauthorized client" });
+    expect(await send("connect", [bunker.getPubkey(), "wrong"])).toMatchObject({
+      error: "Invalid connect secret",
+    });
+    expect(await send("connect", [bunker.getPubkey(), "s3cret"])).toMatchObject({
+      result: "ack",
+    });
+    expect(await send("get_public_key")).toMatchObject({
+      result: getGroupNostrPubkey(groupPubkey),
+    });
+
+    const response = await send("sign_event", [note()]);
+    const signed = JSON.parse(response.result!) as Event;
+
+    expect(signed.pubkey).toBe(getGroupNostrPubkey(groupPubkey));
+    expect(signed.content).toBe("posted through the bunker");
+    expect(verifyEvent(signed)).toBe(true);
+
+    // Requests and responses never travel in the clear
+    for (const event of relay.events.filter((e) => e.kind === BUNKER_EVENT_KIND)) {
+      expect(event.content).not.toContain("bunker");
+    }
+
+    expect(await send("nip44_encrypt", ["aa".repeat(32), "hi"])).toMatchObject({
+      error: "nip44_encrypt is not supported: the group key has no single holder",
+    });
+
+    stop();
+  });
+
+  it("should apply the bunker's signing policy before asking the admins", async () => {
+    const approvals: number[] = [];
+    const { relay, bunker, send, stop } = setupBunker({
+      policy: {
+        rules: [
+          { kinds: [0], decision: "reject" },
+          { kinds: [1], decision: "manual" },
+        ],
+        defaultDecision: "approve",
+      },
+      onApprovalRequest: (event) => {
+        approvals.push(event.kind);
+        return false;
+      },
+    });
+
+    await send("connect", [bunker.getPubkey(), "s3cret"]);
+
+    expect(await send("sign_event", [note(0)])).toMatchObject({
+      error: "Rejected by signing policy",
+    });
+    expect(await send("sign_event", [note(1)])).toMatchObject({ error: "Rejected by admin" });
+    expect(approvals).toEqual([1]);
+
+    // No signing session was opened for rejected requests
+    expect(relay.events.filter((e) => e.kind !== BUNKER_EVENT_KIND)).toHaveLength(0);
+
+    stop();
+  });
+
+  it("should encrypt for the group key with threshold ECDH but not decrypt", async () => {
+    const { groupPubkey, bunker, send, stop } = setupBunker({}, true);
+    await send("connect", [bunker.getPubkey(), "s3cret"]);
+
+    const peerKey = generateSecretKey();
+    const peer = getPublicKey(peerKey);
+    const conversationKey = nip44.v2.utils.getConversationKey(
+      peerKey,
+      getGroupNostrPubkey(groupPubkey)
+    );
+
+    const encrypted = await send("nip44_encrypt", [peer, "thanks"]);
+    expect(nip44.v2.decrypt(encrypted.result!, conversationKey)).toBe("thanks");
+
+    // Decrypting would let any connected client read messages to the group
+    const decrypted = await send("nip44_decrypt", [
+      peer,
+      nip44.v2.encrypt("report: spam", conversationKey),
+    ]);
+    expect(decrypted).toMatchObject({ error: "Unsupported method: nip44_decrypt" });
+    expect(decrypted.result).toBeUndefined();
+
+    stop();
+  });
+
+  it("should only remember recent requests of authorized clients", async () => {
+    const { relay, bunker, send, stop } = setupBunker();
+    const requests = () =>
+      relay.events.filter((e) => e.kind === BUNKER_EVENT_KIND && e.pubkey !== bunker.getPubkey());
+    const responses = () =>
+      relay.events.filter((e) => e.kind === BUNKER_EVENT_KIND && e.pubkey === bunker.getPubkey());
+    const replay = async (event: Event) => {
+      const before = responses().length;
+      bunker.handleEvent(event);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return responses().length - before;
+    };
+
+    // A request from an unknown client is answered but not recorded
+    await send("ping");
+    const unauthorized = requests().at(-1)!;
+    expect(await replay(unauthorized)).toBe(1);
+
+    await send("connect", [bunker.getPubkey(), "s3cret"]);
+    await send("ping");
+    const authorized = requests().at(-1)!;
+    expect(await replay(authorized)).toBe(0);
+
+    // Requests older than ten minutes are ignored once forgotten
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+      expect(await replay(unauthorized)).toBe(0);
+      expect(await replay(authorized)).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    stop();
+  });
+});
@@ -0,0 +1,485 @@
+import { describe, it, expect } from "vitest";
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  matchFilters,
+  verifyEvent,
+  type Event,
+  type Filter,
+} from "nostr-tools";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  createKeyGroupWithDealer,
+  createKeyPackageFromShare,
+  getGroupNostrPubkey,
+  getEventSigners,
+  getTranscriptAttesters,
+  SigningCoordinator,
+  SIGNING_EVENT_KINDS,
+  type ProtocolTransport,
+  type QuorumPolicy,
+  type SigningCoordinatorConfig,
+  type SigningPolicy,
+  type Transcript,
+} from "../src/index.js";
+
+/**
+ * In-memory relay shared by all coordinators in a test
+ */
+function createMemoryRelay() {
+  const events: Event[] = [];
+  const subscriptions = new Map<string, { filters: Filter[]; callback: (event: Event) => void }>();
+  let nextId = 0;
+
+  const transport = (): ProtocolTransport => ({
+    async publish(event) {
+      events.push(event);
+      for (const sub of Array.from(subscriptions.values())) {
+        if (matchFilters(sub.filters, event)) {
+          sub.callback(event);
+        }
+      }
+    },
+    subscribe(id, filters, callback) {
+      const key = `${id}-${nextId++}`;
+      subscriptions.set(key, { filters, callback });
+      return () => subscriptions.delete(key);
+    },
+  });
+
+  return { events, transport };
+}
+
+function setupGroup(
+  threshold: number,
+  maxSigners: number,
+  wrap: (transport: ProtocolTransport, i: number) => ProtocolTransport = (t) => t,
+  options: Pick<
+    SigningCoordinatorConfig,
+    "policy" | "onApprovalRequest" | "onTranscript" | "quorumPolicy"
+  > = {}
+) {
+  const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(threshold, maxSigners);
+  const secretKeys = shares.map(() => bytesToHex(generateSecretKey()));
+  const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+  const relay = createMemoryRelay();
+
+  const coordinators = shares.map((share, i) => {
+    const coordinator = new SigningCoordinator({
+      transport: wrap(relay.transport(), i),
+      keyPackage: createKeyPackageFromShare(share, groupPubkey, vssCommitments, threshold, maxSigners),
+      participants,
+      secretKey: secretKeys[i]!,
+      timeoutMs: 1000,
+      ...options,
+    });
+    coordinator.start();
+    return coordinator;
+  });
+
+  return { groupPubkey, participants, relay, coordinators };
+}
+
+describe("SigningCoordinator", () => {
+  it("should sign a nostr event with 2-of-3 admins over a relay", async () => {
+    const { groupPubkey, coordinators } = setupGroup(2, 3);
+
+    const signed = await coordinators[0]!.sign({
+      kind: 1,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [],
+      content: "hello from the group",
+    });
+
+    expect(signed.pubkey).toBe(getGroupNostrPubkey(groupPubkey));
+    expect(verifyEvent(signed)).toBe(true);
+
+    for (const coordinator of coordinators) {
+      expect(coordinator.getActiveSessionIds()).toHaveLength(0);
+      coordinator.stop();
+    }
+  });
+
+  it("should sign with an explicit 3-of-5 signer set", async () => {
+    const { coordinators, relay } = setupGroup(3, 5);
+
+    const signed = await coordinators[4]!.sign(
+      {
+        kind: 29000,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [["capability", "write"]],
+        content: "",
+      },
+      [2, 4, 5]
+    );
+
+    expect(verifyEvent(signed)).toBe(true);
+
+    // Only the selected signers committed nonces
+    const nonceIndices = relay.events
+      .filter((e) => e.kind === 28011)
+      .map((e) => e.tags.find((t) => t[0] === "idx")?.[1]);
+    expect(nonceIndices.sort()).toEqual(["2", "4", "5"]);
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should time out when a signer does not respond", async () => {
+    const { coordinators } = setupGroup(2, 3);
+    coordinators[1]!.stop();
+
+    await expect(
+      coordinators[0]!.sign(
+        { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+        [1, 2]
+      )
+    ).rejects.toThrow("timed out");
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should reject events whose pubkey is not the group key", async () => {
+    const { coordinators } = setupGroup(2, 3);
+
+    await expect(
+      coordinators[0]!.sign({
+        kind: 1,
+        pubkey: "ab".repeat(32),
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [],
+        content: "",
+      })
+    ).rejects.toThrow("does not match the group pubkey");
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should ignore malformed round events from outsiders", async () => {
+    const outsider = generateSecretKey();
+    const { participants, coordinators } = setupGroup(2, 3, (transport, i) =>
+      i !== 0
+        ? transport
+        : {
+            ...transport,
+            // Inject junk for every session the first admin opens
+            async publish(event) {
+              await transport.publish(event);
+              if (event.kind !== SIGNING_EVENT_KINDS.SESSION_INIT) return;
+
+              const session = event.tags.find((t) => t[0] === "session")!;
+              const kinds = [SIGNING_EVENT_KINDS.NONCE_COMMITMENT, SIGNING_EVENT_KINDS.PARTIAL_SIGNATURE];
+              for (const kind of kinds) {
+                await transport.publish(
+                  finalizeEvent(
+                    {
+                      kind,
+                      created_at: Math.floor(Date.now() / 1000),
+                      tags: [session, ["idx", "2"], ...participants.map((p) => ["p", p])],
+                      content: "not json",
+                    },
+                    outsider
+                  )
+                );
+              }
+            },
+          }
+    );
+
+    const signed = await coordinators[0]!.sign(
+      { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+      [1, 2]
+    );
+    expect(verifyEvent(signed)).toBe(true);
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should sign with every share of a weighted admin", async () => {
+    const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(3, 4);
+    const keyPackages = shares.map((share) =>
+      createKeyPackageFromShare(share, groupPubkey, vssCommitments, 3, 4)
+    );
+    const secretKeys = [0, 1, 2].map(() => bytesToHex(generateSecretKey()));
+    const [alice, bob, carol] = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+    const participants = [alice!, alice!, bob!, carol!];
+    const relay = createMemoryRelay();
+
+    const coordinators = [
+      { keyPackage: keyPackages[0]!, additionalKeyPackages: [keyPackages[1]!] },
+      { keyPackage: keyPackages[2]! },
+      { keyPackage: keyPackages[3]! },
+    ].map((shares, i) => {
+      const coordinator = new SigningCoordinator({
+        transport: relay.transport(),
+        ...shares,
+        participants,
+        secretKey: secretKeys[i]!,
+        timeoutMs: 1000,
+      });
+      coordinator.start();
+      return coordinator;
+    });
+
+    // Bob requests: the weight-2 admin contributes two partial signatures
+    const signed = await coordinators[1]!.sign(
+      { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: "weighted" },
+      [1, 2, 3]
+    );
+    expect(verifyEvent(signed)).toBe(true);
+
+    const partials = relay.events.filter(
+      (e) => e.kind === SIGNING_EVENT_KINDS.PARTIAL_SIGNATURE && e.pubkey === alice
+    );
+    expect(partials.map((e) => e.tags.find((t) => t[0] === "idx")?.[1]).sort()).toEqual([
+      "1",
+      "2",
+    ]);
+
+    // The weighted admin requests with both of its shares and one other admin
+    const own = await coordinators[0]!.sign({
+      kind: 1,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [],
+      content: "weighted request",
+    });
+    expect(verifyEvent(own)).toBe(true);
+
+    expect(
+      () =>
+        new SigningCoordinator({
+          transport: relay.transport(),
+          keyPackage: keyPackages[0]!,
+          additionalKeyPackages: [keyPackages[2]!],
+          participants,
+          secretKey: secretKeys[0]!,
+        })
+    ).toThrow("does not match this participant's index");
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should sign in a single round with preprocessed nonces", async () => {
+    const { coordinators, relay } = setupGroup(2, 3);
+    const note = (content: string) => ({
+      kind: 1,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [],
+      content,
+    });
+    const count = (kind: number) => relay.events.filter((e) => e.kind === kind).length;
+
+    for (const coordinator of coordinators) {
+      await coordinator.publishNonces(1);
+    }
+
+    // Admins 1 and 2 each have one nonce: the first session skips the nonce round
+    const first = await coordinators[0]!.sign(note("preprocessed"), [1, 2]);
+    expect(verifyEvent(first)).toBe(true);
+    expect(count(SIGNING_EVENT_KINDS.NONCE_COMMITMENT)).toBe(0);
+
+    const request = relay.events.find((e) => e.kind === SIGNING_EVENT_KINDS.SESSION_INIT)!;
+    const assigned = request.tags.filter((t) => t[0] === "nonce").map((t) => t[2]);
+    expect(assigned.sort()).toEqual(["1", "2"]);
+
+    // Used nonces are never assigned again, by the requester or another admin
+    const second = await coordinators[1]!.sign(note("fallback"), [1, 2]);
+    expect(verifyEvent(second)).toBe(true);
+    expect(count(SIGNING_EVENT_KINDS.NONCE_COMMITMENT)).toBe(2);
+
+    // A replayed request cannot make a signer use its nonce twice
+    coordinators[1]!.handleEvent(request);
+    expect(coordinators[1]!.getActiveSessionIds()).toHaveLength(0);
+    expect(count(SIGNING_EVENT_KINDS.PARTIAL_SIGNATURE)).toBe(2);
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  describe("signRobust", () => {
+    it("should sign with the first threshold admins to respond", async () => {
+      const { coordinators, relay } = setupGroup(3, 5);
+      coordinators[1]!.stop();
+      coordinators[3]!.stop();
+
+      const { event, stalled } = await coordinators[0]!.signRobust({
+        kind: 1,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [],
+        content: "robust",
+      });
+
+      expect(verifyEvent(event)).toBe(true);
+      expect(stalled).toEqual([]);
+
+      const selection = relay.events.find((e) => e.kind === 28014)!;
+      expect(selection.tags.find((t) => t[0] === "signers")!.slice(1)).toEqual(["1", "3", "5"]);
+
+      coordinators.forEach((c) => c.stop());
+    });
+
+    it("should restart without an admin that stalls after committing a nonce", async () => {
+      // Admin 2 commits nonces but never delivers its partial signatures
+      const { coordinators } = setupGroup(3, 5, (transport, i) =>
+        i !== 1
+          ? transport
+          : {
+              ...transport,
+              async publish(event) {
+                if (event.kind !== 28012) {
+                  return transport.publish(event);
+                }
+              },
+            }
+      );
+
+      const { event, stalled } = await coordinators[0]!.signRobust(
+        { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+        { attemptTimeoutMs: 200 }
+      );
+
+      expect(verifyEvent(event)).toBe(true);
+      expect(stalled).toEqual([2]);
+
+      coordinators.forEach((c) => c.stop());
+    });
+
+    it("should report stalled admins when too few remain", async () => {
+      const { coordinators } = setupGroup(2, 3);
+      coordinators[1]!.stop();
+      coordinators[2]!.stop();
+
+      await expect(
+        coordinators[0]!.signRobust(
+          { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+          { attemptTimeoutMs: 200 }
+        )
+      ).rejects.toThrow("Signing failed, stalled signers: 2, 3");
+
+      coordinators.forEach((c) => c.stop());
+    });
+  });
+
+  describe("Signing policy", () => {
+    const policy: SigningPolicy = {
+      rules: [
+        { kinds: [1], decision: "approve" },
+        { kinds: [29000], decision: "manual" },
+      ],
+      defaultDecision: "reject",
+    };
+
+    it("should ask for manual approval with the full unsigned event", async () => {
+      const prompts: number[] = [];
+      const { groupPubkey, coordinators } = setupGroup(2, 3, undefined, {
+        policy,
+        onApprovalRequest: async (request) => {
+          prompts.push(request.event.kind);
+          expect(request.event.pubkey).toBe(getGroupNostrPubkey(groupPubkey));
+          return true;
+        },
+      });
+
+      const signed = await coordinators[0]!.sign({
+        kind: 29000,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [["capability", "delete"]],
+        content: "",
+      });
+
+      expect(verifyEvent(signed)).toBe(true);
+      expect(prompts).toEqual([29000]);
+
+      coordinators.forEach((c) => c.stop());
+    });
+
+    it("should not sign requests that are declined or rejected", async () => {
+      const { coordinators, relay } = setupGroup(2, 3, undefined, {
+        policy,
+        onApprovalRequest: () => false,
+      });
+
+      await expect(
+        coordinators[0]!.sign(
+          { kind: 29000, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+          [1, 2]
+        )
+      ).rejects.toThrow("timed out");
+
+      await expect(
+        coordinators[0]!.sign(
+          { kind: 39000, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+          [1, 3]
+        )
+      ).rejects.toThrow("timed out");
+
+      // Nobody but the requester committed a nonce
+      const nonceIndices = relay.events
+        .filter((e) => e.kind === 28011)
+        .map((e) => e.tags.find((t) => t[0] === "idx")?.[1]);
+      expect(nonceIndices).toEqual(["1", "1"]);
+
+      coordinators.forEach((c) => c.stop());
+    });
+  });
+
+  describe("Quorum policy", () => {
+    it("should only sign with signer sets that include the core team", async () => {
+      const quorumPolicy: QuorumPolicy = { tiers: [] };
+      const { participants, relay, coordinators } = setupGroup(2, 4, undefined, { quorumPolicy });
+
+      // Admins 3 and 4 are the core team; one of them must sign
+      const core = participants.slice(2);
+      quorumPolicy.tiers.push({ name: "core team", members: core, minimum: 1 });
+
+      const template = {
+        kind: 1,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [],
+        content: "approved by the core team",
+      };
+
+      await expect(coordinators[0]!.sign(template, [1, 2])).rejects.toThrow(
+        "Signer set does not meet the quorum policy: core team"
+      );
+      expect(relay.events).toHaveLength(0);
+
+      // The default signer set picks a core team member
+      const signed = await coordinators[0]!.sign(template);
+      expect(verifyEvent(signed)).toBe(true);
+
+      const signers = relay.events
+        .filter((e) => e.kind === SIGNING_EVENT_KINDS.PARTIAL_SIGNATURE)
+        .map((e) => e.pubkey);
+      expect(signers).toEqual([core[0]]);
+
+      coordinators.forEach((c) => c.stop());
+    });
+  });
+
+  describe("Transcripts", () => {
+    it("should publish a transcript attested by every signer", async () => {
+      const transcripts: Transcript[] = [];
+      const { participants, relay, coordinators } = setupGroup(2, 3, undefined, {
+        onTranscript: (transcript) => transcripts.push(transcript),
+      });
+
+      const signed = await coordinators[2]!.sign(
+        { kind: 29000, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+        [2, 3]
+      );
+
+      // The requester and the other signer each attested once
+      expect(transcripts).toHaveLength(2);
+      const transcript = transcripts[0]!;
+
+      const attestations = relay.events.filter((e) => e.kind === 28030);
+      expect(getTranscriptAttesters(transcript, attestations)).toEqual([
+        participants[1],
+        participants[2],
+      ]);
+      expect(getEventSigners(transcript, signed)).toEqual([participants[1], participants[2]]);
+
+      coordinators.forEach((c) => c.stop());
+    });
+  });
+});
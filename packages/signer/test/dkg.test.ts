@@ -0,0 +1,381 @@
+import { describe, it, expect } from "vitest";
+import { generateSecretKey, getPublicKey, nip44 } from "nostr-tools";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  createDKGSession,
+  generateSessionId,
+  generateRound1Package,
+  processRound1Package,
+  generateRound2Packages,
+  processRound2Package,
+  processComplaint,
+  generateJustification,
+  processJustification,
+  resolveComplaints,
+  getQualifiedParticipants,
+  finalizeDKG,
+  expandWeightedParticipants,
+  getParticipantIndices,
+  createWeightedDKGSessions,
+  checkQuorum,
+  signWithShares,
+  verifySignature,
+  type DKGRound2Package,
+  type DKGSession,
+} from "../src/index.js";
+
+/**
+ * Run Round 1 for all participants and generate their Round 2 packages
+ */
+function setupDKG(threshold: number, maxSigners: number) {
+  const sessionId = generateSessionId();
+  const secretKeys = Array.from({ length: maxSigners }, () => bytesToHex(generateSecretKey()));
+  const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+
+  let sessions = secretKeys.map((mySecretKey, i) =>
+    createDKGSession({
+      sessionId,
+      threshold,
+      maxSigners,
+      participants,
+      myIndex: i + 1,
+      mySecretKey,
+    })
+  );
+
+  const round1 = sessions.map((session, i) => {
+    const result = generateRound1Package(session);
+    sessions[i] = result.session;
+    return result.package;
+  });
+
+  sessions = sessions.map((session) =>
+    round1.reduce(
+      (s, pkg) => (pkg.idx === s.config.myIndex ? s : processRound1Package(s, pkg)),
+      session
+    )
+  );
+
+  const round2: DKGRound2Package[] = [];
+  sessions = sessions.map((session) => {
+    const result = generateRound2Packages(session);
+    round2.push(...result.packages);
+    return result.session;
+  });
+
+  return { sessions, round2, secretKeys, participants };
+}
+
+/**
+ * Deliver Round 2 packages to their recipients
+ */
+function deliverRound2(sessions: DKGSession[], round2: DKGRound2Package[]): DKGSession[] {
+  return sessions.map((session) =>
+    round2
+      .filter((pkg) => pkg.toIdx === session.config.myIndex)
+      .reduce((s, pkg) => processRound2Package(s, pkg), session)
+  );
+}
+
+/**
+ * Replace the share sent from one participant to another with a random one
+ */
+function corruptShare(
+  round2: DKGRound2Package[],
+  fromIdx: number,
+  toIdx: number,
+  secretKeys: string[],
+  participants: string[]
+): DKGRound2Package[] {
+  const conversationKey = nip44.v2.utils.getConversationKey(
+    hexToBytes(secretKeys[fromIdx - 1]!),
+    participants[toIdx - 1]!
+  );
+
+  return round2.map((pkg) =>
+    pkg.fromIdx === fromIdx && pkg.toIdx === toIdx
+      ? { ...pkg, encryptedShare: nip44.v2.encrypt(bytesToHex(generateSecretKey()), conversationKey) }
+      : pkg
+  );
+}
+
+function signAndVerify(sessions: DKGSession[], indices: number[], threshold: number): boolean {
+  const keyPackages = indices.map((idx) => finalizeDKG(sessions[idx - 1]!).keyPackage);
+  const groupPubkey = keyPackages[0]!.groupPubkey;
+  const message = "aabbccdd".repeat(8);
+  const signature = signWithShares(
+    keyPackages.map((pkg) => ({ share: pkg.share, groupPubkey })),
+    message,
+    threshold
+  );
+
+  return verifySignature(groupPubkey, message, signature);
+}
+
+describe("Distributed Key Generation", () => {
+  it("should complete a 3-of-5 DKG and sign with any 3 shares", () => {
+    const { sessions, round2 } = setupDKG(3, 5);
+    const completed = deliverRound2(sessions, round2);
+
+    const groupPubkeys = completed.map((session) => {
+      expect(session.state).toBe("round2_complete");
+      return finalizeDKG(session).keyPackage.groupPubkey;
+    });
+
+    expect(new Set(groupPubkeys).size).toBe(1);
+    expect(signAndVerify(completed, [1, 3, 5], 3)).toBe(true);
+  });
+
+  describe("Proof of knowledge", () => {
+    function setupRound1() {
+      const sessionId = generateSessionId();
+      const secretKeys = [1, 2, 3].map(() => bytesToHex(generateSecretKey()));
+      const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+      const sessions = secretKeys.map((mySecretKey, i) =>
+        createDKGSession({ sessionId, threshold: 2, maxSigners: 3, participants, myIndex: i + 1, mySecretKey })
+      );
+
+      return { sessionId, sessions, participants, secretKeys };
+    }
+
+    it("should include a proof of knowledge in Round 1 packages", () => {
+      const { sessions } = setupRound1();
+      const { package: pkg } = generateRound1Package(sessions[0]!);
+
+      expect(pkg.proofOfKnowledge).toMatch(/^[0-9a-f]{130}$/);
+      expect(() => processRound1Package(sessions[1]!, pkg)).not.toThrow();
+    });
+
+    it("should reject a Round 1 package without a proof", () => {
+      const { sessions } = setupRound1();
+      const { package: pkg } = generateRound1Package(sessions[0]!);
+      const { proofOfKnowledge: _, ...withoutProof } = pkg;
+
+      expect(() =>
+        processRound1Package(sessions[1]!, withoutProof as typeof pkg)
+      ).toThrow("Missing proof of knowledge from participant 1");
+    });
+
+    it("should reject a proof for different commitments", () => {
+      const { sessions } = setupRound1();
+      const { package: pkg1 } = generateRound1Package(sessions[0]!);
+      const { package: pkg2 } = generateRound1Package(sessions[1]!);
+
+      // A rogue key built from someone else's commitment cannot reuse their proof
+      const rogue = { ...pkg1, vssCommitments: [pkg2.vssCommitments[0]!, pkg1.vssCommitments[1]!] };
+
+      expect(() => processRound1Package(sessions[2]!, rogue)).toThrow(
+        "Invalid proof of knowledge from participant 1"
+      );
+    });
+
+    it("should bind the proof to the participant index, pubkey and session", () => {
+      const { sessionId, sessions, participants, secretKeys } = setupRound1();
+      const { package: pkg } = generateRound1Package(sessions[0]!);
+
+      // Replayed under another participant's index
+      expect(() => processRound1Package(sessions[2]!, { ...pkg, idx: 2 })).toThrow(
+        "Invalid proof of knowledge from participant 2"
+      );
+
+      // Replayed in another session
+      const other = createDKGSession({
+        sessionId: generateSessionId(),
+        threshold: 2,
+        maxSigners: 3,
+        participants,
+        myIndex: 3,
+        mySecretKey: secretKeys[2]!,
+      });
+      expect(() => processRound1Package(other, pkg)).toThrow(
+        "Invalid proof of knowledge from participant 1"
+      );
+
+      // Replayed for another nostr pubkey in the same session
+      const impostor = createDKGSession({
+        sessionId,
+        threshold: 2,
+        maxSigners: 3,
+        participants: [getPublicKey(generateSecretKey()), participants[1]!, participants[2]!],
+        myIndex: 3,
+        mySecretKey: secretKeys[2]!,
+      });
+      expect(() => processRound1Package(impostor, pkg)).toThrow(
+        "Invalid proof of knowledge from participant 1"
+      );
+    });
+  });
+
+  describe("Complaint round", () => {
+    it("should disqualify a participant who sends an invalid share", () => {
+      const { sessions, round2, secretKeys, participants } = setupDKG(3, 5);
+      let updated = deliverRound2(sessions, corruptShare(round2, 2, 4, secretKeys, participants));
+
+      // The victim records a complaint instead of failing
+      const victim = updated[3]!;
+      expect(victim.state).toBe("complaints");
+      expect(victim.complaints).toHaveLength(1);
+
+      const complaint = victim.complaints[0]!;
+      expect(complaint).toMatchObject({ complainerIdx: 4, accusedIdx: 2 });
+
+      // Peers check the disputed share and wait for a justification
+      updated = updated.map((s, i) => (i === 3 ? s : processComplaint(s, complaint)));
+      for (const session of updated) {
+        expect(session.state).toBe("complaints");
+      }
+
+      // The accused stays silent until the deadline
+      updated = updated.map((s) => resolveComplaints(s));
+
+      const honest = [1, 3, 4, 5];
+      const groupPubkeys = honest.map((idx) => {
+        const session = updated[idx - 1]!;
+        expect(session.state).toBe("round2_complete");
+        expect(getQualifiedParticipants(session)).toEqual(honest);
+        return finalizeDKG(session).keyPackage.groupPubkey;
+      });
+
+      expect(new Set(groupPubkeys).size).toBe(1);
+      expect(signAndVerify(updated, [1, 4, 5], 3)).toBe(true);
+    });
+
+    it("should dismiss a complaint when the accused reveals a valid share", () => {
+      const { sessions, round2, secretKeys, participants } = setupDKG(2, 3);
+      let updated = deliverRound2(sessions, corruptShare(round2, 1, 3, secretKeys, participants));
+
+      const complaint = updated[2]!.complaints[0]!;
+      updated = updated.map((s, i) => (i === 2 ? s : processComplaint(s, complaint)));
+
+      const justification = generateJustification(updated[0]!, complaint);
+      updated = updated.map((s) => processJustification(s, justification));
+
+      for (const session of updated) {
+        expect(session.state).toBe("round2_complete");
+        expect(session.disqualified).toEqual([]);
+      }
+
+      expect(signAndVerify(updated, [2, 3], 2)).toBe(true);
+    });
+
+    it("should disqualify a complainer who publishes a valid share", () => {
+      const { sessions, round2 } = setupDKG(2, 3);
+      let updated = deliverRound2(sessions, round2);
+
+      // Participant 3 falsely accuses participant 1, revealing the real share
+      const share = updated[2]!.round2Packages.get(1)!.encryptedShare;
+      const complaint = { complainerIdx: 3, accusedIdx: 1, share };
+
+      updated = updated.map((s, i) => (i === 2 ? s : processComplaint(s, complaint)));
+
+      for (const session of updated.slice(0, 2)) {
+        expect(session.disqualified).toEqual([3]);
+        expect(session.state).toBe("round2_complete");
+      }
+
+      // The complainer checks its own complaint too and cannot finalize
+      const complainer = processComplaint(updated[2]!, complaint);
+      expect(complainer.disqualified).toEqual([3]);
+      expect(() => finalizeDKG(complainer)).toThrow("Participant 3 was disqualified from the DKG");
+
+      expect(signAndVerify(updated, [1, 2], 2)).toBe(true);
+    });
+
+    it("should fail when fewer than threshold participants remain qualified", () => {
+      const { sessions, round2, secretKeys, participants } = setupDKG(3, 3);
+      let updated = deliverRound2(sessions, corruptShare(round2, 2, 1, secretKeys, participants));
+
+      const complaint = updated[0]!.complaints[0]!;
+      updated = updated.map((s, i) => (i === 0 ? s : processComplaint(s, complaint)));
+      updated = updated.map((s) => resolveComplaints(s));
+
+      for (const session of updated) {
+        expect(session.state).toBe("failed");
+      }
+      expect(() => finalizeDKG(updated[0]!)).toThrow("Invalid state for finalization");
+    });
+  });
+
+  describe("Weighted shares", () => {
+    it("should give a weighted participant several share indices", () => {
+      const sessionId = generateSessionId();
+      const [founder, mod1, mod2] = Array.from({ length: 3 }, () =>
+        bytesToHex(generateSecretKey())
+      );
+      const pubkeys = [founder!, mod1!, mod2!].map((sk) => getPublicKey(hexToBytes(sk)));
+
+      const participants = expandWeightedParticipants([
+        { pubkey: pubkeys[0]!, weight: 2 },
+        { pubkey: pubkeys[1]!, weight: 1 },
+        { pubkey: pubkeys[2]!, weight: 1 },
+      ]);
+      expect(participants).toHaveLength(4);
+      expect(getParticipantIndices(participants, pubkeys[0]!)).toEqual([1, 2]);
+      expect(getParticipantIndices(participants, pubkeys[2]!)).toEqual([4]);
+
+      let sessions = [founder!, mod1!, mod2!].flatMap((mySecretKey) =>
+        createWeightedDKGSessions({
+          sessionId,
+          threshold: 3,
+          maxSigners: participants.length,
+          participants,
+          mySecretKey,
+        })
+      );
+      expect(sessions.map((s) => s.config.myIndex)).toEqual([1, 2, 3, 4]);
+
+      // The founder's two sessions exchange packages like any others
+      const round1 = sessions.map((session, i) => {
+        const result = generateRound1Package(session);
+        sessions[i] = result.session;
+        return result.package;
+      });
+      sessions = sessions.map((session) =>
+        round1.reduce(
+          (s, pkg) => (pkg.idx === s.config.myIndex ? s : processRound1Package(s, pkg)),
+          session
+        )
+      );
+
+      const round2: DKGRound2Package[] = [];
+      sessions = sessions.map((session) => {
+        const result = generateRound2Packages(session);
+        round2.push(...result.packages);
+        return result.session;
+      });
+      const completed = deliverRound2(sessions, round2);
+
+      // The founder and one moderator reach the threshold of 3 votes
+      expect(signAndVerify(completed, [1, 2, 3], 3)).toBe(true);
+      expect(checkQuorum(undefined, 3, participants, [1, 2, 3]).satisfied).toBe(true);
+
+      // The two moderators alone only have 2 votes
+      expect(checkQuorum(undefined, 3, participants, [3, 4])).toEqual({
+        satisfied: false,
+        weight: 2,
+        unmetTiers: [],
+      });
+    });
+
+    it("should reject invalid weights", () => {
+      expect(() => expandWeightedParticipants([{ pubkey: "aa".repeat(32), weight: 0 }])).toThrow(
+        "Invalid weight"
+      );
+      expect(() =>
+        expandWeightedParticipants([
+          { pubkey: "aa".repeat(32), weight: 1 },
+          { pubkey: "aa".repeat(32), weight: 2 },
+        ])
+      ).toThrow("Duplicate weighted participants");
+      expect(() =>
+        createWeightedDKGSessions({
+          sessionId: generateSessionId(),
+          threshold: 2,
+          maxSigners: 2,
+          participants: ["aa".repeat(32), "bb".repeat(32)],
+          mySecretKey: bytesToHex(generateSecretKey()),
+        })
+      ).toThrow("Secret key is not a DKG participant");
+    });
+  });
+});
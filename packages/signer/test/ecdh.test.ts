@@ -0,0 +1,235 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateSecretKey,
+  getPublicKey,
+  matchFilters,
+  nip44,
+  type Event,
+  type Filter,
+} from "nostr-tools";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  createKeyGroupWithDealer,
+  createKeyPackageFromShare,
+  createECDHShare,
+  createECDHShareEvent,
+  verifyECDHShare,
+  combineECDHShares,
+  getGroupNostrPubkey,
+  DecryptionCoordinator,
+  ECDH_EVENT_KINDS,
+  type ProtocolTransport,
+} from "../src/index.js";
+
+/**
+ * In-memory relay shared by all coordinators in a test
+ */
+function createMemoryRelay() {
+  const events: Event[] = [];
+  const subscriptions = new Map<string, { filters: Filter[]; callback: (event: Event) => void }>();
+  let nextId = 0;
+
+  const transport = (): ProtocolTransport => ({
+    async publish(event) {
+      events.push(event);
+      for (const sub of Array.from(subscriptions.values())) {
+        if (matchFilters(sub.filters, event)) {
+          sub.callback(event);
+        }
+      }
+    },
+    subscribe(id, filters, callback) {
+      const key = `${id}-${nextId++}`;
+      subscriptions.set(key, { filters, callback });
+      return () => subscriptions.delete(key);
+    },
+  });
+
+  return { events, transport };
+}
+
+function setupGroup(threshold: number, maxSigners: number) {
+  const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(threshold, maxSigners);
+  const keyPackages = shares.map((share) =>
+    createKeyPackageFromShare(share, groupPubkey, vssCommitments, threshold, maxSigners)
+  );
+  const group = { groupPubkey, vssCommitments, threshold, maxSigners };
+
+  return { groupPubkey, keyPackages, group };
+}
+
+/**
+ * A peer sending a NIP-44 message to the group's nostr pubkey
+ */
+function sendToGroup(groupPubkey: string, plaintext: string) {
+  const senderKey = generateSecretKey();
+  const conversationKey = nip44.v2.utils.getConversationKey(
+    senderKey,
+    getGroupNostrPubkey(groupPubkey)
+  );
+
+  return {
+    sender: getPublicKey(senderKey),
+    payload: nip44.v2.encrypt(plaintext, conversationKey),
+    conversationKey,
+  };
+}
+
+describe("Threshold ECDH", () => {
+  it("should derive the NIP-44 conversation key from any threshold of shares", () => {
+    const { groupPubkey, keyPackages, group } = setupGroup(3, 5);
+    const { sender, payload, conversationKey } = sendToGroup(groupPubkey, "join request");
+
+    const shares = keyPackages.map((pkg) => createECDHShare(pkg, sender));
+    for (const share of shares) {
+      expect(verifyECDHShare(group, share)).toBe(true);
+    }
+
+    for (const subset of [[0, 1, 2], [1, 3, 4], [0, 1, 2, 3, 4]]) {
+      const key = combineECDHShares(group, sender, subset.map((i) => shares[i]!));
+      expect(bytesToHex(key)).toBe(bytesToHex(conversationKey));
+      expect(nip44.v2.decrypt(payload, key)).toBe("join request");
+    }
+
+    expect(() => combineECDHShares(group, sender, shares.slice(0, 2))).toThrow(
+      "Not enough ECDH shares: need 3, got 2"
+    );
+  });
+
+  it("should reject an ECDH share that does not use the admin's key share", () => {
+    const { groupPubkey, keyPackages, group } = setupGroup(2, 3);
+    const { sender } = sendToGroup(groupPubkey, "report");
+
+    const honest = createECDHShare(keyPackages[0]!, sender);
+
+    // Admin 2 contributes with admin 3's share under its own index
+    const forged = { ...createECDHShare(keyPackages[2]!, sender), idx: 2 };
+
+    // A share proven for one peer cannot be used for another
+    const otherPeer = { ...createECDHShare(keyPackages[1]!, sender), peerPubkey: "aa".repeat(32) };
+
+    expect(verifyECDHShare(group, forged)).toBe(false);
+    expect(verifyECDHShare(group, otherPeer)).toBe(false);
+    expect(() => combineECDHShares(group, sender, [honest, forged])).toThrow(
+      "Invalid ECDH share from participant 2"
+    );
+  });
+
+  it("should decrypt and answer a message over a relay with the admins", async () => {
+    const { groupPubkey, keyPackages } = setupGroup(2, 3);
+    const secretKeys = keyPackages.map(() => bytesToHex(generateSecretKey()));
+    const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+    const relay = createMemoryRelay();
+    const requests: string[] = [];
+
+    const coordinators = keyPackages.map((keyPackage, i) => {
+      const coordinator = new DecryptionCoordinator({
+        transport: relay.transport(),
+        keyPackage,
+        participants,
+        secretKey: secretKeys[i]!,
+        timeoutMs: 1000,
+        onDecryptionRequest: (peer, requester) => {
+          requests.push(requester);
+          return true;
+        },
+      });
+      coordinator.start();
+      return coordinator;
+    });
+
+    const { sender, payload, conversationKey } = sendToGroup(groupPubkey, "please let me in");
+
+    expect(await coordinators[0]!.decrypt(sender, payload)).toBe("please let me in");
+    expect(requests).toEqual([participants[0], participants[0]]);
+
+    // The reply uses the cached conversation key
+    const reply = await coordinators[0]!.encrypt(sender, "welcome");
+    expect(nip44.v2.decrypt(reply, conversationKey)).toBe("welcome");
+    expect(relay.events.filter((e) => e.kind === ECDH_EVENT_KINDS.REQUEST)).toHaveLength(1);
+
+    // ECDH shares travel encrypted to the requester
+    for (const event of relay.events.filter((e) => e.kind === ECDH_EVENT_KINDS.SHARE)) {
+      expect(event.content).not.toMatch(/proof/);
+    }
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should drop an invalid ECDH share and wait for valid ones", async () => {
+    const { groupPubkey, keyPackages } = setupGroup(2, 3);
+    const secretKeys = keyPackages.map(() => bytesToHex(generateSecretKey()));
+    const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+    const relay = createMemoryRelay();
+
+    // Admin 2 answers with a share that does not use its key share
+    let requestedPeer = "";
+    const forging = (transport: ProtocolTransport): ProtocolTransport => ({
+      ...transport,
+      publish(event) {
+        if (event.kind !== ECDH_EVENT_KINDS.SHARE) return transport.publish(event);
+
+        const tag = (name: string) => event.tags.find((t) => t[0] === name)![1]!;
+        const peer = getPublicKey(generateSecretKey());
+        const forged = { ...createECDHShare(keyPackages[1]!, peer), peerPubkey: requestedPeer };
+        return transport.publish(
+          createECDHShareEvent(tag("session"), forged, tag("p"), secretKeys[1]!)
+        );
+      },
+    });
+
+    const coordinators = keyPackages.map((keyPackage, i) => {
+      const coordinator = new DecryptionCoordinator({
+        transport: i === 1 ? forging(relay.transport()) : relay.transport(),
+        keyPackage,
+        participants,
+        secretKey: secretKeys[i]!,
+        timeoutMs: 1000,
+      });
+      coordinator.start();
+      return coordinator;
+    });
+
+    const first = sendToGroup(groupPubkey, "one bad admin");
+    requestedPeer = first.sender;
+    expect(await coordinators[0]!.decrypt(first.sender, first.payload)).toBe("one bad admin");
+
+    // Without the honest admin the request times out, naming the culprit
+    coordinators[2]!.stop();
+    const second = sendToGroup(groupPubkey, "no quorum");
+    requestedPeer = second.sender;
+    await expect(coordinators[0]!.decrypt(second.sender, second.payload)).rejects.toThrow(
+      "invalid shares from: 2"
+    );
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should combine the shares of an admin holding several indices", async () => {
+    const { groupPubkey, keyPackages } = setupGroup(2, 3);
+    const adminKeys = [bytesToHex(generateSecretKey()), bytesToHex(generateSecretKey())];
+    const secretKeys = [adminKeys[0]!, adminKeys[0]!, adminKeys[1]!];
+    const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+    const relay = createMemoryRelay();
+
+    const coordinators = keyPackages.map((keyPackage, i) => {
+      const coordinator = new DecryptionCoordinator({
+        transport: relay.transport(),
+        keyPackage,
+        participants,
+        secretKey: secretKeys[i]!,
+        timeoutMs: 1000,
+      });
+      coordinator.start();
+      return coordinator;
+    });
+
+    // The other admin is offline, the admin's second share makes the threshold
+    coordinators[2]!.stop();
+
+    const { sender, payload } = sendToGroup(groupPubkey, "two shares, one admin");
+    expect(await coordinators[0]!.decrypt(sender, payload)).toBe("two shares, one admin");
+
+    coordinators.forEach((c) => c.stop());
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import {
+  createKeyGroupWithDealer,
+  createKeyPackageFromShare,
+  generateRefreshShares,
+  applyRefreshShares,
+  createKeyRing,
+  addKeyRingEntry,
+  addKeyRingShare,
+  replaceKeyRingPackage,
+  updateKeyRingMetadata,
+  removeKeyRingEntry,
+  getKeyRingEntry,
+  getKeyRingPackages,
+  findKeyRingEntryForRequest,
+  listKeyRingEntries,
+  exportKeyRing,
+  importKeyRing,
+  type KeyPackage,
+  type KeyRing,
+} from "../src/index.js";
+
+// Low scrypt cost to keep tests fast
+const LOG_N = 8;
+
+function createKeyPackages(threshold: number, maxSigners: number): KeyPackage[] {
+  const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(threshold, maxSigners);
+  return shares.map((share) =>
+    createKeyPackageFromShare(share, groupPubkey, vssCommitments, threshold, maxSigners)
+  );
+}
+
+function createRing(): { ring: KeyRing; groups: KeyPackage[][] } {
+  const groups = [createKeyPackages(2, 3), createKeyPackages(3, 5), createKeyPackages(2, 2)];
+
+  const ring = groups.reduce(
+    (r, keyPackages, i) =>
+      addKeyRingEntry(r, keyPackages[1]!, {
+        name: `Community ${i + 1}`,
+        relays: [`wss://relay${i + 1}.example.com`],
+      }),
+    createKeyRing()
+  );
+
+  return { ring, groups };
+}
+
+describe("Key ring", () => {
+  it("should index shares by group pubkey and match signing requests", () => {
+    const { ring, groups } = createRing();
+    const [first, second] = groups;
+    const groupPubkey = second![0]!.groupPubkey;
+
+    expect(listKeyRingEntries(ring).map((entry) => entry.metadata.name)).toEqual([
+      "Community 1",
+      "Community 2",
+      "Community 3",
+    ]);
+    expect(getKeyRingEntry(ring, groupPubkey)?.keyPackage).toBe(second![1]);
+    expect(getKeyRingEntry(ring, groupPubkey.slice(2))?.keyPackage).toBe(second![1]);
+    expect(getKeyRingEntry(ring, createKeyPackages(2, 3)[0]!.groupPubkey)).toBeUndefined();
+
+    const request = {
+      sessionId: "session",
+      groupPubkey,
+      signerIndices: [1, 2, 4],
+      event: { kind: 1, created_at: 0, tags: [], content: "", pubkey: groupPubkey.slice(2) },
+    };
+    expect(findKeyRingEntryForRequest(ring, request)?.keyPackage).toBe(second![1]);
+    expect(findKeyRingEntryForRequest(ring, { ...request, signerIndices: [1, 3, 4] }))
+      .toBeUndefined();
+
+    expect(() => addKeyRingEntry(ring, first![2]!)).toThrow("already holds a share");
+    expect(getKeyRingEntry(removeKeyRingEntry(ring, groupPubkey), groupPubkey)).toBeUndefined();
+    expect(getKeyRingEntry(ring, groupPubkey)).toBeDefined();
+  });
+
+  it("should track refreshes and metadata updates", () => {
+    const { ring, groups } = createRing();
+    const keyPackages = groups[0]!;
+    const current = keyPackages[1]!;
+
+    const refreshPackages = keyPackages.map((pkg) => generateRefreshShares(pkg));
+    const refreshed = applyRefreshShares(current, refreshPackages);
+
+    const updated = updateKeyRingMetadata(
+      replaceKeyRingPackage(ring, refreshed),
+      current.groupPubkey,
+      { name: "Renamed" }
+    );
+    const entry = getKeyRingEntry(updated, current.groupPubkey)!;
+
+    expect(entry.keyPackage).toBe(refreshed);
+    expect(entry.metadata.name).toBe("Renamed");
+    expect(entry.metadata.relays).toEqual(["wss://relay1.example.com"]);
+    expect(entry.metadata.lastRefreshedAt).toBeGreaterThan(0);
+
+    expect(() => replaceKeyRingPackage(ring, keyPackages[0]!)).toThrow("Share index changed");
+    expect(() =>
+      updateKeyRingMetadata(ring, current.groupPubkey, { participants: ["aa".repeat(32)] })
+    ).toThrow("Number of participants must equal max signers");
+  });
+
+  it("should only take a share with another index after removing the group", () => {
+    const { ring, groups } = createRing();
+    const keyPackages = groups[0]!;
+    const groupPubkey = keyPackages[0]!.groupPubkey;
+
+    expect(() => replaceKeyRingPackage(ring, keyPackages[0]!)).toThrow(
+      "Share index changed from 2 to 1"
+    );
+    expect(() => addKeyRingEntry(ring, keyPackages[0]!)).toThrow("already holds a share");
+    expect(getKeyRingEntry(ring, groupPubkey)?.keyPackage).toBe(keyPackages[1]);
+
+    const reshared = addKeyRingEntry(removeKeyRingEntry(ring, groupPubkey), keyPackages[0]!);
+    expect(getKeyRingEntry(reshared, groupPubkey)?.keyPackage).toBe(keyPackages[0]);
+    expect(reshared.entries.size).toBe(3);
+  });
+
+  it("should hold every share of a weighted admin in one entry", () => {
+    const { ring, groups } = createRing();
+    const keyPackages = groups[1]!;
+    const groupPubkey = keyPackages[0]!.groupPubkey;
+
+    const weighted = addKeyRingShare(ring, keyPackages[3]!);
+    const entry = getKeyRingEntry(weighted, groupPubkey)!;
+    expect(getKeyRingPackages(entry).map((pkg) => pkg.share.idx)).toEqual([2, 4]);
+    expect(() => addKeyRingShare(weighted, keyPackages[3]!)).toThrow("already holds share 4");
+
+    const request = {
+      sessionId: "session",
+      groupPubkey,
+      signerIndices: [1, 3, 4],
+      event: { kind: 1, created_at: 0, tags: [], content: "", pubkey: groupPubkey.slice(2) },
+    };
+    expect(findKeyRingEntryForRequest(ring, request)).toBeUndefined();
+    expect(findKeyRingEntryForRequest(weighted, request)).toBe(entry);
+
+    const refreshed = applyRefreshShares(
+      keyPackages[3]!,
+      keyPackages.map((pkg) => generateRefreshShares(pkg))
+    );
+    const updated = getKeyRingEntry(replaceKeyRingPackage(weighted, refreshed), groupPubkey)!;
+    expect(updated.keyPackage).toBe(keyPackages[1]);
+    expect(updated.additionalKeyPackages).toEqual([refreshed]);
+
+    const restored = importKeyRing(exportKeyRing(weighted, "hunter2", LOG_N), "hunter2");
+    expect(listKeyRingEntries(restored)).toEqual(listKeyRingEntries(weighted));
+  });
+
+  it("should back up and restore every group with one passphrase", () => {
+    const { ring } = createRing();
+
+    const backup = exportKeyRing(ring, "hunter2", LOG_N);
+    const parsed = JSON.parse(backup);
+
+    expect(parsed.type).toBe("nkg-key-ring");
+    expect(parsed.groups).toHaveLength(3);
+    for (const entry of ring.entries.values()) {
+      expect(backup).not.toContain(entry.keyPackage.share.seckey);
+      expect(backup).not.toContain(entry.metadata.name);
+    }
+
+    const restored = importKeyRing(backup, "hunter2");
+    expect(listKeyRingEntries(restored)).toEqual(listKeyRingEntries(ring));
+
+    expect(() => importKeyRing(backup, "hunter3")).toThrow(
+      "Invalid passphrase or corrupted key ring backup"
+    );
+    expect(() =>
+      importKeyRing(JSON.stringify({ ...parsed, groups: parsed.groups.slice(1) }), "hunter2")
+    ).toThrow("does not list group");
+    expect(() => importKeyRing("ncryptshare1abc", "hunter2")).toThrow("Not a key ring backup");
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { generateSecretKey, getPublicKey, verifyEvent } from "nostr-tools";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  createKeyGroupWithDealer,
+  createKeyPackageFromShare,
+  createNoncePool,
+  generateNonces,
+  createPreprocessedSigningSession,
+  createNonceRegistry,
+  addPublishedNonces,
+  getAvailableNonceCount,
+  assignNonces,
+  createNonceBatchEvent,
+  parseNonceBatchEvent,
+  generatePartialSignature,
+  processPartialSignature,
+  aggregateSignatures,
+  verifySignature,
+  type NonceRegistry,
+} from "../src/index.js";
+
+function setupPools(threshold: number, maxSigners: number, count: number) {
+  const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(threshold, maxSigners);
+  const keyPackages = shares.map((share) =>
+    createKeyPackageFromShare(share, groupPubkey, vssCommitments, threshold, maxSigners)
+  );
+
+  let registry: NonceRegistry = createNonceRegistry();
+  const pools = keyPackages.map((keyPackage) => {
+    const { nonces, pool } = generateNonces(createNoncePool(keyPackage), keyPackage, count);
+    registry = addPublishedNonces(registry, nonces);
+    return pool;
+  });
+
+  return { groupPubkey, keyPackages, pools, registry };
+}
+
+describe("Preprocessed nonces", () => {
+  it("should sign in a single round with preassigned nonces", () => {
+    const { groupPubkey, keyPackages, pools, registry } = setupPools(2, 3, 3);
+    const message = "aabbccdd".repeat(8);
+    const signerIndices = [1, 3];
+
+    // The coordinator assigns nonces, no commitment round needed
+    const { nonces } = assignNonces(registry, signerIndices);
+    const config = { sessionId: "01".repeat(32), message, groupPubkey, signerIndices };
+
+    const sessions = signerIndices.map((idx) => {
+      const { session, pool } = createPreprocessedSigningSession(
+        config,
+        keyPackages[idx - 1]!,
+        nonces,
+        pools[idx - 1]!
+      );
+      expect(pool.nonces.size).toBe(2);
+      return generatePartialSignature(session);
+    });
+
+    let aggregator = sessions[0]!.session;
+    aggregator = processPartialSignature(aggregator, sessions[1]!.partialSig);
+
+    const { signature } = aggregateSignatures(aggregator);
+    expect(verifySignature(groupPubkey, message, signature)).toBe(true);
+  });
+
+  it("should never assign or use a nonce twice", () => {
+    const { groupPubkey, keyPackages, pools, registry } = setupPools(2, 3, 2);
+    const signerIndices = [1, 2];
+
+    const first = assignNonces(registry, signerIndices);
+    const second = assignNonces(first.registry, signerIndices);
+
+    expect(first.nonces.map((n) => n.id)).not.toEqual(second.nonces.map((n) => n.id));
+    expect(getAvailableNonceCount(second.registry, 1)).toBe(0);
+    expect(getAvailableNonceCount(second.registry, 3)).toBe(2);
+    expect(() => assignNonces(second.registry, signerIndices)).toThrow(
+      "No unused nonces for participant 1"
+    );
+
+    // Republished commitments are not handed out again
+    const republished = addPublishedNonces(second.registry, first.nonces);
+    expect(getAvailableNonceCount(republished, 1)).toBe(0);
+
+    // A signer refuses to use the same secret nonce twice
+    const config = { sessionId: "02".repeat(32), message: "ab".repeat(32), groupPubkey, signerIndices };
+    const { pool } = createPreprocessedSigningSession(config, keyPackages[0]!, first.nonces, pools[0]!);
+
+    expect(() =>
+      createPreprocessedSigningSession(config, keyPackages[0]!, first.nonces, pool)
+    ).toThrow("is unknown or already used");
+  });
+
+  it("should publish nonce batches as nostr events", () => {
+    const { groupPubkey, keyPackages } = setupPools(2, 3, 0);
+    const secretKeys = keyPackages.map(() => bytesToHex(generateSecretKey()));
+    const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+
+    const { nonces } = generateNonces(createNoncePool(keyPackages[1]!), keyPackages[1]!, 4);
+    const event = createNonceBatchEvent(groupPubkey, nonces, participants, secretKeys[1]!);
+
+    expect(verifyEvent(event)).toBe(true);
+    expect(event.content).not.toMatch(/_sn/);
+    expect(parseNonceBatchEvent(event, participants)).toEqual(nonces);
+
+    // Batches claiming another signer's index are rejected
+    const forged = createNonceBatchEvent(groupPubkey, nonces, participants, secretKeys[0]!);
+    expect(parseNonceBatchEvent(forged, participants)).toBeNull();
+  });
+});
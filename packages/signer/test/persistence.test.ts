@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  createDKGSession,
+  generateSessionId,
+  generateRound1Package,
+  resumeRound1Package,
+  processRound1Package,
+  generateRound2Packages,
+  processRound2Package,
+  finalizeDKG,
+  createKeyGroupWithDealer,
+  createKeyPackageFromShare,
+  createSigningSession,
+  generateNonceCommitment,
+  processPublicNonce,
+  generatePartialSignature,
+  processPartialSignature,
+  aggregateSignatures,
+  verifySignature,
+  serializeDKGSession,
+  restoreDKGSession,
+  serializeSigningSession,
+  restoreSigningSession,
+  type DKGRound2Package,
+  type DKGSession,
+} from "../src/index.js";
+
+// Low scrypt cost keeps the tests fast
+const LOG_N = 4;
+
+/**
+ * Serialize to JSON and back, as a client storing the session would
+ */
+function reload<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe("Session persistence", () => {
+  it("should resume a DKG session that crashed in round 2", () => {
+    const sessionId = generateSessionId();
+    const secretKeys = Array.from({ length: 3 }, () => bytesToHex(generateSecretKey()));
+    const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+
+    let sessions: DKGSession[] = secretKeys.map((mySecretKey, i) =>
+      generateRound1Package(
+        createDKGSession({
+          sessionId,
+          threshold: 2,
+          maxSigners: 3,
+          participants,
+          myIndex: i + 1,
+          mySecretKey,
+        })
+      ).session
+    );
+
+    sessions = sessions.map((session) =>
+      sessions.reduce(
+        (s, other) =>
+          other.config.myIndex === s.config.myIndex
+            ? s
+            : processRound1Package(s, other.round1Packages.get(other.config.myIndex)!),
+        session
+      )
+    );
+
+    const round2: DKGRound2Package[] = [];
+    sessions = sessions.map((session) => {
+      const result = generateRound2Packages(session);
+      round2.push(...result.packages);
+      return result.session;
+    });
+
+    // Participant 1 receives one share, then reloads
+    const [first, second] = round2.filter((pkg) => pkg.toIdx === 1);
+    const stored = reload(
+      serializeDKGSession(processRound2Package(sessions[0]!, first!), "hunter2", LOG_N)
+    );
+
+    // Secrets are not stored in the clear
+    const json = JSON.stringify(stored);
+    expect(json).not.toContain(secretKeys[0]);
+    expect(json).not.toContain(sessions[0]!.myRound1Secret!.coefficients[0]!.toString(16));
+
+    const restored = processRound2Package(restoreDKGSession(stored, "hunter2"), second!);
+    expect(restored.state).toBe("round2_complete");
+
+    const keyPackages = [
+      finalizeDKG(restored).keyPackage,
+      ...sessions.slice(1).map((session, i) =>
+        finalizeDKG(
+          round2
+            .filter((pkg) => pkg.toIdx === i + 2)
+            .reduce((s, pkg) => processRound2Package(s, pkg), session)
+        ).keyPackage
+      ),
+    ];
+
+    expect(new Set(keyPackages.map((pkg) => pkg.groupPubkey)).size).toBe(1);
+  });
+
+  it("should re-publish the same Round 1 package after a reload in round 1", () => {
+    const sessionId = generateSessionId();
+    const secretKeys = Array.from({ length: 2 }, () => bytesToHex(generateSecretKey()));
+    const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+    const [first, second] = secretKeys.map((mySecretKey, i) =>
+      createDKGSession({
+        sessionId,
+        threshold: 2,
+        maxSigners: 2,
+        participants,
+        myIndex: i + 1,
+        mySecretKey,
+      })
+    );
+
+    // Participant 1 publishes its package, which participant 2 keeps, then reloads
+    const published = resumeRound1Package(first!);
+    const peer = processRound1Package(resumeRound1Package(second!).session, published.package);
+    const restored = restoreDKGSession(
+      reload(serializeDKGSession(published.session, "hunter2", LOG_N)),
+      "hunter2"
+    );
+    expect(restored.state).toBe("initialized");
+
+    const resumed = resumeRound1Package(restored);
+    expect(resumed.package).toEqual(published.package);
+
+    // The shares sent from the resumed session match the package the peer kept
+    const withPeer = processRound1Package(resumed.session, peer.round1Packages.get(2)!);
+    const share = generateRound2Packages(withPeer).packages.find((pkg) => pkg.toIdx === 2)!;
+    const { session: peerRound2 } = generateRound2Packages(peer);
+    expect(processRound2Package(peerRound2, share).complaints).toEqual([]);
+  });
+
+  it("should reject the wrong passphrase", () => {
+    const session = createDKGSession({
+      sessionId: generateSessionId(),
+      threshold: 2,
+      maxSigners: 2,
+      participants: ["aa".repeat(32), "bb".repeat(32)],
+      myIndex: 1,
+      mySecretKey: bytesToHex(generateSecretKey()),
+    });
+
+    const stored = serializeDKGSession(session, "hunter2", LOG_N);
+
+    expect(() => restoreDKGSession(stored, "hunter3")).toThrow(
+      "Invalid passphrase or corrupted session"
+    );
+
+    const otherSession = { ...stored.config, sessionId: generateSessionId() };
+    expect(() => restoreDKGSession({ ...stored, config: otherSession }, "hunter2")).toThrow(
+      "do not belong to session"
+    );
+  });
+
+  it("should resume a signing session without accepting a swapped nonce", () => {
+    const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(2, 3);
+    const keyPackages = shares.map((share) =>
+      createKeyPackageFromShare(share, groupPubkey, vssCommitments, 2, 3)
+    );
+
+    const message = "abcdabcd".repeat(8);
+    const config = { sessionId: "resume-session", message, groupPubkey, signerIndices: [1, 2] };
+
+    const { publicNonce: nonce1, session: session1 } = generateNonceCommitment(
+      createSigningSession(config, keyPackages[0]!)
+    );
+    const { publicNonce: nonce2, session: session2 } = generateNonceCommitment(
+      createSigningSession(config, keyPackages[1]!)
+    );
+
+    // Participant 1 stores its session after receiving the other nonce
+    const stored = reload(
+      serializeSigningSession(processPublicNonce(session1, nonce2), "hunter2", LOG_N)
+    );
+    expect(JSON.stringify(stored)).not.toContain(session1.myCommitment!.hidden_sn);
+
+    const restored = restoreSigningSession(stored, "hunter2");
+
+    const { publicNonce: otherNonce } = generateNonceCommitment(
+      createSigningSession(config, keyPackages[1]!)
+    );
+    expect(() => processPublicNonce(restored, otherNonce)).toThrow(
+      "Conflicting nonce from participant 2"
+    );
+
+    const { partialSig: psig1, session: signed1 } = generatePartialSignature(restored);
+    const { partialSig: psig2 } = generatePartialSignature(processPublicNonce(session2, nonce1));
+    const { signature } = aggregateSignatures(processPartialSignature(signed1, psig2));
+
+    expect(psig1.idx).toBe(1);
+    expect(verifySignature(groupPubkey, message, signature)).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import type { UnsignedEvent } from "nostr-tools";
+import { evaluateSigningPolicy, type SigningPolicy } from "../src/index.js";
+
+// Auto-approve read/write grants for chat kinds, ask for anything else
+const policy: SigningPolicy = {
+  rules: [
+    {
+      kinds: [29000],
+      tags: { capability: ["read", "write"], kinds: ["9", "10", "11", "12"] },
+      decision: "approve",
+    },
+    { kinds: [29000, 29001, 29002, 39000], decision: "manual" },
+  ],
+  defaultDecision: "reject",
+};
+
+function event(kind: number, tags: string[][] = []): UnsignedEvent {
+  return { kind, tags, content: "", created_at: 0, pubkey: "ab".repeat(32) };
+}
+
+describe("Signing policy", () => {
+  it("should auto-approve read/write grants for kinds 9-12", () => {
+    expect(
+      evaluateSigningPolicy(policy, event(29000, [["capability", "write"], ["kinds", "9", "12"]]))
+    ).toBe("approve");
+    expect(
+      evaluateSigningPolicy(policy, event(29000, [["capability", "read"], ["kinds", "11"]]))
+    ).toBe("approve");
+  });
+
+  it("should require manual approval outside the auto-approved scope", () => {
+    // Other capability types
+    expect(
+      evaluateSigningPolicy(policy, event(29000, [["capability", "delete"], ["kinds", "9"]]))
+    ).toBe("manual");
+    // Kinds beyond 9-12
+    expect(
+      evaluateSigningPolicy(policy, event(29000, [["capability", "write"], ["kinds", "9", "39000"]]))
+    ).toBe("manual");
+    // No kinds qualifier at all means every kind
+    expect(evaluateSigningPolicy(policy, event(29000, [["capability", "write"]]))).toBe("manual");
+    // Delegations and group metadata
+    expect(evaluateSigningPolicy(policy, event(29002, [["capability", "read"]]))).toBe("manual");
+    expect(evaluateSigningPolicy(policy, event(39000))).toBe("manual");
+  });
+
+  it("should fall back to the default decision", () => {
+    expect(evaluateSigningPolicy(policy, event(1))).toBe("reject");
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { checkQuorum, getSignerWeights, selectQuorum, type QuorumPolicy } from "../src/index.js";
+
+// Founder with two votes, two moderators and two core team members
+const founder = "f0".repeat(32);
+const [mod1, mod2, core1, core2] = ["a1", "a2", "c1", "c2"].map((p) => p.repeat(32));
+const participants = [founder, founder, mod1!, mod2!, core1!, core2!];
+
+const policy: QuorumPolicy = {
+  tiers: [{ name: "core team", members: [core1!, core2!], minimum: 1 }],
+};
+
+describe("Quorum policy", () => {
+  it("should count votes per admin and check tiers", () => {
+    expect(getSignerWeights(participants, [1, 2, 3])).toEqual(
+      new Map([
+        [founder, 2],
+        [mod1, 1],
+      ])
+    );
+
+    expect(checkQuorum(policy, 3, participants, [1, 2, 3])).toEqual({
+      satisfied: false,
+      weight: 3,
+      unmetTiers: ["core team"],
+    });
+    expect(checkQuorum(policy, 3, participants, [1, 2, 5]).satisfied).toBe(true);
+    expect(checkQuorum(policy, 3, participants, [3, 6]).satisfied).toBe(false);
+    expect(() => checkQuorum(policy, 3, participants, [7])).toThrow("Invalid participant index");
+  });
+
+  it("should select a signer set that meets every tier", () => {
+    expect(selectQuorum(policy, 3, participants, [2, 3, 4, 5, 6], [1])).toEqual([1, 2, 5]);
+    expect(selectQuorum(undefined, 3, participants, [3, 4, 5], [1])).toEqual([1, 3, 4]);
+
+    // No core team member is available
+    expect(selectQuorum(policy, 3, participants, [2, 3, 4], [1])).toBeNull();
+  });
+});
@@ -0,0 +1,295 @@
+import { describe, it, expect } from "vitest";
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  matchFilters,
+  type Event,
+  type Filter,
+} from "nostr-tools";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  createKeyGroupWithDealer,
+  createKeyPackageFromShare,
+  createRefreshCommitmentEvent,
+  generateRefreshShares,
+  signWithShares,
+  verifySignature,
+  RefreshCoordinator,
+  REFRESH_EVENT_KINDS,
+  type KeyPackage,
+  type ProtocolTransport,
+} from "../src/index.js";
+
+/**
+ * In-memory relay shared by all coordinators in a test
+ */
+function createMemoryRelay() {
+  const events: Event[] = [];
+  const subscriptions = new Map<string, { filters: Filter[]; callback: (event: Event) => void }>();
+  let nextId = 0;
+
+  const transport = (): ProtocolTransport => ({
+    async publish(event) {
+      events.push(event);
+      for (const sub of Array.from(subscriptions.values())) {
+        if (matchFilters(sub.filters, event)) {
+          sub.callback(event);
+        }
+      }
+    },
+    subscribe(id, filters, callback) {
+      const key = `${id}-${nextId++}`;
+      subscriptions.set(key, { filters, callback });
+      return () => subscriptions.delete(key);
+    },
+  });
+
+  return { events, transport };
+}
+
+function setupGroup(
+  threshold: number,
+  maxSigners: number,
+  wrap: (transport: ProtocolTransport, i: number) => ProtocolTransport = (t) => t,
+  owners?: number[]
+) {
+  const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(threshold, maxSigners);
+  // Admin holding each share, one admin per share unless given
+  const adminKeys = shares.map(() => bytesToHex(generateSecretKey()));
+  const secretKeys = (owners ?? shares.map((_, i) => i)).map((owner) => adminKeys[owner]!);
+  const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+  const keyPackages = shares.map((share) =>
+    createKeyPackageFromShare(share, groupPubkey, vssCommitments, threshold, maxSigners)
+  );
+  const relay = createMemoryRelay();
+  const refreshed: KeyPackage[] = [];
+  const thresholdChanges = { approve: true, requested: [] as number[] };
+
+  const coordinators = keyPackages.map((keyPackage, i) => {
+    const coordinator = new RefreshCoordinator({
+      transport: wrap(relay.transport(), i),
+      keyPackage,
+      participants,
+      secretKey: secretKeys[i]!,
+      timeoutMs: 1000,
+      onRefresh: (pkg) => refreshed.push(pkg),
+      onThresholdChangeRequest: (newThreshold) => {
+        thresholdChanges.requested.push(newThreshold);
+        return thresholdChanges.approve;
+      },
+    });
+    coordinator.start();
+    return coordinator;
+  });
+
+  return {
+    groupPubkey,
+    keyPackages,
+    secretKeys,
+    participants,
+    relay,
+    coordinators,
+    refreshed,
+    thresholdChanges,
+  };
+}
+
+describe("RefreshCoordinator", () => {
+  it("should refresh all shares of a 2-of-3 group over a relay", async () => {
+    const { groupPubkey, keyPackages, relay, coordinators, refreshed } = setupGroup(2, 3);
+
+    const result = await coordinators[1]!.refresh();
+
+    expect(result.groupPubkey).toBe(groupPubkey);
+    expect(refreshed).toHaveLength(3);
+
+    const newKeyPackages = coordinators.map((c) => c.getKeyPackage());
+    for (let i = 0; i < newKeyPackages.length; i++) {
+      expect(newKeyPackages[i]!.share.idx).toBe(keyPackages[i]!.share.idx);
+      expect(newKeyPackages[i]!.share.seckey).not.toBe(keyPackages[i]!.share.seckey);
+      expect(newKeyPackages[i]!.vssCommitments).toEqual(result.vssCommitments);
+    }
+
+    // Refresh shares travel encrypted, one event per recipient
+    const shareEvents = relay.events.filter((e) => e.kind === REFRESH_EVENT_KINDS.REFRESH_SHARE);
+    expect(shareEvents).toHaveLength(6);
+    for (const event of shareEvents) {
+      expect(event.content).not.toMatch(/seckey/);
+    }
+
+    const message = "aabbccdd".repeat(8);
+    const signature = signWithShares(
+      [newKeyPackages[0]!, newKeyPackages[2]!].map((pkg) => ({ share: pkg.share, groupPubkey })),
+      message,
+      2
+    );
+    expect(verifySignature(groupPubkey, message, signature)).toBe(true);
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should keep the current shares when an admin does not respond", async () => {
+    const { keyPackages, coordinators, refreshed } = setupGroup(2, 3);
+    coordinators[2]!.stop();
+
+    await expect(coordinators[0]!.refresh()).rejects.toThrow("timed out");
+
+    expect(refreshed).toHaveLength(0);
+    expect(coordinators[0]!.getKeyPackage()).toBe(keyPackages[0]);
+    expect(coordinators[1]!.getKeyPackage()).toBe(keyPackages[1]);
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should reject refresh shares that do not match their commitments", async () => {
+    let secretKey = "";
+    let keyPackage: KeyPackage | undefined;
+
+    // Admin 3 broadcasts commitments that do not match the shares it sent
+    const { keyPackages, secretKeys, participants, coordinators, refreshed } = setupGroup(
+      2,
+      3,
+      (transport, i) =>
+        i !== 2
+          ? transport
+          : {
+              ...transport,
+              publish(event) {
+                if (event.kind !== REFRESH_EVENT_KINDS.COMMITMENTS || !keyPackage) {
+                  return transport.publish(event);
+                }
+
+                const sessionId = event.tags.find((t) => t[0] === "session")![1]!;
+                const forged = generateRefreshShares(keyPackage);
+                return transport.publish(
+                  createRefreshCommitmentEvent(sessionId, forged, participants, secretKey)
+                );
+              },
+            }
+    );
+    secretKey = secretKeys[2]!;
+    keyPackage = keyPackages[2]!;
+
+    await expect(coordinators[0]!.refresh()).rejects.toThrow(
+      "Refreshed share does not match refreshed commitments"
+    );
+
+    expect(refreshed).toHaveLength(0);
+    expect(coordinators[0]!.getKeyPackage()).toBe(keyPackages[0]);
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should drop malformed messages and name the admin who sent them", async () => {
+    const sabotage = { secretKey: "", resend: true };
+
+    // Admin 3 sends unparsable commitments, then possibly its real ones
+    const { keyPackages, secretKeys, coordinators, refreshed } = setupGroup(2, 3, (transport, i) =>
+      i !== 2
+        ? transport
+        : {
+            ...transport,
+            async publish(event) {
+              if (event.kind !== REFRESH_EVENT_KINDS.COMMITMENTS) {
+                return transport.publish(event);
+              }
+
+              const malformed = { ...event, content: '{"idx":3,"vssCommitments":"none"}' };
+              await transport.publish(finalizeEvent(malformed, hexToBytes(sabotage.secretKey)));
+              if (sabotage.resend) await transport.publish(event);
+            },
+          }
+    );
+    sabotage.secretKey = secretKeys[2]!;
+
+    await coordinators[0]!.refresh();
+    expect(refreshed).toHaveLength(3);
+
+    sabotage.resend = false;
+    await expect(coordinators[0]!.refresh()).rejects.toThrow("invalid messages from: 3");
+    expect(refreshed).toHaveLength(3);
+    expect(coordinators[0]!.getKeyPackage().share.idx).toBe(keyPackages[0]!.share.idx);
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should raise the threshold once every admin approves", async () => {
+    const { groupPubkey, keyPackages, coordinators, refreshed, thresholdChanges } = setupGroup(
+      2,
+      3
+    );
+
+    const result = await coordinators[0]!.changeThreshold(3);
+
+    expect(thresholdChanges.requested).toEqual([3, 3]);
+    expect(refreshed).toHaveLength(3);
+    expect(result.groupPubkey).toBe(groupPubkey);
+    expect(result.threshold).toBe(3);
+    expect(result.vssCommitments).toHaveLength(3);
+    expect(result.vssCommitments[0]).toBe(keyPackages[0]!.vssCommitments[0]);
+
+    const newKeyPackages = coordinators.map((c) => c.getKeyPackage());
+    for (const pkg of newKeyPackages) {
+      expect(pkg.vssCommitments).toEqual(result.vssCommitments);
+    }
+
+    const message = "aabbccdd".repeat(8);
+    const signature = signWithShares(
+      newKeyPackages.map((pkg) => ({ share: pkg.share, groupPubkey })),
+      message,
+      3
+    );
+    expect(verifySignature(groupPubkey, message, signature)).toBe(true);
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should keep the current threshold when an admin declines", async () => {
+    const { keyPackages, coordinators, refreshed, thresholdChanges } = setupGroup(2, 3);
+    thresholdChanges.approve = false;
+
+    await expect(coordinators[0]!.changeThreshold(3)).rejects.toThrow("timed out");
+    await expect(coordinators[0]!.changeThreshold(2)).rejects.toThrow("Threshold is unchanged");
+
+    expect(refreshed).toHaveLength(0);
+    expect(coordinators[1]!.getKeyPackage()).toBe(keyPackages[1]);
+
+    coordinators.forEach((c) => c.stop());
+  });
+
+  it("should refresh and change the threshold with a weighted admin", async () => {
+    // The first admin holds shares 1 and 2 and runs a coordinator for each
+    const { groupPubkey, keyPackages, coordinators, refreshed, thresholdChanges } = setupGroup(
+      2,
+      3,
+      undefined,
+      [0, 0, 1]
+    );
+
+    const result = await coordinators[0]!.refresh();
+    expect(refreshed).toHaveLength(3);
+
+    const newKeyPackages = coordinators.map((c) => c.getKeyPackage());
+    for (let i = 0; i < newKeyPackages.length; i++) {
+      expect(newKeyPackages[i]!.share.idx).toBe(keyPackages[i]!.share.idx);
+      expect(newKeyPackages[i]!.share.seckey).not.toBe(keyPackages[i]!.share.seckey);
+      expect(newKeyPackages[i]!.vssCommitments).toEqual(result.vssCommitments);
+    }
+
+    // The admin's other share does not ask it to approve its own request
+    const changed = await coordinators[1]!.changeThreshold(3);
+    expect(thresholdChanges.requested).toEqual([3]);
+    expect(changed.threshold).toBe(3);
+
+    const message = "aabbccdd".repeat(8);
+    const signature = signWithShares(
+      coordinators.map((c) => ({ share: c.getKeyPackage().share, groupPubkey })),
+      message,
+      3
+    );
+    expect(verifySignature(groupPubkey, message, signature)).toBe(true);
+
+    coordinators.forEach((c) => c.stop());
+  });
+});
@@ -1,4 +1,6 @@
 import { describe, it, expect } from "vitest";
+import { finalizeEvent, getPublicKey, nip19, verifyEvent } from "nostr-tools";
+import { hexToBytes } from "@noble/hashes/utils";
 import {
   createKeyGroupWithDealer,
   createKeyPackageFromShare,
@@ -15,6 +17,14 @@ import {
   generateRefreshShares,
   applyRefreshShares,
   verifyRefreshedShare,
+  generateReshareShares,
+  verifyResharePackage,
+  applyReshareShares,
+  generateThresholdChangeShares,
+  verifyThresholdChangePackage,
+  applyThresholdChangeShares,
+  dangerouslyReconstructGroupSecret,
+  dangerouslyExportGroupNsec,
 } from "../src/index.js";
 
 describe("Threshold Signing", () => {
@@ -297,4 +307,215 @@ describe("Threshold Signing", () => {
       expect(verifySignature(groupPubkey, message, signature)).toBe(true);
     });
   });
+
+  describe("Share Redistribution (Resharing)", () => {
+    it("should reshare 2-of-3 to 3-of-4 while maintaining group pubkey", () => {
+      const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(2, 3);
+      const keyPackages = shares.map((share) =>
+        createKeyPackageFromShare(share, groupPubkey, vssCommitments, 2, 3)
+      );
+      const group = { groupPubkey, vssCommitments, threshold: 2, maxSigners: 3 };
+
+      // Admins 1 and 3 deal to the new admin set
+      const dealers = [1, 3];
+      const resharePackages = dealers.map((idx) =>
+        generateReshareShares(keyPackages[idx - 1]!, dealers, 3, 4)
+      );
+
+      const newKeyPackages = [1, 2, 3, 4].map((idx) =>
+        applyReshareShares(group, idx, resharePackages)
+      );
+
+      for (const pkg of newKeyPackages) {
+        expect(pkg.groupPubkey).toBe(groupPubkey);
+        expect(pkg.threshold).toBe(3);
+        expect(pkg.maxSigners).toBe(4);
+        expect(verifyRefreshedShare(pkg)).toBe(true);
+      }
+
+      // Old shares do not match the new commitments
+      for (const share of shares) {
+        expect(verifyRefreshedShare({ ...newKeyPackages[0]!, share })).toBe(false);
+      }
+
+      // Any three new shares can sign for the group
+      const message = "aabbccdd".repeat(8);
+      const signature = signWithShares(
+        newKeyPackages.slice(1).map((pkg) => ({ share: pkg.share, groupPubkey })),
+        message,
+        3
+      );
+
+      expect(verifySignature(groupPubkey, message, signature)).toBe(true);
+    });
+
+    it("should reject a tampered reshare package", () => {
+      const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(2, 3);
+      const keyPackages = shares.map((share) =>
+        createKeyPackageFromShare(share, groupPubkey, vssCommitments, 2, 3)
+      );
+      const group = { groupPubkey, vssCommitments, threshold: 2, maxSigners: 3 };
+
+      const dealers = [1, 2];
+      const resharePackages = dealers.map((idx) =>
+        generateReshareShares(keyPackages[idx - 1]!, dealers, 2, 3)
+      );
+
+      // A dealer that swaps in a different secret is caught by its commitments
+      const forged = generateReshareShares(
+        createKeyPackageFromShare(shares[2]!, groupPubkey, vssCommitments, 2, 3),
+        [1, 3],
+        2,
+        3
+      );
+      const tampered = { ...forged, fromIdx: 2, dealerIndices: dealers };
+
+      expect(verifyResharePackage(group, resharePackages[1]!, 1)).toBe(true);
+      expect(verifyResharePackage(group, tampered, 1)).toBe(false);
+      expect(() => applyReshareShares(group, 1, [resharePackages[0]!, tampered])).toThrow(
+        "Invalid reshare package from participant 2"
+      );
+    });
+
+    it("should require at least threshold dealers", () => {
+      const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(3, 5);
+      const keyPackage = createKeyPackageFromShare(shares[0]!, groupPubkey, vssCommitments, 3, 5);
+
+      expect(() => generateReshareShares(keyPackage, [1, 2], 2, 3)).toThrow(
+        "Not enough reshare dealers"
+      );
+    });
+  });
+
+  describe("Threshold Change", () => {
+    it("should raise 2-of-3 to 3-of-3 while maintaining group pubkey", () => {
+      const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(2, 3);
+      const keyPackages = shares.map((share) =>
+        createKeyPackageFromShare(share, groupPubkey, vssCommitments, 2, 3)
+      );
+
+      const dealers = [1, 2, 3];
+      const packages = keyPackages.map((pkg) => generateThresholdChangeShares(pkg, dealers, 3));
+      const newKeyPackages = keyPackages.map((pkg) => applyThresholdChangeShares(pkg, packages));
+
+      for (const pkg of newKeyPackages) {
+        expect(pkg.groupPubkey).toBe(groupPubkey);
+        expect(pkg.threshold).toBe(3);
+        expect(pkg.maxSigners).toBe(3);
+        expect(pkg.vssCommitments).toHaveLength(3);
+        expect(pkg.vssCommitments).toEqual(newKeyPackages[0]!.vssCommitments);
+        expect(verifyRefreshedShare(pkg)).toBe(true);
+      }
+
+      const message = "aabbccdd".repeat(8);
+      const sharesWithPubkey = newKeyPackages.map((pkg) => ({ share: pkg.share, groupPubkey }));
+
+      expect(verifySignature(groupPubkey, message, signWithShares(sharesWithPubkey, message, 3)))
+        .toBe(true);
+
+      // Two shares no longer recover the group secret
+      expect(() =>
+        dangerouslyReconstructGroupSecret(
+          newKeyPackages.slice(0, 2).map((pkg) => pkg.share),
+          newKeyPackages[0]!
+        )
+      ).toThrow("Not enough shares");
+    });
+
+    it("should lower 3-of-5 to 2-of-5 while maintaining group pubkey", () => {
+      const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(3, 5);
+      const keyPackages = shares.map((share) =>
+        createKeyPackageFromShare(share, groupPubkey, vssCommitments, 3, 5)
+      );
+
+      // Any three current admins can deal the lower threshold
+      const dealers = [2, 4, 5];
+      const packages = dealers.map((idx) =>
+        generateThresholdChangeShares(keyPackages[idx - 1]!, dealers, 2)
+      );
+      const newKeyPackages = keyPackages.map((pkg) => applyThresholdChangeShares(pkg, packages));
+
+      for (const pkg of newKeyPackages) {
+        expect(pkg.groupPubkey).toBe(groupPubkey);
+        expect(pkg.threshold).toBe(2);
+        expect(pkg.vssCommitments).toHaveLength(2);
+        expect(verifyRefreshedShare(pkg)).toBe(true);
+      }
+
+      const message = "aabbccdd".repeat(8);
+      const signature = signWithShares(
+        [newKeyPackages[0]!, newKeyPackages[2]!].map((pkg) => ({ share: pkg.share, groupPubkey })),
+        message,
+        2
+      );
+
+      expect(verifySignature(groupPubkey, message, signature)).toBe(true);
+    });
+
+    it("should reject a tampered threshold change package", () => {
+      const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(2, 3);
+      const keyPackages = shares.map((share) =>
+        createKeyPackageFromShare(share, groupPubkey, vssCommitments, 2, 3)
+      );
+      const group = { groupPubkey, vssCommitments, threshold: 2, maxSigners: 3 };
+
+      const dealers = [1, 2, 3];
+      const packages = keyPackages.map((pkg) => generateThresholdChangeShares(pkg, dealers, 3));
+
+      // A dealer whose shares do not match its commitments is caught
+      const tampered = {
+        ...packages[1]!,
+        shares: generateThresholdChangeShares(keyPackages[1]!, dealers, 3).shares,
+      };
+
+      expect(verifyThresholdChangePackage(group, packages[1]!, 1)).toBe(true);
+      expect(verifyThresholdChangePackage(group, tampered, 1)).toBe(false);
+      expect(() =>
+        applyThresholdChangeShares(keyPackages[0]!, [packages[0]!, tampered, packages[2]!])
+      ).toThrow("Invalid threshold change package from participant 2");
+
+      expect(() => generateThresholdChangeShares(keyPackages[0]!, dealers, 2)).toThrow(
+        "Threshold is unchanged"
+      );
+    });
+  });
+
+  describe("Emergency secret reconstruction", () => {
+    it("should reconstruct the group secret from any threshold shares", () => {
+      const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(3, 5);
+      const group = { groupPubkey, vssCommitments, threshold: 3, maxSigners: 5 };
+
+      const secret = dangerouslyReconstructGroupSecret([shares[4]!, shares[0]!, shares[2]!], group);
+      expect(getPublicKey(hexToBytes(secret))).toBe(groupPubkey.slice(2));
+      expect(dangerouslyReconstructGroupSecret(shares, group)).toBe(secret);
+
+      // The exported nsec signs as the group on its own
+      const nsec = dangerouslyExportGroupNsec(shares.slice(1, 4), group);
+      const { data } = nip19.decode(nsec);
+      const event = finalizeEvent(
+        { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: "" },
+        data as Uint8Array
+      );
+
+      expect(event.pubkey).toBe(groupPubkey.slice(2));
+      expect(verifyEvent(event)).toBe(true);
+    });
+
+    it("should reject too few, duplicate or invalid shares", () => {
+      const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(2, 3);
+      const group = { groupPubkey, vssCommitments, threshold: 2, maxSigners: 3 };
+
+      expect(() => dangerouslyReconstructGroupSecret([shares[0]!], group)).toThrow(
+        "Not enough shares: need 2, got 1"
+      );
+      expect(() => dangerouslyReconstructGroupSecret([shares[0]!, shares[0]!], group)).toThrow(
+        "Duplicate share indices"
+      );
+
+      const forged = { idx: 2, seckey: shares[0]!.seckey };
+      expect(() => dangerouslyReconstructGroupSecret([shares[0]!, forged], group)).toThrow(
+        "Share 2 does not match VSS commitments"
+      );
+    });
+  });
 });
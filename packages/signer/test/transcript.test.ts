@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  createDKGSession,
+  generateSessionId,
+  generateRound1Package,
+  processRound1Package,
+  generateRound2Packages,
+  processRound2Package,
+  finalizeDKG,
+  createKeyGroupWithDealer,
+  createKeyPackageFromShare,
+  createSigningSession,
+  generateNonceCommitment,
+  processPublicNonce,
+  generatePartialSignature,
+  processPartialSignature,
+  aggregateSignatures,
+  createDKGTranscript,
+  createSigningTranscript,
+  createTranscript,
+  appendTranscriptEntry,
+  getTranscriptHead,
+  verifyTranscript,
+  createTranscriptAttestationEvent,
+  getTranscriptAttesters,
+  type DKGRound2Package,
+  type DKGSession,
+  type Transcript,
+  type TranscriptRecord,
+} from "../src/index.js";
+
+/**
+ * Run a complete DKG and return every participant's finalized session
+ */
+function runDKG(threshold: number, maxSigners: number) {
+  const sessionId = generateSessionId();
+  const secretKeys = Array.from({ length: maxSigners }, () => bytesToHex(generateSecretKey()));
+  const participants = secretKeys.map((sk) => getPublicKey(hexToBytes(sk)));
+
+  let sessions: DKGSession[] = secretKeys.map((mySecretKey, i) =>
+    generateRound1Package(
+      createDKGSession({
+        sessionId,
+        threshold,
+        maxSigners,
+        participants,
+        myIndex: i + 1,
+        mySecretKey,
+      })
+    ).session
+  );
+
+  sessions = sessions.map((session) =>
+    sessions.reduce(
+      (s, other) =>
+        other.config.myIndex === s.config.myIndex
+          ? s
+          : processRound1Package(s, other.round1Packages.get(other.config.myIndex)!),
+      session
+    )
+  );
+
+  const round2: DKGRound2Package[] = [];
+  sessions = sessions.map((session) => {
+    const result = generateRound2Packages(session);
+    round2.push(...result.packages);
+    return result.session;
+  });
+
+  sessions = sessions.map(
+    (session) =>
+      finalizeDKG(
+        round2
+          .filter((pkg) => pkg.toIdx === session.config.myIndex)
+          .reduce((s, pkg) => processRound2Package(s, pkg), session)
+      ).session
+  );
+
+  return { sessions, secretKeys, participants };
+}
+
+/**
+ * Edit a transcript's records and rebuild its hash chain
+ */
+function rebuild(
+  transcript: Transcript,
+  edit: (record: TranscriptRecord) => TranscriptRecord
+): Transcript {
+  return transcript.entries
+    .map(({ seq: _seq, prevHash: _prevHash, hash: _hash, ...record }) => edit(record))
+    .reduce(appendTranscriptEntry, createTranscript(transcript.sessionId));
+}
+
+describe("Transcripts", () => {
+  it("should give every DKG participant the same attestable transcript", () => {
+    const { sessions, secretKeys, participants } = runDKG(2, 3);
+
+    const transcripts = sessions.map(createDKGTranscript);
+    const head = getTranscriptHead(transcripts[0]!);
+
+    expect(transcripts.every((t) => getTranscriptHead(t) === head)).toBe(true);
+    expect(transcripts[0]!.entries.map((e) => e.type)).toEqual([
+      "dkg_config",
+      "dkg_round1",
+      "dkg_round1",
+      "dkg_round1",
+      "dkg_result",
+    ]);
+    expect(verifyTranscript(transcripts[0]!)).toBe(true);
+
+    // Two of three participants attest, plus an outsider
+    const attestations = [
+      createTranscriptAttestationEvent(transcripts[0]!, secretKeys[0]!),
+      createTranscriptAttestationEvent(transcripts[2]!, secretKeys[2]!),
+      createTranscriptAttestationEvent(transcripts[1]!, bytesToHex(generateSecretKey())),
+    ];
+
+    expect(getTranscriptAttesters(transcripts[1]!, attestations)).toEqual([
+      participants[0],
+      participants[2],
+    ]);
+  });
+
+  it("should detect edited or reordered entries", () => {
+    const { sessions } = runDKG(2, 3);
+    const transcript = createDKGTranscript(sessions[0]!);
+    const [, first, second] = transcript.entries;
+
+    // Editing an entry breaks its hash
+    const edited = {
+      ...transcript,
+      entries: transcript.entries.map((e) => (e === first ? { ...e, data: second!.data } : e)),
+    } as Transcript;
+    expect(verifyTranscript(edited)).toBe(false);
+
+    // Rebuilding the chain does not help when the group key no longer matches
+    const rebuilt = rebuild(transcript, (record) =>
+      record.type === "dkg_round1" && record.data.idx === 1
+        ? { ...record, data: { ...second!.data, idx: 1 } as typeof record.data }
+        : record
+    );
+    expect(verifyTranscript(rebuilt)).toBe(false);
+
+    // Dropping an entry breaks the chain
+    expect(
+      verifyTranscript({ ...transcript, entries: transcript.entries.filter((e) => e.seq !== 2) })
+    ).toBe(false);
+  });
+
+  it("should record and verify the partial signatures of a signing session", () => {
+    const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(2, 3);
+    const keyPackages = shares.map((share) =>
+      createKeyPackageFromShare(share, groupPubkey, vssCommitments, 2, 3)
+    );
+    const participants = shares.map(() => getPublicKey(generateSecretKey()));
+
+    const config = {
+      sessionId: "transcript-session",
+      message: "abcdabcd".repeat(8),
+      groupPubkey,
+      signerIndices: [1, 3],
+    };
+
+    const { publicNonce: nonce1, session: session1 } = generateNonceCommitment(
+      createSigningSession(config, keyPackages[0]!)
+    );
+    const { publicNonce: nonce3, session: session3 } = generateNonceCommitment(
+      createSigningSession(config, keyPackages[2]!)
+    );
+
+    const { session: signed1 } = generatePartialSignature(processPublicNonce(session1, nonce3));
+    const { partialSig: psig3 } = generatePartialSignature(processPublicNonce(session3, nonce1));
+    const { session: final } = aggregateSignatures(processPartialSignature(signed1, psig3));
+
+    const transcript = createSigningTranscript(final, participants);
+    expect(verifyTranscript(transcript)).toBe(true);
+
+    // Partial signatures attributed to another admin do not verify
+    const reattributed = rebuild(transcript, (record) => {
+      switch (record.type) {
+        case "signing_config":
+          return { ...record, data: { ...record.data, signerIndices: [2, 3] } };
+        case "signing_nonce":
+        case "signing_partial":
+          return record.data.idx === 1
+            ? ({ ...record, data: { ...record.data, idx: 2 } } as TranscriptRecord)
+            : record;
+        default:
+          return record;
+      }
+    });
+    expect(verifyTranscript(reattributed)).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  createKeyGroupWithDealer,
+  createKeyPackageFromShare,
+  serializeKeyPackage,
+  deserializeKeyPackage,
+  encryptKeyShare,
+  decryptKeyShare,
+  exportKeyShareFile,
+  importKeyShare,
+  type KeyPackage,
+} from "../src/index.js";
+
+// Low scrypt cost to keep tests fast
+const LOG_N = 8;
+
+function createKeyPackage(): KeyPackage {
+  const { shares, groupPubkey, vssCommitments } = createKeyGroupWithDealer(2, 3);
+  return createKeyPackageFromShare(shares[0]!, groupPubkey, vssCommitments, 2, 3);
+}
+
+describe("Key Share Vault", () => {
+  describe("serialization", () => {
+    it("should round-trip a key package through JSON", () => {
+      const keyPackage = createKeyPackage();
+      const participants = ["a".repeat(64), "b".repeat(64), "c".repeat(64)];
+
+      const serialized = serializeKeyPackage(keyPackage, participants);
+      const restored = deserializeKeyPackage(JSON.stringify(serialized));
+
+      expect(restored.version).toBe(2);
+      expect(restored.data).toEqual(keyPackage);
+      expect(restored.participants).toEqual(participants);
+    });
+
+    it("should migrate version 1 packages", () => {
+      const keyPackage = createKeyPackage();
+
+      const restored = deserializeKeyPackage({ version: 1, data: keyPackage });
+
+      expect(restored.version).toBe(2);
+      expect(restored.data).toEqual(keyPackage);
+      expect(restored.participants).toBeUndefined();
+    });
+
+    it("should reject unknown versions", () => {
+      const keyPackage = createKeyPackage();
+
+      expect(() => deserializeKeyPackage({ version: 99, data: keyPackage })).toThrow(
+        "Unsupported key package version"
+      );
+    });
+
+    it("should reject a share that does not match its commitments", () => {
+      const keyPackage = createKeyPackage();
+      const tampered = {
+        ...keyPackage,
+        share: { ...keyPackage.share, seckey: "11".repeat(32) },
+      };
+
+      expect(() => serializeKeyPackage(tampered)).toThrow("does not match VSS commitments");
+    });
+  });
+
+  describe("encryption", () => {
+    it("should encrypt and decrypt with a passphrase", () => {
+      const keyPackage = createKeyPackage();
+      const serialized = serializeKeyPackage(keyPackage);
+
+      const ncryptshare = encryptKeyShare(serialized, "correct horse", LOG_N);
+
+      expect(ncryptshare.startsWith("ncryptshare1")).toBe(true);
+      expect(ncryptshare).not.toContain(keyPackage.share.seckey);
+
+      const decrypted = decryptKeyShare(ncryptshare, "correct horse");
+      expect(decrypted.data).toEqual(keyPackage);
+    });
+
+    it("should reject the wrong passphrase", () => {
+      const serialized = serializeKeyPackage(createKeyPackage());
+      const ncryptshare = encryptKeyShare(serialized, "correct horse", LOG_N);
+
+      expect(() => decryptKeyShare(ncryptshare, "battery staple")).toThrow(
+        "Invalid passphrase"
+      );
+    });
+  });
+
+  describe("export/import", () => {
+    it("should import from an export file or a raw string", () => {
+      const keyPackage = createKeyPackage();
+      const ncryptshare = encryptKeyShare(serializeKeyPackage(keyPackage), "pw", LOG_N);
+
+      const file = exportKeyShareFile(ncryptshare, keyPackage);
+      expect(JSON.parse(file).groupPubkey).toBe(keyPackage.groupPubkey);
+
+      expect(importKeyShare(file)).toBe(ncryptshare);
+      expect(importKeyShare(`  ${ncryptshare}\n`)).toBe(ncryptshare);
+      expect(() => importKeyShare("nsec1whatever")).toThrow();
+    });
+  });
+});